@@ -17,12 +17,38 @@ import {
   getInitCommandHelp,
   validateInitArgs
 } from './commands/init';
+import {
+  executeUpgradeCommand,
+  getUpgradeCommandHelp
+} from './commands/upgrade';
+import {
+  executeManifestVerifyCommand,
+  getManifestCommandHelp
+} from './commands/manifest';
+import {
+  executeAIAddCommand,
+  executeAIRemoveCommand,
+  getAICommandHelp
+} from './commands/ai';
+import {
+  executeTemplateInfoCommand,
+  executeTemplateInstallCommand,
+  executeTemplateListCommand,
+  executeTemplateRemoveCommand,
+  executeTemplateUpdateCommand,
+  getTemplateCommandHelp
+} from './commands/template';
 import { ExitCode } from './contracts/cli-interface';
-import { AIAssistant, ScriptType } from './types/cli-config';
+import { ProcessorRegistry } from './lib/template-generator/ai-processors';
+import { parseVariableAssignment } from './lib/template-generator/template-variables';
+import { ConflictPolicy, Language, ScriptType, getSupportedAIAssistants, isSupportedAIAssistant, parseAIAssistantList } from './types/cli-config';
 
 // Package information
 const packageInfo = require('../package.json');
 
+// Processor plugins are only loaded by the commands that generate assistant files or check their tools
+let processorPluginsLoaded = false;
+
 // Create main program
 const program = new Command();
 
@@ -54,25 +80,37 @@ program
   .command('init')
   .description('Initialize a new ROD project with rule-oriented development structure')
   .argument('[project-name]', 'Name for your new project directory')
-  .option('--ai <assistant>', 'AI assistant to use', validateAIAssistant)
-  .option('--template <name>', 'Template name to use (for internal templates)')
-  .option('--no-git', 'Skip git repository initialization', false)
+  .option('--ai <assistants>', 'AI assistant(s) to use, comma-separated (e.g. claude,cursor,copilot)', validateAIAssistants)
+  .option('--template <name>', 'Template to use: a name from the template package, a directory or a git URL')
+  .option('--no-git', 'Skip git repository initialization')
   .option('--skip-tls', 'Skip SSL/TLS verification', false)
   .option('--ignore-agent-tools', 'Skip checks for AI agent tools', false)
   .option('--debug', 'Show verbose diagnostic output', false)
+  .option('--dry-run', 'Preview the files that would be generated without writing them', false)
+  .option('--on-conflict <policy>', 'How to handle existing files (skip, overwrite, backup, prompt)', validateConflictPolicy)
+  .option('--lang <language>', 'Language of the generated content (zh, en)', validateLanguage)
+  .option('--var <key=value>', 'Set a template variable (repeatable)', collectVariable, [])
+  .option('--vars <file>', 'JSON file of template variables')
   .action(async (projectName, options, command) => {
     try {
+      loadProcessorPlugins();
+
       // Build args from command line
       const args = {
         projectName,
-        ai: options.ai as AIAssistant,
+        ai: options.ai as string | undefined,
         script: undefined, // Always auto-detect
         template: options.template,
         here: !projectName, // If no project name, use current directory
         noGit: !options.git, // Commander negates no-git to git
         skipTls: options.skipTls,
         ignoreAgentTools: options.ignoreAgentTools,
-        debug: options.debug
+        debug: options.debug,
+        dryRun: options.dryRun,
+        onConflict: options.onConflict as ConflictPolicy,
+        lang: options.lang as Language | undefined,
+        var: options.var,
+        vars: options.vars
       };
 
       // Validate arguments
@@ -109,6 +147,181 @@ program
     }
   });
 
+// Upgrade command
+program
+  .command('upgrade')
+  .description('Refresh generated workflow files in an existing ROD project')
+  .option('--template <name>', 'Template the project was created from')
+  .option('--include-memory', 'Also upgrade .rod/memory', false)
+  .option('--include-specs', 'Also upgrade specs/', false)
+  .option('--force', 'Replace edited files instead of merging', false)
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (options) => {
+    try {
+      loadProcessorPlugins();
+
+      const args = {
+        template: options.template,
+        includeMemory: options.includeMemory,
+        includeSpecs: options.includeSpecs,
+        force: options.force,
+        debug: options.debug
+      };
+
+      await executeUpgradeCommand(args);
+
+    } catch (error) {
+      const err = error as Error;
+      console.error(chalk.red('Upgrade command failed:'), err.message);
+      if (options.debug) {
+        console.error(chalk.gray('\nFull error:'));
+        console.error(err.stack);
+      }
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+// Manifest command
+const manifestCommand = program
+  .command('manifest')
+  .description('Inspect the generation manifest of a ROD project');
+
+manifestCommand
+  .command('verify')
+  .description('Compare generated files against the hashes in .rod/manifest.json')
+  .option('-v, --verbose', 'Also list unchanged files', false)
+  .action(async (options) => {
+    try {
+      await executeManifestVerifyCommand({ verbose: options.verbose });
+    } catch (error) {
+      console.error(chalk.red('Manifest command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+// AI command
+const aiCommand = program
+  .command('ai')
+  .description('Add or remove an AI assistant in an existing ROD project');
+
+aiCommand
+  .command('add <assistant>')
+  .description('Generate the command and config files of another AI assistant')
+  .option('--dry-run', 'Preview the files that would be generated without writing them', false)
+  .option('--on-conflict <policy>', 'How to handle files that already exist', validateConflictPolicy)
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (assistant, options) => {
+    try {
+      loadProcessorPlugins();
+      await executeAIAddCommand({
+        assistant,
+        dryRun: options.dryRun,
+        onConflict: options.onConflict as ConflictPolicy,
+        debug: options.debug
+      });
+    } catch (error) {
+      console.error(chalk.red('AI command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+aiCommand
+  .command('remove <assistant>')
+  .description('Delete the files generated for an AI assistant')
+  .option('--dry-run', 'Preview the files that would be removed without deleting them', false)
+  .option('--force', 'Also remove generated files that were edited', false)
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (assistant, options) => {
+    try {
+      loadProcessorPlugins();
+      await executeAIRemoveCommand({
+        assistant,
+        dryRun: options.dryRun,
+        force: options.force,
+        debug: options.debug
+      });
+    } catch (error) {
+      console.error(chalk.red('AI command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+// Template command
+const templateCommand = program
+  .command('template')
+  .description('List, inspect, install, update or remove templates');
+
+templateCommand
+  .command('list')
+  .description('List the templates of the installed template package')
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (options) => {
+    try {
+      await executeTemplateListCommand({ debug: options.debug });
+    } catch (error) {
+      console.error(chalk.red('Template command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+templateCommand
+  .command('info <name>')
+  .description('Show the files, commands, spec templates and scripts of a template')
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (name, options) => {
+    try {
+      await executeTemplateInfoCommand({ name, debug: options.debug });
+    } catch (error) {
+      console.error(chalk.red('Template command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+templateCommand
+  .command('install [version]')
+  .description('Install the template package globally (latest by default)')
+  .option('--registry <url>', 'npm registry to install from')
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (version, options) => {
+    try {
+      await executeTemplateInstallCommand({
+        version,
+        registry: options.registry,
+        debug: options.debug
+      });
+    } catch (error) {
+      console.error(chalk.red('Template command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+templateCommand
+  .command('update')
+  .description('Update the template package to its latest version')
+  .option('--registry <url>', 'npm registry to install from')
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (options) => {
+    try {
+      await executeTemplateUpdateCommand({ registry: options.registry, debug: options.debug });
+    } catch (error) {
+      console.error(chalk.red('Template command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
+templateCommand
+  .command('remove')
+  .description('Uninstall the template package')
+  .option('--debug', 'Show verbose diagnostic output', false)
+  .action(async (options) => {
+    try {
+      await executeTemplateRemoveCommand({ debug: options.debug });
+    } catch (error) {
+      console.error(chalk.red('Template command failed:'), (error as Error).message);
+      process.exit(ExitCode.GENERAL_ERROR);
+    }
+  });
+
 // Check command
 program
   .command('check')
@@ -116,6 +329,8 @@ program
   .option('-v, --verbose', 'Show detailed output', false)
   .action(async (options) => {
     try {
+      loadProcessorPlugins();
+
       const args = {
         verbose: options.verbose
       };
@@ -136,7 +351,21 @@ program
 // Add custom help for commands
 program.commands.forEach(cmd => {
   if (cmd.name() === 'init') {
-    cmd.addHelpText('afterAll', getInitCommandHelp());
+    cmd.addHelpText('afterAll', () => {
+      loadProcessorPlugins();
+      return getInitCommandHelp();
+    });
+  } else if (cmd.name() === 'upgrade') {
+    cmd.addHelpText('afterAll', getUpgradeCommandHelp());
+  } else if (cmd.name() === 'manifest') {
+    cmd.addHelpText('afterAll', getManifestCommandHelp());
+  } else if (cmd.name() === 'ai') {
+    cmd.addHelpText('afterAll', () => {
+      loadProcessorPlugins();
+      return getAICommandHelp();
+    });
+  } else if (cmd.name() === 'template') {
+    cmd.addHelpText('afterAll', getTemplateCommandHelp());
   } else if (cmd.name() === 'check') {
     cmd.addHelpText('afterAll', getCheckCommandHelp());
   }
@@ -155,22 +384,89 @@ Examples:
   ${chalk.gray('# Initialize a new ROD project')}
   ${chalk.cyan('rod init my-project --ai claude')}
   
+  ${chalk.gray('# One project for several assistants')}
+  ${chalk.cyan('rod init my-project --ai claude,cursor,copilot')}
+  
   ${chalk.gray('# Initialize in current directory')}
   ${chalk.cyan('rod init --ai copilot')}
   
+  ${chalk.gray('# Preview what init would write')}
+  ${chalk.cyan('rod init --ai claude --dry-run')}
+  
+  ${chalk.gray('# Generate English workflow files')}
+  ${chalk.cyan('rod init my-project --ai claude --lang en')}
+  
+  ${chalk.gray('# Re-run init without losing customized files')}
+  ${chalk.cyan('rod init --ai claude --on-conflict=backup')}
+  
+  ${chalk.gray('# Refresh workflow files after updating rod-cli')}
+  ${chalk.cyan('rod upgrade')}
+  
+  ${chalk.gray('# Add an assistant to an existing project')}
+  ${chalk.cyan('rod ai add cursor')}
+  
+  ${chalk.gray('# See what a template contains')}
+  ${chalk.cyan('rod template info pui')}
+  
+  ${chalk.gray('# See which generated files were edited')}
+  ${chalk.cyan('rod manifest verify')}
+  
   ${chalk.gray('# Check system requirements')}
   ${chalk.cyan('rod check --verbose')}
 
 For more information, visit: ${chalk.blue('https://github.com/Rainmen-xia/rod-cli.git')}
 `);
 
+/**
+ * Register the processor plugins once, reporting broken ones as warnings
+ */
+function loadProcessorPlugins(): void {
+  if (processorPluginsLoaded) {
+    return;
+  }
+  processorPluginsLoaded = true;
+
+  ProcessorRegistry.loadPlugins().warnings.forEach(warning => {
+    console.warn(chalk.yellow(`Warning: ${warning}`));
+  });
+}
+
 // Validation functions
-function validateAIAssistant(value: string): AIAssistant {
-  const validValues = Object.values(AIAssistant);
-  if (!validValues.includes(value as AIAssistant)) {
-    throw new Error(`Invalid AI assistant '${value}'. Valid options: ${validValues.join(', ')}`);
+function validateAIAssistants(value: string): string {
+  // Parsed before the action runs, so the plugins' assistants must be known here
+  loadProcessorPlugins();
+  const validValues = getSupportedAIAssistants();
+  const assistants = parseAIAssistantList(value);
+  if (assistants.length === 0) {
+    throw new Error(`No AI assistant given. Valid options: ${validValues.join(', ')}`);
+  }
+  for (const assistant of assistants) {
+    if (!isSupportedAIAssistant(assistant)) {
+      throw new Error(`Invalid AI assistant '${assistant}'. Valid options: ${validValues.join(', ')}`);
+    }
+  }
+  return assistants.join(',');
+}
+
+function validateConflictPolicy(value: string): ConflictPolicy {
+  const validValues = Object.values(ConflictPolicy);
+  if (!validValues.includes(value as ConflictPolicy)) {
+    throw new Error(`Invalid conflict policy '${value}'. Valid options: ${validValues.join(', ')}`);
   }
-  return value as AIAssistant;
+  return value as ConflictPolicy;
+}
+
+function validateLanguage(value: string): Language {
+  const validValues = Object.values(Language);
+  if (!validValues.includes(value as Language)) {
+    throw new Error(`Invalid language '${value}'. Valid options: ${validValues.join(', ')}`);
+  }
+  return value as Language;
+}
+
+function collectVariable(value: string, previous: string[]): string[] {
+  parseVariableAssignment(value);
+  return [...previous, value];
 }
 
 function validateScriptType(value: string): ScriptType {
@@ -0,0 +1,185 @@
+/**
+ * AI Command Implementation
+ *
+ * Adds or removes an AI assistant in an existing ROD project
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { AICommandArgs } from '../contracts/cli-interface';
+import { AssistantManager } from '../lib/assistant-manager';
+import { ProcessorRegistry } from '../lib/template-generator/ai-processors';
+import { AssistantId, ConflictPolicy, getSupportedAIAssistants, isSupportedAIAssistant } from '../types/cli-config';
+import { FileOperation, OperationType } from '../types/results';
+
+export class AICommand {
+  private manager: AssistantManager;
+
+  constructor() {
+    this.manager = new AssistantManager();
+  }
+
+  /**
+   * Execute ai add command
+   */
+  async add(args: AICommandArgs): Promise<void> {
+    const projectPath = process.cwd();
+
+    try {
+      const aiAssistant = this.parseAssistant(args.assistant);
+      console.log(chalk.blue(`➕ ${args.dryRun ? 'Planning' : 'Adding'} ${aiAssistant} assistant files...\n`));
+
+      const result = await this.manager.add({
+        projectPath,
+        aiAssistant,
+        dryRun: args.dryRun,
+        onConflict: args.onConflict as ConflictPolicy | undefined
+      });
+
+      if (!result.success) {
+        throw new Error(result.errors.join(', '));
+      }
+
+      this.displayOperations(result.operations, projectPath, args.debug);
+      result.conflictResolutions
+        .filter(resolution => resolution.action === 'skip')
+        .forEach(resolution => {
+          console.log(chalk.yellow(`  kept existing ${path.relative(projectPath, resolution.path)}`));
+        });
+
+      console.log(chalk.green(args.dryRun
+        ? '\n✨ Dry run complete, no files were written'
+        : `\n✨ ${aiAssistant} added! Existing .rod/ and specs/ files were left untouched.`));
+
+    } catch (error) {
+      this.fail('add', error as Error, args.debug);
+    }
+  }
+
+  /**
+   * Execute ai remove command
+   */
+  async remove(args: AICommandArgs): Promise<void> {
+    const projectPath = process.cwd();
+
+    try {
+      const aiAssistant = this.parseAssistant(args.assistant);
+      console.log(chalk.blue(`➖ ${args.dryRun ? 'Planning removal of' : 'Removing'} ${aiAssistant} assistant files...\n`));
+
+      const result = await this.manager.remove({
+        projectPath,
+        aiAssistant,
+        dryRun: args.dryRun,
+        force: args.force
+      });
+
+      if (!result.success) {
+        throw new Error(result.errors.join(', '));
+      }
+
+      this.displayOperations(result.operations, projectPath, args.debug);
+      result.keptFiles.forEach(file => {
+        console.log(`  ${chalk.yellow('kept'.padEnd(10))} ${path.relative(projectPath, file)} ${chalk.gray('(edited)')}`);
+      });
+
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n⚠️  Warnings:'));
+        result.warnings.forEach(warning => {
+          console.log(chalk.yellow(`   ${warning}`));
+        });
+      }
+
+      const remaining = result.aiAssistants.length > 0 ? result.aiAssistants.join(', ') : 'none';
+      console.log(chalk.green(args.dryRun
+        ? '\n✨ Dry run complete, no files were removed'
+        : `\n✨ ${aiAssistant} removed! Remaining assistants: ${remaining}`));
+
+    } catch (error) {
+      this.fail('remove', error as Error, args.debug);
+    }
+  }
+
+  /**
+   * List the files touched in the project, hiding rod's bookkeeping files unless debugging
+   */
+  private displayOperations(operations: FileOperation[], projectPath: string, debug?: boolean): void {
+    const labels: Partial<Record<OperationType, (text: string) => string>> = {
+      [OperationType.CREATE]: chalk.green,
+      [OperationType.OVERWRITE]: chalk.yellow,
+      [OperationType.DELETE]: chalk.red
+    };
+
+    operations.forEach(op => {
+      const relativePath = path.relative(projectPath, op.path);
+      const label = labels[op.operation];
+      if (!label || (relativePath.startsWith('.rod' + path.sep) && !debug)) {
+        return;
+      }
+      console.log(`  ${label(op.operation.padEnd(10))} ${relativePath}`);
+    });
+  }
+
+  private parseAssistant(value: string): AssistantId {
+    const aiAssistant = value?.toLowerCase();
+    if (!isSupportedAIAssistant(aiAssistant)) {
+      throw new Error(`Invalid AI assistant '${value}'. Valid options: ${getSupportedAIAssistants().join(', ')}`);
+    }
+    return aiAssistant;
+  }
+
+  private fail(action: string, error: Error, debug?: boolean): never {
+    console.error(chalk.red(`\n❌ ai ${action} failed:`));
+    console.error(chalk.red(error.message));
+
+    if (debug) {
+      console.error(chalk.gray('\nDebug: Full error:'));
+      console.error(error);
+    }
+
+    process.exit(1);
+  }
+}
+
+// Utility functions for CLI integration
+export async function executeAIAddCommand(args: AICommandArgs): Promise<void> {
+  const command = new AICommand();
+  await command.add(args);
+}
+
+export async function executeAIRemoveCommand(args: AICommandArgs): Promise<void> {
+  const command = new AICommand();
+  await command.remove(args);
+}
+
+export function getAICommandHelp(): string {
+  return `
+Add or remove an AI assistant in an existing ROD project
+
+Usage:
+  rod ai add <assistant> [options]      # Run from the project root
+  rod ai remove <assistant> [options]
+
+Options:
+  --dry-run                 Preview the changes without touching any file
+  --on-conflict <policy>    add: how to handle existing files (skip, overwrite, backup, prompt)
+  --force                   remove: also delete generated files you have edited
+  --debug                   Show verbose output
+
+Assistants:
+${ProcessorRegistry.getAll().map(plugin => `  ${plugin.id.padEnd(24)}  ${plugin.displayName}`).join('\n')}
+
+Notes:
+  • add only generates the assistant's command and config files; .rod/ and
+    specs/ are left untouched
+  • remove only deletes files the assistant's processor generates (for example
+    .gemini/commands/*.toml and .gemini-config.json); other files are kept,
+    and only rod's servers are removed from the assistant's MCP configuration
+  • Both commands update .rod/config.json and .rod/manifest.json
+  • More assistants can be added with rod-processor-* packages installed next
+    to rod-cli or the "processors" list in ~/.rod/config.json
+
+Examples:
+  rod ai add cursor                     # A teammate uses Cursor
+  rod ai remove gemini --dry-run        # See what would be deleted
+`;
+}
@@ -7,7 +7,7 @@
 import chalk from 'chalk';
 import { CheckCommandArgs } from '../contracts/cli-interface';
 import { ToolChecker } from '../lib/tool-checker';
-import { AIAssistant } from '../types/cli-config';
+import { AssistantId } from '../types/cli-config';
 
 export class CheckCommand {
   private toolChecker: ToolChecker;
@@ -68,7 +68,7 @@ export class CheckCommand {
   /**
    * Check specific AI assistant requirements
    */
-  async checkAIAssistant(aiAssistant: AIAssistant, verbose?: boolean): Promise<void> {
+  async checkAIAssistant(aiAssistant: AssistantId, verbose?: boolean): Promise<void> {
     console.log(chalk.blue(`🔍 Checking requirements for ${aiAssistant}...\n`));
 
     const systemCheck = await this.toolChecker.performSystemCheck(aiAssistant);
@@ -240,7 +240,7 @@ export async function quickSystemCheck(): Promise<boolean> {
 }
 
 export async function checkAIAssistantRequirements(
-  aiAssistant: AIAssistant, 
+  aiAssistant: AssistantId, 
   verbose?: boolean
 ): Promise<void> {
   const command = new CheckCommand();
@@ -5,28 +5,43 @@
  */
 
 import chalk from 'chalk';
+import { promises as fs } from 'fs';
 import path from 'path';
 import { InitCommandArgs } from '../contracts/cli-interface';
-import { CLIConfig, AIAssistant, ScriptType } from '../types/cli-config';
+import { CLIConfig, AIAssistant, ConflictPolicy, Language, ScriptType, getSupportedAIAssistants, isSupportedAIAssistant, parseAIAssistantList } from '../types/cli-config';
+import {
+  ConflictResolution,
+  InitializationResult,
+  OperationType,
+  ResultBuilder,
+  ResultFormatter
+} from '../types/results';
 import { ConfigManager } from '../lib/config-manager';
-import { LocalTemplateGenerator, TemplateGenerationConfig } from '../lib/template-generator';
+import { LocalTemplateGenerator, TemplateGenerationConfig, GenerationResult } from '../lib/template-generator';
 import { ToolChecker } from '../lib/tool-checker';
+import { GitInitializer } from '../lib/git-initializer';
+import { loadVariablesFile, parseVariableAssignment } from '../lib/template-generator/template-variables';
+import { TemplateVariableValues } from '../types/project-template';
 
 export class InitCommand {
   private configManager: ConfigManager;
   private templateGenerator: LocalTemplateGenerator;
   private toolChecker: ToolChecker;
+  private gitInitializer: GitInitializer;
 
   constructor() {
     this.configManager = new ConfigManager();
     this.templateGenerator = new LocalTemplateGenerator();
     this.toolChecker = new ToolChecker();
+    this.gitInitializer = new GitInitializer();
   }
 
   /**
    * Execute init command
    */
   async execute(args: InitCommandArgs): Promise<void> {
+    const startTime = Date.now();
+
     try {
       console.log(chalk.blue('🚀 Initializing Spec Kit project...\n'));
 
@@ -45,17 +60,36 @@ export class InitCommand {
       }
 
       // Step 3: Generate template locally
-      console.log(chalk.blue('📦 Generating project template...'));
+      console.log(chalk.blue(args.dryRun
+        ? '📦 Planning project template (dry run)...'
+        : '📦 Generating project template...'));
       const templateConfig: TemplateGenerationConfig = {
         aiAssistant: config.aiAssistant,
+        aiAssistants: config.aiAssistants,
         scriptType: config.scriptType,
         projectPath: config.projectPath,
         projectName: config.projectName,
-        templateName: args.template
+        templateName: args.template,
+        dryRun: args.dryRun,
+        onConflict: args.onConflict as ConflictPolicy | undefined,
+        language: args.lang as Language | undefined,
+        variables: await this.loadVariables(args)
       };
 
       const result = await this.templateGenerator.generateTemplate(templateConfig);
 
+      // Dry run: show the plan and stop before anything else touches disk
+      if (args.dryRun) {
+        if (!result.success) {
+          throw new Error(`Template generation failed: ${result.errors.join(', ')}`);
+        }
+        this.displayPlannedOperations(result, config.projectPath);
+        this.displayConflictResolutions(result.conflictResolutions, config.projectPath);
+        await this.displayPlannedGitSetup(config);
+        console.log(chalk.green('\n✨ Dry run complete - no files were written.'));
+        return;
+      }
+
       // Step 4: Display results
       if (result.success) {
         console.log(chalk.green('✅ Template generated successfully'));
@@ -67,9 +101,20 @@ export class InitCommand {
           });
         }
       } else {
-        throw new Error(`Template generation failed: ${result.errors.join(', ')}`);
+        this.displayFailedInit(
+          ResultBuilder.createFailedInit(
+            config.projectPath,
+            result.errors,
+            result.rollbackOperations,
+            Date.now() - startTime
+          ),
+          config.debug
+        );
+        process.exit(1);
       }
 
+      this.displayConflictResolutions(result.conflictResolutions, config.projectPath);
+
       // Show warnings if any
       if (result.warnings.length > 0) {
         console.log(chalk.yellow('\n⚠️  Warnings:'));
@@ -78,6 +123,11 @@ export class InitCommand {
         });
       }
 
+      // Step 5: Initialize git repository
+      if (!config.skipGit) {
+        await this.initializeGit(config, result.filesCreated);
+      }
+
       // Step 6: Add to recent projects
       if (result.success) {
         await this.configManager.addToRecent(config.projectPath);
@@ -85,7 +135,8 @@ export class InitCommand {
         console.log(chalk.green('\n✨ Project initialized successfully!'));
         console.log(chalk.gray(`\nNext steps:`));
         console.log(chalk.gray(`  cd ${config.projectName || '.'}`));
-        console.log(chalk.gray(`  # Start using your ${config.aiAssistant} assistant!`));
+        const assistants = config.aiAssistants || [config.aiAssistant];
+        console.log(chalk.gray(`  # Start using your ${assistants.join(', ')} assistant${assistants.length > 1 ? 's' : ''}!`));
       } else {
         process.exit(1);
       }
@@ -142,13 +193,27 @@ export class InitCommand {
     return config;
   }
 
+  /**
+   * Collect template variables from --vars, overridden by each --var
+   */
+  private async loadVariables(args: InitCommandArgs): Promise<TemplateVariableValues> {
+    const variables = args.vars ? await loadVariablesFile(path.resolve(args.vars)) : {};
+
+    for (const assignment of args.var || []) {
+      const [name, value] = parseVariableAssignment(assignment);
+      variables[name] = value;
+    }
+
+    return variables;
+  }
+
   /**
    * Perform system checks
    */
   private async performSystemChecks(config: CLIConfig): Promise<void> {
     console.log(chalk.blue('🔍 Checking system requirements...'));
     
-    const systemCheck = await this.toolChecker.performSystemCheck(config.aiAssistant);
+    const systemCheck = await this.toolChecker.performSystemCheck(config.aiAssistants || config.aiAssistant);
     
     if (systemCheck.overallStatus === 'fail') {
       console.log(chalk.red('\n❌ System check failed:'));
@@ -181,6 +246,143 @@ export class InitCommand {
   }
 
 
+  /**
+   * Display a failed initialization and the rollback that followed it
+   */
+  private displayFailedInit(failedResult: InitializationResult, debug: boolean): void {
+    const restored = failedResult.operations.filter(op => op.success).length;
+    if (failedResult.operations.length > 0) {
+      failedResult.warnings.push(
+        `Rolled back ${restored} change(s); ${failedResult.projectPath} was restored to its previous state`
+      );
+    }
+
+    console.error(chalk.red(`\n${ResultFormatter.formatForConsole(failedResult)}`));
+
+    if (debug) {
+      console.error(chalk.gray('\nDebug: Rollback operations:'));
+      failedResult.operations.forEach(op => {
+        const status = op.success ? '✓' : `✗ ${op.error}`;
+        console.error(chalk.gray(`  ${op.operation.padEnd(10)} ${path.relative(failedResult.projectPath, op.path) || '.'} ${status}`));
+      });
+    }
+  }
+
+  /**
+   * Initialize git and commit the generated files
+   *
+   * Git problems never fail the init: the files are already in place,
+   * so they are reported as warnings with a hint to finish manually.
+   */
+  private async initializeGit(config: CLIConfig, filesCreated: string[]): Promise<void> {
+    if (!(await this.gitInitializer.isGitAvailable())) {
+      console.log(chalk.yellow('\n⚠️  Git not found, skipping repository initialization'));
+      return;
+    }
+
+    console.log(chalk.blue('\n🔧 Initializing git repository...'));
+    const gitResult = await this.gitInitializer.initialize(config.projectPath, filesCreated);
+
+    if (config.debug) {
+      gitResult.operations.forEach(op => {
+        const status = op.success ? chalk.green('✓') : chalk.red('✗');
+        console.log(chalk.gray(`  ${status} ${op.command} (${op.duration}ms)`));
+      });
+    }
+
+    if (gitResult.skipped) {
+      console.log(chalk.gray(`   Already inside git repository ${gitResult.repositoryPath}, skipped`));
+    } else if (gitResult.commitSkipped) {
+      console.log(chalk.green(`✅ Git repository initialized (${gitResult.branchName})`));
+      console.log(chalk.gray('   .gitignore excludes every generated file, initial commit skipped'));
+    } else if (gitResult.success) {
+      console.log(chalk.green(`✅ Git repository initialized (${gitResult.branchName} @ ${gitResult.initialCommit.slice(0, 7)})`));
+    } else {
+      console.log(chalk.yellow(`⚠️  ${gitResult.error}`));
+      console.log(chalk.gray('   Commit the generated files manually, or re-run with --no-git'));
+    }
+  }
+
+  /**
+   * Describe the git setup a real run would perform
+   */
+  private async displayPlannedGitSetup(config: CLIConfig): Promise<void> {
+    if (config.skipGit) {
+      return;
+    }
+
+    // The project directory may not exist yet, so check its closest existing parent
+    let existingDir = config.projectPath;
+    while (!(await fs.access(existingDir).then(() => true, () => false)) && path.dirname(existingDir) !== existingDir) {
+      existingDir = path.dirname(existingDir);
+    }
+
+    if (await this.gitInitializer.isInsideWorkTree(existingDir)) {
+      console.log(chalk.gray('\nGit: already inside a git work tree, no repository would be created'));
+    } else {
+      console.log(chalk.gray('\nGit: would run git init, write .gitignore and commit the generated files'));
+    }
+  }
+
+  /**
+   * Display planned file operations for a dry run
+   */
+  private displayPlannedOperations(result: GenerationResult, projectPath: string): void {
+    console.log(chalk.blue('\n📋 Dry run - the following operations would be performed:\n'));
+
+    const colors: Partial<Record<OperationType, (text: string) => string>> = {
+      [OperationType.CREATE]: chalk.green,
+      [OperationType.OVERWRITE]: chalk.yellow,
+      [OperationType.APPEND]: chalk.cyan
+    };
+
+    result.operations.forEach(op => {
+      const color = colors[op.operation] || chalk.gray;
+      const size = op.size !== undefined ? chalk.gray(` (${(op.size / 1024).toFixed(1)} KB)`) : '';
+      console.log(`  ${color(op.operation.padEnd(10))} ${path.relative(projectPath, op.path)}${size}`);
+    });
+
+    const count = (type: OperationType) => result.operations.filter(op => op.operation === type).length;
+    console.log(chalk.gray(
+      `\n${result.operations.length} files (${(result.totalSize / 1024).toFixed(1)} KB): ` +
+      `${count(OperationType.CREATE)} create, ${count(OperationType.OVERWRITE)} overwrite, ` +
+      `${count(OperationType.APPEND)} append, ${count(OperationType.SKIP)} skip`
+    ));
+
+    if (result.warnings.length > 0) {
+      console.log(chalk.yellow('\n⚠️  Warnings:'));
+      result.warnings.forEach(warning => {
+        console.log(chalk.yellow(`   ${warning}`));
+      });
+    }
+  }
+
+  /**
+   * Display how files that already existed in the project were handled
+   */
+  private displayConflictResolutions(resolutions: ConflictResolution[], projectPath: string): void {
+    if (resolutions.length === 0) {
+      return;
+    }
+
+    console.log(chalk.yellow(`\n📝 ${resolutions.length} existing file(s) affected:`));
+
+    resolutions.forEach(resolution => {
+      const relativePath = path.relative(projectPath, resolution.path);
+
+      switch (resolution.action) {
+        case 'skip':
+          console.log(chalk.gray(`   kept       ${relativePath}`));
+          break;
+        case 'rename':
+          console.log(chalk.cyan(`   backed up  ${relativePath} → ${path.relative(projectPath, resolution.newName!)}`));
+          break;
+        default:
+          console.log(chalk.yellow(`   replaced   ${relativePath}`) + chalk.gray(` (${resolution.reason})`));
+      }
+    });
+  }
+
   /**
    * Resolve project path from arguments
    */
@@ -227,8 +429,31 @@ export async function validateInitArgs(args: InitCommandArgs): Promise<string[]>
   const errors: string[] = [];
 
   // Validate AI assistant
-  if (args.ai && !Object.values(AIAssistant).includes(args.ai as AIAssistant)) {
-    errors.push(`Invalid AI assistant: ${args.ai}. Valid options: ${Object.values(AIAssistant).join(', ')}`);
+  if (args.ai) {
+    parseAIAssistantList(args.ai)
+      .filter(assistant => !isSupportedAIAssistant(assistant))
+      .forEach(assistant => {
+        errors.push(`Invalid AI assistant: ${assistant}. Valid options: ${getSupportedAIAssistants().join(', ')}`);
+      });
+  }
+
+  // Validate conflict policy
+  if (args.onConflict && !Object.values(ConflictPolicy).includes(args.onConflict as ConflictPolicy)) {
+    errors.push(`Invalid conflict policy: ${args.onConflict}. Valid options: ${Object.values(ConflictPolicy).join(', ')}`);
+  }
+
+  // Validate language
+  if (args.lang && !Object.values(Language).includes(args.lang as Language)) {
+    errors.push(`Invalid language: ${args.lang}. Valid options: ${Object.values(Language).join(', ')}`);
+  }
+
+  // Validate template variables
+  for (const assignment of args.var || []) {
+    try {
+      parseVariableAssignment(assignment);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
   }
 
   // Validate script type
@@ -251,29 +476,52 @@ Usage:
   rod init [options]                    # Initialize in current directory
 
 Options:
-  --ai <assistant>          AI assistant to use (claude, copilot, gemini, cursor, codebuddy)
-  --template <name>         Template name to use (for internal templates)
+  --ai <assistants>         AI assistant(s) to use, comma-separated (${getSupportedAIAssistants().join(', ')})
+  --template <name>         Template name, directory, file: URL or git+<url>#<tag|commit>
   --no-git                  Skip git repository initialization
   --skip-tls                Skip SSL/TLS verification (not recommended)
   --ignore-agent-tools      Skip AI agent tool checks
   --debug                   Show verbose output
+  --dry-run                 Preview every file init would create, overwrite or append to
+  --on-conflict <policy>    How to handle existing files: skip, overwrite (default), backup, prompt
+  --lang <language>         Language of the generated content: zh (default), en
+  --var <key=value>         Set a template variable (repeatable)
+  --vars <file>             JSON file of template variables (--var takes precedence)
 
 Notes:
   • If no project name is provided, initializes in the current directory
   • Uses Node.js scripts for all platforms (requires Node.js >= 18)
+  • Selected assistants are recorded in .rod/config.json; re-running init with
+    another assistant adds it to the project
   • Always uses the roadmap workflow (module → spec → design → todo → sync)
+  • Runs git init, writes .gitignore and commits the generated files, unless
+    --no-git is passed or the project is already inside a git work tree
   • Template option supports both local and NPM packages from internal registry
+  • The language is recorded in .rod/config.json and reused by upgrade and ai add;
+    a template can only be generated in the languages it provides
+  • Template variables are declared in the template's rod-template.json; missing
+    values are asked for in a terminal, else their defaults are used. The values
+    are recorded in .rod/config.json and reused by upgrade and ai add
 
 Template behavior:
   • If --template is specified, CLI checks for global NPM package @tencent/rod-cli-templates
   • If not installed, executes: npm install -g @tencent/rod-cli-templates --registry=https://npm.tencent.com
   • Reads specific template (e.g., pui/) directly from global node_modules
   • Template updates: npm update -g @tencent/rod-cli-templates
+  • A directory (./my-template, file:./my-template) is used in place
+  • A git URL must be pinned to a tag or commit; it is cloned once into ~/.rod/cache
 
 Examples:
   rod init my-project --ai claude       # Create new directory 'my-project'
   rod init --ai copilot                 # Initialize in current directory
   rod init my-app --ai gemini --debug   # Create with debug output
+  rod init --ai claude,cursor,copilot   # One .rod/ shared by several assistants
   rod init --template pui --ai claude   # Install PUI template from NPM and use it
+  rod init --ai claude --dry-run        # Preview changes without writing files
+  rod init --ai claude --lang en        # Generate English commands, templates and rules
+  rod init --template svc --var SERVICE_PORT=8080 --vars vars.json
+  rod init --template ./my-template --ai claude
+  rod init --template git+https://git.example.com/team/svc.git#v1.2.0
+  rod init --ai claude --on-conflict=skip  # Re-init, keeping customized files
 `;
 }
\ No newline at end of file
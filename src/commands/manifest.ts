@@ -0,0 +1,87 @@
+/**
+ * Manifest Command Implementation
+ *
+ * Inspects .rod/manifest.json to report how generated files changed since init
+ */
+
+import chalk from 'chalk';
+import { ManifestCommandArgs } from '../contracts/cli-interface';
+import { GenerationManifest, ManifestVerification } from '../lib/template-generator/generation-manifest';
+
+export class ManifestCommand {
+  /**
+   * Execute manifest verify command
+   */
+  async verify(args: ManifestCommandArgs): Promise<void> {
+    const projectPath = process.cwd();
+
+    try {
+      const manifest = await GenerationManifest.load(projectPath);
+      if (!manifest) {
+        throw new Error('No .rod/manifest.json found. The project was created before manifests were recorded, or is not a ROD project.');
+      }
+
+      const data = manifest.getData();
+      console.log(chalk.blue('🔍 Verifying generated files against .rod/manifest.json...\n'));
+      console.log(chalk.gray(`rod-cli ${data.rodVersion} · template ${data.template.name}@${data.template.version} · ${data.aiAssistants.join(', ')}`));
+      console.log(chalk.gray(`Generated at ${data.generatedAt}\n`));
+
+      const verification = await manifest.verify();
+      this.displayVerification(verification, args.verbose);
+
+    } catch (error) {
+      console.error(chalk.red('❌ Manifest verification failed:'));
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Display files grouped by status
+   */
+  private displayVerification(verification: ManifestVerification, verbose?: boolean): void {
+    // Pristine files are the common case, so they are only listed with --verbose
+    if (verbose) {
+      verification.pristine.forEach(file => console.log(`  ${chalk.green('pristine'.padEnd(10))} ${file}`));
+    }
+    verification.edited.forEach(file => console.log(`  ${chalk.yellow('edited'.padEnd(10))} ${file}`));
+    verification.missing.forEach(file => console.log(`  ${chalk.red('missing'.padEnd(10))} ${file}`));
+
+    console.log(chalk.gray(
+      `\n${verification.pristine.length} pristine, ${verification.edited.length} edited, ${verification.missing.length} missing`
+    ));
+
+    if (verification.edited.length === 0 && verification.missing.length === 0) {
+      console.log(chalk.green('\n✅ All generated files are unchanged'));
+    }
+  }
+}
+
+// Utility functions for CLI integration
+export async function executeManifestVerifyCommand(args: ManifestCommandArgs): Promise<void> {
+  const command = new ManifestCommand();
+  await command.verify(args);
+}
+
+export function getManifestCommandHelp(): string {
+  return `
+Inspect the generation manifest (.rod/manifest.json) of a ROD project
+
+Usage:
+  rod manifest verify [options]         # Run from the project root
+
+Options:
+  -v, --verbose             Also list files that are unchanged
+
+Notes:
+  • The manifest records the rod-cli version, template, AI assistant and a
+    SHA-256 hash of every generated file
+  • pristine: content matches what rod generated
+  • edited:   content changed since it was generated
+  • missing:  file was generated but no longer exists
+
+Examples:
+  rod manifest verify                   # List edited and missing files
+  rod manifest verify --verbose         # List every generated file
+`;
+}
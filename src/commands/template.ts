@@ -0,0 +1,230 @@
+/**
+ * Template Command Implementation
+ *
+ * Lists, inspects, installs, updates and removes the templates used by `rod init --template`
+ */
+
+import chalk from 'chalk';
+import { TemplateCommandArgs } from '../contracts/cli-interface';
+import { NPMTemplateManager, TEMPLATE_PACKAGE_NAME } from '../lib/npm-template-manager';
+
+export class TemplateCommand {
+  private manager: NPMTemplateManager;
+
+  constructor() {
+    this.manager = new NPMTemplateManager();
+  }
+
+  /**
+   * Execute template list command
+   */
+  async list(args: TemplateCommandArgs): Promise<void> {
+    try {
+      const templates = await this.manager.getAvailableTemplates();
+      if (templates.length === 0) {
+        console.log(chalk.yellow(`No templates installed. Run 'rod template install' to install ${TEMPLATE_PACKAGE_NAME}.`));
+        return;
+      }
+
+      const packageVersion = await this.manager.getPackageVersion();
+      console.log(chalk.blue(packageVersion
+        ? `📦 Templates in ${TEMPLATE_PACKAGE_NAME}@${packageVersion}:\n`
+        : '📦 Templates (local development directory):\n'));
+
+      for (const template of templates) {
+        const version = await this.manager.getTemplateVersion(template);
+        console.log(`  ${chalk.cyan(template.padEnd(20))} ${chalk.gray(version)}`);
+      }
+
+      console.log(chalk.gray('\nUse a template with: rod init --template <name>'));
+
+    } catch (error) {
+      this.fail('list', error as Error, args.debug);
+    }
+  }
+
+  /**
+   * Execute template info command
+   */
+  async info(args: TemplateCommandArgs): Promise<void> {
+    try {
+      if (!args.name) {
+        throw new Error('Template name is required');
+      }
+
+      const info = await this.manager.getTemplateInfo(args.name);
+
+      console.log(chalk.blue(`📋 Template ${info.name}\n`));
+      console.log(`  ${'Path:'.padEnd(10)} ${info.path}`);
+      console.log(`  ${'Version:'.padEnd(10)} ${info.version}`);
+      if (info.manifestVersion && info.manifestVersion !== info.version) {
+        console.log(`  ${'Manifest:'.padEnd(10)} ${info.manifestVersion}`);
+      }
+
+      const manifest = info.manifest;
+      if (manifest) {
+        const { requirements } = manifest;
+        if (manifest.metadata.description) {
+          console.log(`  ${'About:'.padEnd(10)} ${manifest.metadata.description}`);
+        }
+        if (requirements.rodVersion) {
+          console.log(`  ${'Requires:'.padEnd(10)} rod-cli ${requirements.rodVersion}`);
+        }
+        if (requirements.aiAssistants) {
+          console.log(`  ${'AI:'.padEnd(10)} ${requirements.aiAssistants.join(', ')}`);
+        }
+        if (requirements.locales) {
+          console.log(`  ${'Languages:'.padEnd(10)} ${requirements.locales.join(', ')}`);
+        }
+
+        this.displaySection('Variables', manifest.variables.map(variable =>
+          `${variable.name} (${variable.type}${variable.required ? ', required' : ''})${variable.description ? ` - ${variable.description}` : ''}`
+        ), 'none');
+      }
+
+      this.displaySection('Commands', info.commands.map(command => `/${command}`), 'none');
+      this.displaySection('Spec templates', info.specTemplates, "none (rod's defaults are used)");
+      this.displaySection('Scripts', info.scripts, "none (rod's defaults are used)");
+      this.displaySection('Files', info.files, 'none');
+
+    } catch (error) {
+      this.fail('info', error as Error, args.debug);
+    }
+  }
+
+  /**
+   * Execute template install command
+   */
+  async install(args: TemplateCommandArgs): Promise<void> {
+    try {
+      const result = await this.manager.installPackage({ version: args.version, registry: args.registry });
+      if (!result.success) {
+        throw new Error(result.errors.join(', '));
+      }
+
+      console.log(chalk.gray('\nList the templates with: rod template list'));
+
+    } catch (error) {
+      this.fail('install', error as Error, args.debug);
+    }
+  }
+
+  /**
+   * Execute template update command
+   */
+  async update(args: TemplateCommandArgs): Promise<void> {
+    try {
+      const previousVersion = await this.manager.getPackageVersion();
+      if (!previousVersion) {
+        throw new Error(`${TEMPLATE_PACKAGE_NAME} is not installed. Run 'rod template install' first.`);
+      }
+
+      const result = await this.manager.installPackage({ registry: args.registry });
+      if (!result.success) {
+        throw new Error(result.errors.join(', '));
+      }
+
+      console.log(previousVersion === result.version
+        ? chalk.green(`\n✨ Already up to date (${result.version})`)
+        : chalk.green(`\n✨ Updated from ${previousVersion} to ${result.version}. Run 'rod upgrade' in your projects to pick up the changes.`));
+
+    } catch (error) {
+      this.fail('update', error as Error, args.debug);
+    }
+  }
+
+  /**
+   * Execute template remove command
+   */
+  async remove(args: TemplateCommandArgs): Promise<void> {
+    try {
+      const result = await this.manager.removeTemplatePackage();
+      if (!result.success) {
+        throw new Error(result.errors.join(', '));
+      }
+
+      console.log(chalk.green(`✨ ${TEMPLATE_PACKAGE_NAME} removed. Projects created from its templates are not affected.`));
+
+    } catch (error) {
+      this.fail('remove', error as Error, args.debug);
+    }
+  }
+
+  /**
+   * Print a titled list, or a placeholder when it is empty
+   */
+  private displaySection(title: string, items: string[], emptyText: string): void {
+    console.log(chalk.bold(`\n${title} (${items.length}):`));
+    if (items.length === 0) {
+      console.log(chalk.gray(`  ${emptyText}`));
+      return;
+    }
+    items.forEach(item => console.log(`  ${item}`));
+  }
+
+  private fail(action: string, error: Error, debug?: boolean): never {
+    console.error(chalk.red(`\n❌ template ${action} failed:`));
+    console.error(chalk.red(error.message));
+
+    if (debug) {
+      console.error(chalk.gray('\nDebug: Full error:'));
+      console.error(error);
+    }
+
+    process.exit(1);
+  }
+}
+
+// Utility functions for CLI integration
+export async function executeTemplateListCommand(args: TemplateCommandArgs): Promise<void> {
+  const command = new TemplateCommand();
+  await command.list(args);
+}
+
+export async function executeTemplateInfoCommand(args: TemplateCommandArgs): Promise<void> {
+  const command = new TemplateCommand();
+  await command.info(args);
+}
+
+export async function executeTemplateInstallCommand(args: TemplateCommandArgs): Promise<void> {
+  const command = new TemplateCommand();
+  await command.install(args);
+}
+
+export async function executeTemplateUpdateCommand(args: TemplateCommandArgs): Promise<void> {
+  const command = new TemplateCommand();
+  await command.update(args);
+}
+
+export async function executeTemplateRemoveCommand(args: TemplateCommandArgs): Promise<void> {
+  const command = new TemplateCommand();
+  await command.remove(args);
+}
+
+export function getTemplateCommandHelp(): string {
+  return `
+Manage the templates used by rod init --template
+
+Usage:
+  rod template list                     # Templates of the installed package
+  rod template info <name>              # Files, commands, spec templates and scripts
+  rod template install [version]        # Install ${TEMPLATE_PACKAGE_NAME} globally
+  rod template update [options]         # Update it to the latest version
+  rod template remove                   # Uninstall it
+
+Options:
+  --registry <url>          install, update: npm registry to install from
+  --debug                   Show verbose output
+
+Notes:
+  • All templates ship in one npm package, so install, update and remove act
+    on the whole package
+  • Templates without spec-templates/ or scripts/ use rod's defaults
+  • After an update, run rod upgrade in a project to merge the new files
+
+Examples:
+  rod template list
+  rod template info pui
+  rod template install 1.2.0
+`;
+}
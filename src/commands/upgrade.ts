@@ -0,0 +1,150 @@
+/**
+ * Upgrade Command Implementation
+ *
+ * Refreshes generated workflow files in an existing project,
+ * merging user edits with the files of the installed rod-cli version
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { UpgradeCommandArgs } from '../contracts/cli-interface';
+import { ProjectUpgrader, UpgradeAction, UpgradeResult } from '../lib/project-upgrader';
+
+export class UpgradeCommand {
+  private upgrader: ProjectUpgrader;
+
+  constructor() {
+    this.upgrader = new ProjectUpgrader();
+  }
+
+  /**
+   * Execute upgrade command
+   */
+  async execute(args: UpgradeCommandArgs): Promise<void> {
+    const projectPath = process.cwd();
+
+    try {
+      console.log(chalk.blue('🔄 Upgrading ROD workflow files...\n'));
+
+      const result = await this.upgrader.upgrade({
+        projectPath,
+        templateName: args.template,
+        includeMemory: args.includeMemory,
+        includeSpecs: args.includeSpecs,
+        force: args.force
+      });
+
+      if (!result.success) {
+        throw new Error(result.errors.join(', '));
+      }
+
+      if (result.assistants.length > 0) {
+        console.log(chalk.gray(`Assistants: ${result.assistants.join(', ')}\n`));
+      }
+
+      this.displayResults(result, projectPath, args.debug);
+
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n⚠️  Warnings:'));
+        result.warnings.forEach(warning => {
+          console.log(chalk.yellow(`   ${warning}`));
+        });
+      }
+
+      const conflicts = result.files.filter(file => file.action === 'conflict');
+      if (conflicts.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  ${conflicts.length} file(s) have merge conflicts. Resolve the <<<<<<< markers before using them.`));
+      } else {
+        console.log(chalk.green('\n✨ Upgrade complete!'));
+      }
+
+    } catch (error) {
+      console.error(chalk.red('\n❌ Upgrade failed:'));
+      console.error(chalk.red((error as Error).message));
+
+      if (args.debug) {
+        console.error(chalk.gray('\nDebug: Full error:'));
+        console.error(error);
+      }
+
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Display what happened to each generated file
+   */
+  private displayResults(result: UpgradeResult, projectPath: string, debug?: boolean): void {
+    const labels: Record<UpgradeAction, (text: string) => string> = {
+      created: chalk.green,
+      updated: chalk.green,
+      merged: chalk.cyan,
+      conflict: chalk.red,
+      kept: chalk.gray,
+      unchanged: chalk.gray,
+      untracked: chalk.yellow,
+      deleted: chalk.gray
+    };
+
+    result.files.forEach(file => {
+      // Files that needed no attention are only listed in debug mode
+      if ((file.action === 'unchanged' || file.action === 'kept') && !debug) {
+        return;
+      }
+
+      const relativePath = path.relative(projectPath, file.path);
+      let line = `  ${labels[file.action](file.action.padEnd(10))} ${relativePath}`;
+
+      if (file.action === 'conflict') {
+        line += chalk.gray(` (${file.conflicts} conflict(s))`);
+      } else if (file.action === 'untracked' && file.newVersionPath) {
+        line += chalk.gray(` (edited before upgrades were tracked, new version: ${path.relative(projectPath, file.newVersionPath)})`);
+      }
+
+      console.log(line);
+    });
+
+    const count = (action: UpgradeAction) => result.files.filter(file => file.action === action).length;
+    console.log(chalk.gray(
+      `\n${result.files.length} files checked: ${count('created')} created, ${count('updated')} updated, ` +
+      `${count('merged')} merged, ${count('conflict')} conflict, ${count('untracked')} untracked, ` +
+      `${count('kept') + count('unchanged')} unchanged`
+    ));
+  }
+}
+
+// Utility functions for CLI integration
+export async function executeUpgradeCommand(args: UpgradeCommandArgs): Promise<void> {
+  const command = new UpgradeCommand();
+  await command.execute(args);
+}
+
+export function getUpgradeCommandHelp(): string {
+  return `
+Refresh the generated workflow files of an existing ROD project
+
+Usage:
+  rod upgrade [options]                 # Run from the project root
+
+Options:
+  --template <name>         Template the project was created from (defaults to the manifest)
+  --include-memory          Also upgrade .rod/memory (e.g. constitution.md)
+  --include-specs           Also upgrade specs/ (roadmap and module docs)
+  --force                   Replace edited files with the new version instead of merging
+  --debug                   Show verbose output
+
+Notes:
+  • Upgrades .rod/scripts, .rod/spec-templates and the command directory of every
+    assistant found in the project (.claude/commands, .github/prompts, ...)
+  • Generated content is recorded in .rod/upgrade-base.json; later upgrades use it
+    to three-way merge your edits with the new files
+  • Unresolvable edits are written with <<<<<<< / ======= / >>>>>>> conflict markers
+  • Edited files from projects created before upgrades were tracked are kept, and
+    the new version is saved next to them as <file>.rod-new
+
+Examples:
+  rod upgrade                           # Upgrade scripts, spec templates and commands
+  rod upgrade --include-memory          # Also refresh the constitution
+  rod upgrade --template pui            # Upgrade a project created from the pui template
+`;
+}
@@ -3,6 +3,8 @@
  * Defines the command-line interface for Spec Kit Node.js CLI
  */
 
+import { getSupportedAIAssistants } from '../types/cli-config';
+
 export interface CLICommand {
   name: string;
   description: string;
@@ -27,14 +29,50 @@ export interface CLIArgs {
 // Init Command Contract
 export interface InitCommandArgs extends CLIArgs {
   projectName?: string;
-  ai?: 'claude' | 'copilot' | 'gemini' | 'cursor' | 'codebuddy';
+  ai?: string; // One assistant or a comma-separated list (claude, copilot, ... or a processor plugin id)
   script?: 'node';
-  template?: string; // Template name for internal templates
+  template?: string; // Template name, directory, file: URL or git+<url>#<tag|commit>
   here?: boolean;
   noGit?: boolean;
   skipTls?: boolean;
   ignoreAgentTools?: boolean;
   debug?: boolean;
+  dryRun?: boolean;
+  onConflict?: 'skip' | 'overwrite' | 'backup' | 'prompt';
+  lang?: 'zh' | 'en'; // Language of the generated content
+  var?: string[]; // Template variables as key=value
+  vars?: string; // JSON file of template variables
+}
+
+// Upgrade Command Contract
+export interface UpgradeCommandArgs extends CLIArgs {
+  template?: string;
+  includeMemory?: boolean;
+  includeSpecs?: boolean;
+  force?: boolean;
+  debug?: boolean;
+}
+
+// Manifest Command Contract
+export interface ManifestCommandArgs extends CLIArgs {
+  verbose?: boolean;
+}
+
+// AI Command Contract (rod ai add/remove)
+export interface AICommandArgs extends CLIArgs {
+  assistant: string;
+  dryRun?: boolean;
+  onConflict?: 'skip' | 'overwrite' | 'backup' | 'prompt';
+  force?: boolean;
+  debug?: boolean;
+}
+
+// Template Command Contract (rod template list/info/install/update/remove)
+export interface TemplateCommandArgs extends CLIArgs {
+  name?: string; // Template name (info)
+  version?: string; // Package version to install (install)
+  registry?: string; // npm registry to install from (install, update)
+  debug?: boolean;
 }
 
 // Check Command Contract  
@@ -56,9 +94,9 @@ export const CLI_COMMANDS: CLICommand[] = [
       },
       {
         name: 'ai',
-        description: 'AI assistant to use',
+        description: 'AI assistant(s) to use, comma-separated',
         type: 'string',
-        choices: ['claude', 'copilot', 'gemini', 'cursor', 'codebuddy']
+        get choices() { return getSupportedAIAssistants(); } // Includes processor plugins
       },
       {
         name: 'script',
@@ -75,7 +113,7 @@ export const CLI_COMMANDS: CLICommand[] = [
       },
       {
         name: 'template',
-        description: 'Template name to use (for internal templates)',
+        description: 'Template to use: a name from the template package, a directory or a git URL',
         type: 'string',
         required: false
       },
@@ -108,6 +146,151 @@ export const CLI_COMMANDS: CLICommand[] = [
         description: 'Show verbose diagnostic output',
         type: 'boolean',
         default: false
+      },
+      {
+        name: 'dryRun',
+        description: 'Preview the files that would be generated without writing them',
+        type: 'boolean',
+        default: false
+      },
+      {
+        name: 'onConflict',
+        description: 'How to handle files that already exist',
+        type: 'string',
+        choices: ['skip', 'overwrite', 'backup', 'prompt'],
+        default: 'overwrite'
+      },
+      {
+        name: 'lang',
+        description: 'Language of the generated content',
+        type: 'string',
+        choices: ['zh', 'en'],
+        default: 'zh'
+      },
+      {
+        name: 'var',
+        description: 'Set a template variable (key=value, repeatable)',
+        type: 'string'
+      },
+      {
+        name: 'vars',
+        description: 'JSON file of template variables',
+        type: 'string'
+      }
+    ],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'upgrade',
+    description: 'Refresh generated workflow files in an existing project',
+    options: [
+      {
+        name: 'template',
+        description: 'Template the project was created from',
+        type: 'string',
+        required: false
+      },
+      {
+        name: 'includeMemory',
+        description: 'Also upgrade .rod/memory',
+        type: 'boolean',
+        default: false
+      },
+      {
+        name: 'includeSpecs',
+        description: 'Also upgrade specs/',
+        type: 'boolean',
+        default: false
+      },
+      {
+        name: 'force',
+        description: 'Replace edited files instead of merging',
+        type: 'boolean',
+        default: false
+      },
+      {
+        name: 'debug',
+        description: 'Show verbose diagnostic output',
+        type: 'boolean',
+        default: false
+      }
+    ],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'ai add',
+    description: 'Add an AI assistant to an existing project',
+    options: [
+      {
+        name: 'assistant',
+        description: 'AI assistant to add',
+        type: 'string',
+        required: true,
+        get choices() { return getSupportedAIAssistants(); } // Includes processor plugins
+      },
+      {
+        name: 'dryRun',
+        description: 'Preview the files that would be generated without writing them',
+        type: 'boolean',
+        default: false
+      },
+      {
+        name: 'onConflict',
+        description: 'How to handle files that already exist',
+        type: 'string',
+        choices: ['skip', 'overwrite', 'backup', 'prompt'],
+        default: 'overwrite'
+      }
+    ],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'ai remove',
+    description: 'Remove the files of an AI assistant from an existing project',
+    options: [
+      {
+        name: 'assistant',
+        description: 'AI assistant to remove',
+        type: 'string',
+        required: true,
+        get choices() { return getSupportedAIAssistants(); } // Includes processor plugins
+      },
+      {
+        name: 'dryRun',
+        description: 'Preview the files that would be removed without deleting them',
+        type: 'boolean',
+        default: false
+      },
+      {
+        name: 'force',
+        description: 'Also remove generated files that were edited',
+        type: 'boolean',
+        default: false
+      }
+    ],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'manifest verify',
+    description: 'Compare generated files against the hashes in .rod/manifest.json',
+    options: [
+      {
+        name: 'verbose',
+        description: 'Also list unchanged files',
+        type: 'boolean',
+        default: false
       }
     ],
     handler: async () => {
@@ -115,6 +298,78 @@ export const CLI_COMMANDS: CLICommand[] = [
       throw new Error('Not implemented');
     }
   },
+  {
+    name: 'template list',
+    description: 'List the templates of the installed template package',
+    options: [],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'template info',
+    description: 'Show the files, commands, spec templates and scripts of a template',
+    options: [
+      {
+        name: 'name',
+        description: 'Template name',
+        type: 'string',
+        required: true
+      }
+    ],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'template install',
+    description: 'Install the template package globally',
+    options: [
+      {
+        name: 'version',
+        description: 'Package version to install',
+        type: 'string',
+        default: 'latest'
+      },
+      {
+        name: 'registry',
+        description: 'npm registry to install from',
+        type: 'string',
+        required: false
+      }
+    ],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'template update',
+    description: 'Update the template package to its latest version',
+    options: [
+      {
+        name: 'registry',
+        description: 'npm registry to install from',
+        type: 'string',
+        required: false
+      }
+    ],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
+  {
+    name: 'template remove',
+    description: 'Uninstall the template package',
+    options: [],
+    handler: async () => {
+      // Implementation contract - must be fulfilled
+      throw new Error('Not implemented');
+    }
+  },
   {
     name: 'check',
     description: 'Check that all required tools are installed',
@@ -0,0 +1,273 @@
+/**
+ * Assistant Manager
+ *
+ * Adds or removes a single AI assistant in an existing ROD project:
+ * - add runs only that assistant's processor, leaving .rod/ and specs/ untouched
+ * - remove deletes exactly the files the assistant's processor generates, and only
+ *   strips rod's section from files shared with the user (e.g. AGENTS.md) and
+ *   rod's servers from the assistant's MCP configuration
+ * - .rod/config.json, the generation record and the manifest are kept in sync
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AssistantId, ConflictPolicy, ProjectConfig, ScriptType } from '../types/cli-config';
+import { FileOperation, OperationType } from '../types/results';
+import { PROJECT_CONFIG_RELATIVE_PATH, loadProjectConfig } from './config-manager';
+import { NPMTemplateManager } from './npm-template-manager';
+import { ProjectUpgrader } from './project-upgrader';
+import { GenerationResult, LocalTemplateGenerator } from './template-generator';
+import { AIProcessorFactory } from './template-generator/ai-processors';
+import { BaseFileProcessor } from './template-generator/base-file-processor';
+import { FileWriter } from './template-generator/file-writer';
+import { GenerationManifest, hashContent } from './template-generator/generation-manifest';
+import { GenerationRecord } from './template-generator/generation-record';
+
+export interface AddAssistantOptions {
+  projectPath: string;
+  aiAssistant: AssistantId;
+  dryRun?: boolean;
+  onConflict?: ConflictPolicy;
+}
+
+export interface RemoveAssistantOptions {
+  projectPath: string;
+  aiAssistant: AssistantId;
+  dryRun?: boolean;
+  force?: boolean;           // Also remove generated files the user has edited
+}
+
+export interface RemoveAssistantResult {
+  success: boolean;
+  aiAssistants: AssistantId[];   // Assistants still configured after the removal
+  removedFiles: string[];
+  keptFiles: string[];           // Edited generated files left in place
+  operations: FileOperation[];
+  rollbackOperations: FileOperation[];
+  errors: string[];
+  warnings: string[];
+}
+
+export class AssistantManager {
+  private readonly templateBasePath: string;
+  private readonly generator: LocalTemplateGenerator;
+  private readonly npmTemplateManager: NPMTemplateManager;
+
+  constructor(private readonly packageRoot?: string) {
+    this.templateBasePath = packageRoot || path.join(__dirname, '../../workflow');
+    this.generator = new LocalTemplateGenerator(packageRoot);
+    this.npmTemplateManager = new NPMTemplateManager();
+  }
+
+  /**
+   * Generate the command and configuration files of one more assistant
+   */
+  async add(options: AddAssistantOptions): Promise<GenerationResult> {
+    const { projectPath, aiAssistant } = options;
+    await this.ensureRODProject(projectPath);
+
+    const projectConfig = await loadProjectConfig(projectPath) || await this.createLegacyProjectConfig(projectPath, options.dryRun);
+    if (projectConfig.aiAssistants.includes(aiAssistant)) {
+      throw new Error(`${aiAssistant} is already configured in this project. Use 'rod upgrade' to refresh its files.`);
+    }
+
+    return this.generator.generateAssistantFiles({
+      aiAssistant,
+      aiAssistants: [aiAssistant],
+      scriptType: projectConfig.scriptType,
+      projectPath,
+      projectName: path.basename(projectPath),
+      templateName: projectConfig.template,
+      dryRun: options.dryRun,
+      onConflict: options.onConflict
+    });
+  }
+
+  /**
+   * Delete the files generated for an assistant and forget it in the project config
+   */
+  async remove(options: RemoveAssistantOptions): Promise<RemoveAssistantResult> {
+    const { projectPath, aiAssistant } = options;
+    await this.ensureRODProject(projectPath);
+
+    const projectConfig = await loadProjectConfig(projectPath);
+    if (projectConfig && !projectConfig.aiAssistants.includes(aiAssistant)) {
+      throw new Error(`${aiAssistant} is not configured in this project`);
+    }
+
+    const writer = new FileWriter({ dryRun: options.dryRun });
+    const filesWritten: string[] = [];
+    const removedFiles: string[] = [];
+    const keptFiles: string[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const manifest = await GenerationManifest.load(projectPath);
+    const configured = projectConfig?.aiAssistants || manifest?.getData().aiAssistants || [];
+    const aiAssistants = configured.filter(assistant => assistant !== aiAssistant);
+
+    try {
+      const processor = AIProcessorFactory.create(aiAssistant, this.templateBasePath);
+      const templatePath = await this.getTemplatePath(projectConfig?.template, warnings);
+      const outputFiles = await processor.getOutputFiles(templatePath);
+      const mcpConfigFile = processor.getMCPConfigFile();
+      const mcpServers = templatePath ? await new BaseFileProcessor(this.templateBasePath).readMCPServers(templatePath) : {};
+      const record = await GenerationRecord.load(projectPath);
+
+      for (const relativePath of outputFiles) {
+        const filePath = path.join(projectPath, relativePath);
+        const content = await fs.readFile(filePath).catch(() => null);
+
+        if (content !== null) {
+          const entry = manifest?.getFile(relativePath);
+          if (entry && entry.sha256 !== hashContent(content) && !options.force) {
+            keptFiles.push(filePath);
+            continue;
+          }
+
+          await writer.removeFile(filePath);
+          removedFiles.push(filePath);
+        }
+
+        manifest?.deleteFile(relativePath);
+        record.delete(relativePath);
+      }
+
+      // Shared files keep everything outside rod's section, the MCP configuration everything but rod's servers
+      for (const relativePath of [...processor.getMergedFiles(), ...(mcpConfigFile ? [mcpConfigFile] : [])]) {
+        const filePath = path.join(projectPath, relativePath);
+        const content = await fs.readFile(filePath, 'utf8').catch(() => null);
+
+        let remaining: string | null = null;
+        if (content !== null) {
+          remaining = relativePath === mcpConfigFile
+            ? processor.stripMCPConfig(content, mcpServers)
+            : processor.stripMergedContent(content, relativePath);
+        }
+        if (remaining !== null) {
+          if (remaining) {
+            await writer.writeFile(filePath, remaining, filesWritten, OperationType.OVERWRITE);
+          } else {
+            await writer.removeFile(filePath);
+          }
+          removedFiles.push(filePath);
+        }
+
+        manifest?.deleteFile(relativePath);
+        record.delete(relativePath);
+      }
+
+      // Directories are only removed when nothing but generated files was in them, deepest first
+      for (const directory of this.getParentDirectories(outputFiles)) {
+        await writer.removeEmptyDirectory(path.join(projectPath, directory));
+      }
+
+      if (keptFiles.length > 0) {
+        warnings.push(`${keptFiles.length} edited file(s) were kept; use --force to remove them as well`);
+      }
+
+      if (projectConfig) {
+        await writer.writeManagedFile(
+          path.join(projectPath, PROJECT_CONFIG_RELATIVE_PATH),
+          JSON.stringify({ ...projectConfig, aiAssistants }, null, 2) + '\n',
+          filesWritten
+        );
+      }
+      manifest?.setAIAssistants(aiAssistants);
+      await record.save(writer, filesWritten);
+      await manifest?.save(writer, filesWritten);
+
+      return {
+        success: true,
+        aiAssistants,
+        removedFiles,
+        keptFiles,
+        operations: writer.getOperations(),
+        rollbackOperations: [],
+        errors,
+        warnings
+      };
+    } catch (error) {
+      errors.push(`Removing ${aiAssistant} failed: ${(error as Error).message}`);
+
+      const rollbackOperations = await writer.rollback();
+      rollbackOperations.filter(op => !op.success).forEach(op => {
+        errors.push(`Rollback failed for ${op.path}: ${op.error}`);
+      });
+
+      return {
+        success: false,
+        aiAssistants: configured,
+        removedFiles: [],
+        keptFiles,
+        operations: writer.getOperations(),
+        rollbackOperations,
+        errors,
+        warnings
+      };
+    }
+  }
+
+  /**
+   * Record the assistants of a project created before .rod/config.json existed,
+   * so adding another one does not make rod forget them
+   */
+  private async createLegacyProjectConfig(projectPath: string, dryRun?: boolean): Promise<ProjectConfig> {
+    const manifest = await GenerationManifest.load(projectPath);
+    const projectConfig: ProjectConfig = {
+      aiAssistants: await new ProjectUpgrader(this.packageRoot).detectAssistants(projectPath),
+      scriptType: ScriptType.NODE,
+      template: manifest && manifest.getData().template.name !== 'default' ? manifest.getData().template.name : undefined
+    };
+
+    if (!dryRun) {
+      await new FileWriter().writeManagedFile(
+        path.join(projectPath, PROJECT_CONFIG_RELATIVE_PATH),
+        JSON.stringify(projectConfig, null, 2) + '\n',
+        []
+      );
+    }
+
+    return projectConfig;
+  }
+
+  /**
+   * Resolve the template the project was created from, falling back to the built-in workflow
+   */
+  private async getTemplatePath(templateName: string | undefined, warnings: string[]): Promise<string | undefined> {
+    if (!templateName) {
+      return undefined;
+    }
+
+    try {
+      return await this.npmTemplateManager.getTemplatePath(templateName);
+    } catch {
+      warnings.push(`Template '${templateName}' not found; using the built-in command list`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Every directory containing one of the given project-relative files, deepest first
+   */
+  private getParentDirectories(relativePaths: string[]): string[] {
+    const directories = new Set<string>();
+    for (const relativePath of relativePaths) {
+      for (let dir = path.dirname(relativePath); dir !== '.'; dir = path.dirname(dir)) {
+        directories.add(dir);
+      }
+    }
+    return [...directories].sort((a, b) => b.split(path.sep).length - a.split(path.sep).length);
+  }
+
+  private async ensureRODProject(projectPath: string): Promise<void> {
+    try {
+      const stat = await fs.stat(path.join(projectPath, '.rod'));
+      if (stat.isDirectory()) {
+        return;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error(`No .rod directory found in ${projectPath}. Run 'rod init' first.`);
+  }
+}
@@ -10,6 +10,7 @@ import os from 'os';
 
 import {
   CLIConfig,
+  ProjectConfig,
   AIAssistant,
   ScriptType,
   CLIConfigBuilder,
@@ -46,6 +47,7 @@ export interface GlobalConfig {
   profiles: ConfigProfile[];
   recentProjects: string[];
   preferences: UserPreferences;
+  processors?: string[]; // Processor plugin packages or module paths, see ProcessorRegistry
 }
 
 export interface UserPreferences {
@@ -94,7 +96,9 @@ export class ConfigManager {
       builder.setProjectName(partialConfig.projectName);
     }
     
-    if (partialConfig.aiAssistant) {
+    if (partialConfig.aiAssistants && partialConfig.aiAssistants.length > 0) {
+      builder.setAIAssistants(partialConfig.aiAssistants);
+    } else if (partialConfig.aiAssistant) {
       builder.setAIAssistant(partialConfig.aiAssistant);
     }
     
@@ -188,6 +192,13 @@ export class ConfigManager {
       });
     }
     
+    if (this.isToolInstalled('windsurf')) {
+      suggestions.push({
+        ai: AIAssistant.WINDSURF,
+        reason: 'Windsurf Editor detected'
+      });
+    }
+    
     // Default suggestion
     if (suggestions.length === 0) {
       suggestions.push({
@@ -449,6 +460,22 @@ export class FileConfigPersistence implements ConfigPersistence {
   }
 }
 
+// Project configuration (.rod/config.json), shared by everyone working on the project
+export const PROJECT_CONFIG_RELATIVE_PATH = path.join('.rod', 'config.json');
+
+/**
+ * Load the project configuration, or null for projects created before it existed
+ */
+export async function loadProjectConfig(projectPath: string): Promise<ProjectConfig | null> {
+  try {
+    const configData = await fs.readFile(path.join(projectPath, PROJECT_CONFIG_RELATIVE_PATH), 'utf8');
+    const config = JSON.parse(configData) as ProjectConfig;
+    return Array.isArray(config.aiAssistants) ? config : null;
+  } catch {
+    return null;
+  }
+}
+
 // Utility functions
 export function createConfigManager(configDir?: string): ConfigManager {
   return new ConfigManager(configDir);
@@ -0,0 +1,174 @@
+/**
+ * Git Initializer
+ *
+ * Sets up version control for a newly generated project:
+ * - Skips projects that already live inside a git work tree
+ * - Runs git init, writes .gitignore and commits the generated files only,
+ *   leaving files that were in the directory before untracked
+ * - Skips the initial commit when .gitignore excludes every generated file
+ * - Reports every git command as a GitOperation
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GitInitResult, GitOperation, OperationType } from '../types/results';
+import { FileWriter } from './template-generator/file-writer';
+
+export const DEFAULT_GITIGNORE_ENTRIES = [
+  'node_modules/',
+  '.env',
+  '.env.local',
+  '*.log',
+  '.DS_Store',
+  'Thumbs.db',
+  '.idea/',
+  '*.bak',
+  '*.rod-new'
+];
+
+export const INITIAL_COMMIT_MESSAGE = 'Initial commit from rod init';
+
+export class GitInitializer {
+  constructor(private readonly writer: FileWriter = new FileWriter()) {}
+
+  /**
+   * Check whether git is installed
+   */
+  async isGitAvailable(): Promise<boolean> {
+    const operation = await this.runGit(process.cwd(), ['--version']);
+    return operation.success;
+  }
+
+  /**
+   * Check whether a directory is already inside a git work tree
+   */
+  async isInsideWorkTree(projectPath: string): Promise<boolean> {
+    const operation = await this.runGit(projectPath, ['rev-parse', '--is-inside-work-tree']);
+    return operation.success && operation.output === 'true';
+  }
+
+  /**
+   * Initialize a repository and commit the generated files
+   */
+  async initialize(projectPath: string, filesCreated: string[] = []): Promise<GitInitResult> {
+    const operations: GitOperation[] = [];
+    const result: GitInitResult = {
+      success: false,
+      repositoryPath: projectPath,
+      initialCommit: '',
+      branchName: '',
+      operations
+    };
+
+    // Never nest a repository inside an existing one
+    const insideCheck = await this.runGit(projectPath, ['rev-parse', '--is-inside-work-tree']);
+    operations.push(insideCheck);
+    if (insideCheck.success && insideCheck.output === 'true') {
+      const topLevel = await this.runGit(projectPath, ['rev-parse', '--show-toplevel']);
+      operations.push(topLevel);
+      return {
+        ...result,
+        success: true,
+        skipped: true,
+        repositoryPath: topLevel.output || projectPath
+      };
+    }
+
+    const init = await this.runGit(projectPath, ['init']);
+    operations.push(init);
+    if (!init.success) {
+      return { ...result, error: `git init failed: ${init.error?.split('\n')[0]}` };
+    }
+
+    // .gitignore must exist before files are staged
+    await this.writeGitignore(projectPath, filesCreated);
+
+    // Generated files the .gitignore excludes are left out rather than failing git add
+    const generatedPaths = [...new Set([...filesCreated, path.join(projectPath, '.gitignore')])]
+      .map(file => path.relative(projectPath, file));
+    const stageable = await this.runGit(projectPath, ['ls-files', '--others', '--exclude-standard', '-z', '--', ...generatedPaths]);
+    operations.push(stageable);
+    if (!stageable.success) {
+      return { ...result, error: `git ls-files failed: ${stageable.error?.split('\n')[0]}` };
+    }
+
+    const pathsToAdd = (stageable.output || '').split('\0').filter(Boolean);
+    if (pathsToAdd.length === 0) {
+      // HEAD is unborn, so its branch comes from symbolic-ref rather than rev-parse
+      const branch = await this.runGit(projectPath, ['symbolic-ref', '--short', 'HEAD']);
+      operations.push(branch);
+      return { ...result, success: true, commitSkipped: true, branchName: branch.output || '' };
+    }
+
+    for (const args of [['add', '--', ...pathsToAdd], ['commit', '-m', INITIAL_COMMIT_MESSAGE]]) {
+      const operation = await this.runGit(projectPath, args);
+      operations.push(operation);
+
+      if (!operation.success) {
+        return { ...result, error: `git ${args[0]} failed: ${operation.error?.split('\n')[0]}` };
+      }
+    }
+
+    const head = await this.runGit(projectPath, ['rev-parse', 'HEAD']);
+    const branch = await this.runGit(projectPath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    operations.push(head, branch);
+
+    return {
+      ...result,
+      success: true,
+      initialCommit: head.output || '',
+      branchName: branch.output || ''
+    };
+  }
+
+  /**
+   * Write .gitignore, adding missing default entries to an existing one
+   */
+  private async writeGitignore(projectPath: string, filesCreated: string[]): Promise<void> {
+    const gitignorePath = path.join(projectPath, '.gitignore');
+    const existing = await fs.readFile(gitignorePath, 'utf8').catch(() => null);
+
+    if (existing === null) {
+      await this.writer.writeFile(gitignorePath, DEFAULT_GITIGNORE_ENTRIES.join('\n') + '\n', filesCreated);
+      return;
+    }
+
+    const existingEntries = new Set(existing.split(/\r?\n/).map(line => line.trim()));
+    const missing = DEFAULT_GITIGNORE_ENTRIES.filter(entry => !existingEntries.has(entry));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const separator = existing.endsWith('\n') || existing.length === 0 ? '' : '\n';
+    const content = `${existing}${separator}\n# Added by rod init\n${missing.join('\n')}\n`;
+    await this.writer.writeFile(gitignorePath, content, filesCreated, OperationType.APPEND);
+  }
+
+  /**
+   * Run a git command and describe it as a GitOperation
+   */
+  private runGit(cwd: string, args: string[]): Promise<GitOperation> {
+    const startTime = Date.now();
+    const command = `git ${args.join(' ')}`;
+
+    return new Promise(resolve => {
+      execFile('git', args, { cwd, env: process.env }, (error, stdout, stderr) => {
+        const duration = Date.now() - startTime;
+
+        if (error) {
+          resolve({
+            command,
+            success: false,
+            output: stdout.trim() || undefined,
+            error: (stderr || error.message).trim(),
+            duration
+          });
+          return;
+        }
+
+        resolve({ command, success: true, output: stdout.trim(), duration });
+      });
+    });
+  }
+}
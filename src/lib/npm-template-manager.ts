@@ -5,17 +5,35 @@
  */
 
 import chalk from 'chalk';
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { TemplateManifest } from '../types/project-template';
+import { loadTemplateManifest } from './template-generator/template-manifest';
+import { parseTemplateSource, resolveTemplateSource } from './template-source';
 
-export interface NPMTemplateConfig {
-  templateName: string;
+export const TEMPLATE_PACKAGE_NAME = '@tencent/rod-cli-templates';
+
+// What execFileSync throws when npm fails or times out
+interface NpmCommandError extends Error {
+  code?: string;
+  status?: number;
+  signal?: string;
+}
+
+// An exact version, an x-range (1.x) or a dist-tag
+const PACKAGE_VERSION_PATTERN = /^[\w.+-]+$/;
+
+export interface TemplatePackageOptions {
   registry?: string; // Internal npm registry URL
-  packageName?: string; // Custom package name, defaults to `rod-templates-${templateName}`
   version?: string; // Specific version, defaults to 'latest'
 }
 
+export interface NPMTemplateConfig extends TemplatePackageOptions {
+  templateName: string;
+  packageName?: string; // Custom package name, defaults to `rod-templates-${templateName}`
+}
+
 export interface TemplateInstallResult {
   success: boolean;
   templatePath: string;
@@ -24,6 +42,26 @@ export interface TemplateInstallResult {
   errors: string[];
 }
 
+export interface TemplateRemoveResult {
+  success: boolean;
+  errors: string[];
+}
+
+/**
+ * What a template contains, as shown by `rod template info`
+ */
+export interface TemplateInfo {
+  name: string;
+  path: string;
+  version: string;         // Installed package version, or the git ref
+  manifestVersion: string | null; // metadata.version of the manifest, if any
+  files: string[];          // Every file of the template, relative to its directory
+  commands: string[];       // commands/*.md, without extension
+  specTemplates: string[];  // spec-templates/*.md
+  scripts: string[];        // scripts/*
+  manifest: TemplateManifest | null; // rod-template.json/yaml, when the template has one
+}
+
 export class NPMTemplateManager {
   private readonly defaultRegistry: string;
   private globalNodeModulesPath: string | null = null;
@@ -53,7 +91,7 @@ export class NPMTemplateManager {
   async isTemplatePackageInstalled(): Promise<boolean> {
     try {
       const globalNodeModules = await this.getGlobalNodeModulesPath();
-      const packagePath = path.join(globalNodeModules, '@tencent/rod-cli-templates');
+      const packagePath = path.join(globalNodeModules, TEMPLATE_PACKAGE_NAME);
       const stat = await fs.stat(packagePath);
       return stat.isDirectory();
     } catch {
@@ -77,12 +115,19 @@ export class NPMTemplateManager {
   /**
    * Get the path for a specific template in global package
    * In development mode, fallback to local packages/internal-templates
+   *
+   * Directories, file: URLs and git URLs (see template-source) are resolved directly.
    */
   async getTemplatePath(templateName: string): Promise<string> {
+    const source = parseTemplateSource(templateName);
+    if (source.type !== 'npm') {
+      return resolveTemplateSource(source);
+    }
+
     // First try NPM template path if available
     try {
       const globalNodeModules = await this.getGlobalNodeModulesPath();
-      const npmTemplatePath = path.join(globalNodeModules, '@tencent/rod-cli-templates', templateName);
+      const npmTemplatePath = path.join(globalNodeModules, TEMPLATE_PACKAGE_NAME, templateName);
 
       // Check if NPM template exists
       await fs.access(npmTemplatePath);
@@ -104,28 +149,53 @@ export class NPMTemplateManager {
    */
   async getTemplatePackagePath(): Promise<string> {
     const globalNodeModules = await this.getGlobalNodeModulesPath();
-    return path.join(globalNodeModules, '@tencent/rod-cli-templates');
+    return path.join(globalNodeModules, TEMPLATE_PACKAGE_NAME);
   }
 
   /**
-   * Install template package globally
+   * Install template package globally and resolve the requested template in it
    */
   async installTemplatePackage(config: NPMTemplateConfig): Promise<TemplateInstallResult> {
+    const result = await this.installPackage(config);
+    if (!result.success) {
+      return result;
+    }
+
+    try {
+      return { ...result, templatePath: await this.getTemplatePath(config.templateName) };
+    } catch (error) {
+      return {
+        ...result,
+        success: false,
+        errors: [`Failed to install template package globally: ${(error as Error).message}`]
+      };
+    }
+  }
+
+  /**
+   * Install (or update to) a version of the template package globally
+   */
+  async installPackage(options: TemplatePackageOptions = {}): Promise<TemplateInstallResult> {
     const errors: string[] = [];
-    const packageName = '@tencent/rod-cli-templates';
-    const registry = config.registry || this.defaultRegistry;
-    const version = config.version || 'latest';
+    const packageName = TEMPLATE_PACKAGE_NAME;
+    const registry = options.registry || this.defaultRegistry;
+    const version = options.version || 'latest';
+
+    const invalidOption = validatePackageOptions(version, registry);
+    if (invalidOption) {
+      return { success: false, templatePath: '', packagePath: '', version: '', errors: [invalidOption] };
+    }
 
     try {
       console.log(chalk.blue(`📦 Installing template package ${packageName}@${version} globally...`));
 
       // Install package globally with non-interactive flags
-      const installCmd = `npm install -g ${packageName}@${version} --registry=${registry} --silent --no-audit --no-fund`;
-      
+      const installArgs = ['install', '-g', `${packageName}@${version}`, `--registry=${registry}`, '--silent', '--no-audit', '--no-fund'];
 
-      execSync(installCmd, {
+      execFileSync('npm', installArgs, {
         stdio: 'inherit', // Allow npm output to display directly
-        timeout: 60000 // 60 second timeout
+        timeout: 60000, // 60 second timeout
+        shell: process.platform === 'win32' // npm is a .cmd script on Windows
       });
 
       // Verify installation
@@ -142,17 +212,16 @@ export class NPMTemplateManager {
 
       console.log(chalk.green(`✅ Template package ${packageName}@${actualVersion} installed globally`));
 
-      const templatePath = await this.getTemplatePath(config.templateName);
       return {
         success: true,
-        templatePath,
+        templatePath: '',
         packagePath,
         version: actualVersion,
         errors
       };
 
     } catch (error) {
-      const err = error as any;
+      const err = error as NpmCommandError;
       let errorMessage = `Failed to install template package globally: ${err.message}`;
 
       // Add more specific error details for common issues
@@ -177,6 +246,113 @@ export class NPMTemplateManager {
     }
   }
 
+  /**
+   * Get the version of the globally installed template package, or null when it is not installed
+   */
+  async getPackageVersion(): Promise<string | null> {
+    try {
+      const packageJsonPath = path.join(await this.getTemplatePackagePath(), 'package.json');
+      return JSON.parse(await fs.readFile(packageJsonPath, 'utf8')).version || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Uninstall the global template package
+   */
+  async removeTemplatePackage(): Promise<TemplateRemoveResult> {
+    if (!(await this.isTemplatePackageInstalled())) {
+      return { success: false, errors: [`Template package ${TEMPLATE_PACKAGE_NAME} is not installed`] };
+    }
+
+    try {
+      execFileSync('npm', ['uninstall', '-g', TEMPLATE_PACKAGE_NAME, '--silent'], {
+        stdio: 'inherit',
+        timeout: 60000,
+        shell: process.platform === 'win32' // npm is a .cmd script on Windows
+      });
+      return { success: true, errors: [] };
+    } catch (error) {
+      return { success: false, errors: [`Failed to uninstall template package: ${(error as Error).message}`] };
+    }
+  }
+
+  /**
+   * Get the version of the package a template comes from
+   */
+  async getTemplateVersion(templateName: string): Promise<string> {
+    // A template of the installed package has the version npm installed
+    const source = parseTemplateSource(templateName);
+    const packageVersion = source.type === 'npm' ? await this.getPackageVersion() : null;
+    if (packageVersion) {
+      return packageVersion;
+    }
+
+    // Templates are either a package themselves or a directory inside one
+    const templatePath = await this.getTemplatePath(templateName);
+    for (const dir of [templatePath, path.dirname(templatePath)]) {
+      try {
+        const packageJson = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8'));
+        if (packageJson.version) {
+          return packageJson.version;
+        }
+      } catch {
+        // No package.json at this level
+      }
+    }
+
+    // A git template is identified by the tag or commit it is pinned to
+    return source.type === 'git' ? source.ref : 'unknown';
+  }
+
+  /**
+   * Describe the files, commands, spec templates and scripts of a template
+   */
+  async getTemplateInfo(templateName: string): Promise<TemplateInfo> {
+    const templatePath = await this.getTemplatePath(templateName);
+    const listDirectory = async (dir: string, extension?: string): Promise<string[]> => {
+      const entries = await fs.readdir(path.join(templatePath, dir)).catch(() => [] as string[]);
+      return entries.filter(entry => !extension || entry.endsWith(extension)).sort();
+    };
+
+    const manifest = await loadTemplateManifest(templatePath);
+    const commands = (await listDirectory('commands', '.md')).map(file => path.basename(file, '.md'));
+
+    return {
+      name: templateName,
+      path: templatePath,
+      version: await this.getTemplateVersion(templateName),
+      manifestVersion: manifest?.metadata.version || null,
+      files: await this.listFiles(templatePath),
+      commands: [...new Set([...commands, ...Object.keys(manifest?.overrides.commands || {})])].sort(),
+      specTemplates: await listDirectory('spec-templates', '.md'),
+      scripts: await listDirectory('scripts'),
+      manifest
+    };
+  }
+
+  /**
+   * List the files under a directory recursively, relative to it
+   */
+  private async listFiles(rootDir: string, relativeDir = ''): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const relativePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules' && entry.name !== '.git') {
+          files.push(...(await this.listFiles(rootDir, relativePath)));
+        }
+      } else {
+        files.push(relativePath);
+      }
+    }
+
+    return files.sort();
+  }
+
   /**
    * Get list of available templates in the global package
    */
@@ -265,6 +441,27 @@ export class NPMTemplateManager {
   }
 }
 
+/**
+ * Check the version and registry before they are passed to npm
+ */
+function validatePackageOptions(version: string, registry: string): string | null {
+  if (version.startsWith('-') || !PACKAGE_VERSION_PATTERN.test(version)) {
+    return `Invalid template package version '${version}'`;
+  }
+
+  let registryUrl: URL;
+  try {
+    registryUrl = new URL(registry);
+  } catch {
+    return `Invalid npm registry '${registry}': expected an http(s) URL`;
+  }
+  if (!['http:', 'https:'].includes(registryUrl.protocol) || /[\s"'`;&|<>$()\\]/.test(registry)) {
+    return `Invalid npm registry '${registry}': expected an http(s) URL`;
+  }
+
+  return null;
+}
+
 // Utility function
 export function createNPMTemplateManager(registry?: string): NPMTemplateManager {
   return new NPMTemplateManager(registry);
@@ -0,0 +1,297 @@
+/**
+ * Project Upgrader
+ *
+ * Refreshes the generated workflow files of an existing ROD project:
+ * - Regenerates the current template into a temporary directory
+ * - Three-way merges each file with the user's copy, using the generation record as base
+ * - Leaves specs/ and .rod/memory untouched unless explicitly included
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIAssistant, AssistantId, Language, ScriptType } from '../types/cli-config';
+import { TemplateVariableValues } from '../types/project-template';
+import { FileOperation, OperationType } from '../types/results';
+import { loadProjectConfig } from './config-manager';
+import { LocalTemplateGenerator } from './template-generator';
+import { AIProcessorFactory, ProcessorRegistry } from './template-generator/ai-processors';
+import { FileWriter } from './template-generator/file-writer';
+import { GenerationManifest } from './template-generator/generation-manifest';
+import { GenerationRecord } from './template-generator/generation-record';
+import { mergeThreeWay } from './template-generator/merge-utils';
+
+export interface UpgradeOptions {
+  projectPath: string;
+  templateName?: string;     // Template the project was created from
+  includeMemory?: boolean;   // Also upgrade .rod/memory
+  includeSpecs?: boolean;    // Also upgrade specs/
+  force?: boolean;           // Replace files even when they can't be merged safely
+}
+
+export type UpgradeAction =
+  | 'created'     // File did not exist in the project
+  | 'updated'     // File was unchanged since last generation and has been replaced
+  | 'merged'      // User edits and upstream changes merged cleanly
+  | 'conflict'    // Merged with conflict markers that need manual resolution
+  | 'kept'        // Only the user changed the file, nothing to do
+  | 'unchanged'   // File already matches the new version
+  | 'untracked'   // No generation record to merge with; new version saved next to it
+  | 'deleted';    // User deleted a generated file, it is not recreated
+
+export interface UpgradeFileResult {
+  path: string;
+  action: UpgradeAction;
+  conflicts?: number;
+  newVersionPath?: string;
+}
+
+export interface UpgradeResult {
+  success: boolean;
+  assistants: AssistantId[];
+  files: UpgradeFileResult[];
+  operations: FileOperation[];
+  errors: string[];
+  warnings: string[];
+}
+
+export class ProjectUpgrader {
+  private readonly templateBasePath: string;
+  private readonly generator: LocalTemplateGenerator;
+
+  constructor(packageRoot?: string) {
+    this.templateBasePath = packageRoot || path.join(__dirname, '../../workflow');
+    this.generator = new LocalTemplateGenerator(packageRoot);
+  }
+
+  /**
+   * Find the assistants whose generated files exist in the project
+   */
+  async detectAssistants(projectPath: string): Promise<AssistantId[]> {
+    const assistants: AssistantId[] = [];
+
+    for (const assistant of ProcessorRegistry.getIds()) {
+      const processor = AIProcessorFactory.create(assistant, this.templateBasePath);
+      if (await processor.isInstalled(projectPath)) {
+        assistants.push(assistant);
+      }
+    }
+
+    return assistants;
+  }
+
+  /**
+   * Upgrade the generated files of a project
+   */
+  async upgrade(options: UpgradeOptions): Promise<UpgradeResult> {
+    const { projectPath } = options;
+    const writer = new FileWriter();
+    const filesWritten: string[] = [];
+    const files: UpgradeFileResult[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let assistants: AssistantId[] = [];
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-upgrade-'));
+
+    try {
+      if (!(await this.isDirectory(path.join(projectPath, '.rod')))) {
+        throw new Error(`No .rod directory found in ${projectPath}. Run 'rod init' first.`);
+      }
+
+      // Prefer the assistants recorded at init over directory detection
+      const projectConfig = await loadProjectConfig(projectPath);
+      assistants = projectConfig && projectConfig.aiAssistants.length > 0
+        ? projectConfig.aiAssistants
+        : await this.detectAssistants(projectPath);
+      if (assistants.length === 0) {
+        warnings.push('No AI assistant command directory found; only .rod files will be upgraded');
+      }
+
+      // Default to the template recorded in the manifest
+      const manifest = await GenerationManifest.load(projectPath);
+      const recordedTemplate = manifest?.getData().template.name;
+      const templateName = options.templateName || (recordedTemplate !== 'default' ? recordedTemplate : undefined);
+
+      const generatedFiles = await this.generateFresh(
+        tempDir,
+        path.basename(projectPath),
+        assistants,
+        templateName,
+        projectConfig?.scriptType,
+        projectConfig?.language,
+        projectConfig?.variables
+      );
+      const scopes = this.getUpgradeScopes(assistants, options);
+      const record = await GenerationRecord.load(projectPath);
+
+      for (const generatedFile of generatedFiles) {
+        const relativePath = path.relative(tempDir, generatedFile);
+        if (!scopes.some(scope => relativePath.startsWith(scope + path.sep))) {
+          continue;
+        }
+
+        const incoming = await fs.readFile(generatedFile, 'utf8');
+        const destPath = path.join(projectPath, relativePath);
+
+        files.push(await this.upgradeFile(destPath, incoming, record.get(relativePath), writer, filesWritten, options));
+
+        // Keep generated scripts executable
+        if (relativePath.endsWith('.js') && process.platform !== 'win32' && filesWritten.includes(destPath)) {
+          const { mode } = await fs.stat(generatedFile);
+          await writer.chmod(destPath, mode & 0o777);
+        }
+
+        record.set(relativePath, incoming);
+        manifest?.setFile(relativePath, incoming);
+      }
+
+      await record.save(writer, filesWritten);
+      await manifest?.save(writer, filesWritten);
+
+      return { success: true, assistants, files, operations: writer.getOperations(), errors, warnings };
+    } catch (error) {
+      errors.push(`Upgrade failed: ${(error as Error).message}`);
+
+      // Leave the project as it was rather than half upgraded
+      const rollbackOperations = await writer.rollback();
+      rollbackOperations.filter(op => !op.success).forEach(op => {
+        errors.push(`Rollback failed for ${op.path}: ${op.error}`);
+      });
+
+      return { success: false, assistants, files: [], operations: writer.getOperations(), errors, warnings };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Decide how a single generated file is brought up to date
+   */
+  private async upgradeFile(
+    destPath: string,
+    incoming: string,
+    base: string | undefined,
+    writer: FileWriter,
+    filesWritten: string[],
+    options: UpgradeOptions
+  ): Promise<UpgradeFileResult> {
+    const current = await fs.readFile(destPath, 'utf8').catch(() => null);
+
+    if (current === null) {
+      // A file that was generated before but is gone now was removed on purpose
+      if (base !== undefined && !options.force) {
+        return { path: destPath, action: 'deleted' };
+      }
+      await writer.ensureDirectory(path.dirname(destPath));
+      await writer.writeFile(destPath, incoming, filesWritten, OperationType.CREATE);
+      return { path: destPath, action: 'created' };
+    }
+
+    if (current === incoming) {
+      return { path: destPath, action: 'unchanged' };
+    }
+
+    if (options.force || current === base) {
+      await writer.writeFile(destPath, incoming, filesWritten, OperationType.OVERWRITE);
+      return { path: destPath, action: 'updated' };
+    }
+
+    if (base === undefined) {
+      const newVersionPath = `${destPath}.rod-new`;
+      await writer.writeFile(newVersionPath, incoming, filesWritten, OperationType.CREATE);
+      return { path: destPath, action: 'untracked', newVersionPath };
+    }
+
+    if (incoming === base) {
+      return { path: destPath, action: 'kept' };
+    }
+
+    const merged = mergeThreeWay(base, current, incoming, { current: 'current', incoming: 'rod upgrade' });
+    await writer.writeFile(destPath, merged.content, filesWritten, OperationType.OVERWRITE);
+
+    return merged.conflicts > 0
+      ? { path: destPath, action: 'conflict', conflicts: merged.conflicts }
+      : { path: destPath, action: 'merged' };
+  }
+
+  /**
+   * Generate the current template for all assistants into a scratch directory
+   */
+  private async generateFresh(
+    tempDir: string,
+    projectName: string,
+    assistants: AssistantId[],
+    templateName?: string,
+    scriptType: ScriptType = ScriptType.NODE,
+    language?: Language,
+    variables?: TemplateVariableValues
+  ): Promise<string[]> {
+    // .rod content does not depend on the assistant, so generate it for one when none is set up
+    const generatedAssistants = assistants.length > 0 ? assistants : [AIAssistant.CLAUDE];
+
+    const result = await this.generator.generateTemplate({
+      aiAssistant: generatedAssistants[0],
+      aiAssistants: generatedAssistants,
+      scriptType,
+      projectPath: tempDir,
+      projectName,
+      templateName,
+      language,
+      variables
+    });
+
+    if (!result.success) {
+      throw new Error(result.errors.join(', '));
+    }
+
+    const files: string[] = [];
+    for (const file of new Set(result.filesCreated)) {
+      const stat = await fs.stat(file).catch(() => null);
+      if (stat?.isFile()) {
+        files.push(file);
+      }
+    }
+
+    return files.sort();
+  }
+
+  /**
+   * Project-relative directories that an upgrade may touch
+   */
+  private getUpgradeScopes(assistants: AssistantId[], options: UpgradeOptions): string[] {
+    const scopes = [path.join('.rod', 'scripts'), path.join('.rod', 'spec-templates')];
+
+    for (const assistant of assistants) {
+      const commandsDirectory = AIProcessorFactory.create(assistant, this.templateBasePath).getCommandsDirectory();
+      // Assistants without a commands directory (e.g. AGENTS.md) keep their shared files untouched
+      if (commandsDirectory) {
+        scopes.push(commandsDirectory);
+      }
+    }
+
+    if (options.includeMemory) {
+      scopes.push(path.join('.rod', 'memory'));
+    }
+
+    if (options.includeSpecs) {
+      scopes.push('specs');
+    }
+
+    return scopes;
+  }
+
+  private async isDirectory(dirPath: string): Promise<boolean> {
+    try {
+      const stat = await fs.stat(dirPath);
+      return stat.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Utility function
+export function createProjectUpgrader(packageRoot?: string): ProjectUpgrader {
+  return new ProjectUpgrader(packageRoot);
+}
@@ -0,0 +1,32 @@
+/**
+ * Prompt Utilities
+ *
+ * Minimal readline-based helpers for interactive questions
+ */
+
+import readline from 'readline';
+
+/**
+ * Whether the CLI can ask the user questions
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/**
+ * Ask a single question and resolve with the trimmed answer
+ */
+export async function askQuestion(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+
+  try {
+    return await new Promise<string>(resolve => {
+      rl.question(question, answer => resolve(answer.trim()));
+    });
+  } finally {
+    rl.close();
+  }
+}
@@ -7,18 +7,40 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { AIAssistant, ScriptType } from '../types/cli-config';
+import { AssistantId, ConflictPolicy, Language, ProjectConfig, ScriptType } from '../types/cli-config';
+import { ConflictResolution, FileOperation, OperationType } from '../types/results';
 import { NPMTemplateManager, createNPMTemplateManager } from './npm-template-manager';
 import { BaseFileProcessor } from './template-generator/base-file-processor';
 import { AIProcessorFactory } from './template-generator/ai-processors';
-import { validateConfig, calculateTotalSize, generateRoadmapWorkflow } from './template-generator/template-utils';
+import { FileWriter } from './template-generator/file-writer';
+import { GenerationRecord } from './template-generator/generation-record';
+import { GenerationManifest } from './template-generator/generation-manifest';
+import {
+  validateConfig,
+  calculateTotalSize,
+  calculatePlannedSize,
+  generateRoadmapWorkflow,
+  getAIAssistants
+} from './template-generator/template-utils';
+import { DEFAULT_LANGUAGE, LOCALES_DIR, getTemplateLocales, resolveLocalizedPath } from './template-generator/locale';
+import { loadTemplateManifest } from './template-generator/template-manifest';
+import { ResolvedVariables, getPlaceholderValues, resolveTemplateVariables } from './template-generator/template-variables';
+import { PROJECT_CONFIG_RELATIVE_PATH, loadProjectConfig } from './config-manager';
+import { isInteractive } from './prompt';
+import { normalizeTemplateName, parseTemplateSource, redactTemplateName } from './template-source';
+import { TEMPLATE_MANIFEST_FILES, TemplateUtils, TemplateVariableValues } from '../types/project-template';
 
 export interface TemplateGenerationConfig {
-  aiAssistant: AIAssistant;
+  aiAssistant: AssistantId;
+  aiAssistants?: AssistantId[]; // Several assistants sharing one .rod/ tree (defaults to [aiAssistant])
   scriptType: ScriptType;
   projectPath: string;
   projectName: string;
   templateName?: string; // Optional template name for internal templates
+  dryRun?: boolean; // Record planned file operations without writing to disk
+  onConflict?: ConflictPolicy; // How to handle existing files (defaults to overwrite)
+  language?: Language; // Language of the generated content (defaults to the project's, then zh)
+  variables?: TemplateVariableValues; // Values of the template's variables (from --var, --vars or the project)
 }
 
 export interface GenerationResult {
@@ -26,6 +48,9 @@ export interface GenerationResult {
   filesCreated: string[];
   totalFiles: number;
   totalSize: number;
+  operations: FileOperation[]; // Performed (or planned, in dry-run mode) file operations
+  conflictResolutions: ConflictResolution[]; // How existing files were handled
+  rollbackOperations: FileOperation[]; // Changes undone after a failure (empty on success)
   errors: string[];
   warnings: string[];
 }
@@ -35,6 +60,7 @@ export class LocalTemplateGenerator {
   private readonly internalTemplatePath: string;
   private readonly npmTemplateManager: NPMTemplateManager;
   private readonly fileProcessor: BaseFileProcessor;
+  private readonly writer: FileWriter;
 
   constructor(packageRoot?: string, npmRegistry?: string) {
     // Templates are stored in the npm package under workflow/
@@ -43,8 +69,10 @@ export class LocalTemplateGenerator {
     this.internalTemplatePath = path.join(__dirname, '../../packages/internal-templates');
     // NPM template manager for dynamic template installation
     this.npmTemplateManager = createNPMTemplateManager(npmRegistry);
+    // Shared writer so every processor records its operations in one place
+    this.writer = new FileWriter();
     // File processor for basic operations
-    this.fileProcessor = new BaseFileProcessor(this.templateBasePath);
+    this.fileProcessor = new BaseFileProcessor(this.templateBasePath, this.writer);
   }
 
   /**
@@ -101,6 +129,12 @@ export class LocalTemplateGenerator {
    * Ensure NPM template is installed if needed
    */
   private async ensureNPMTemplate(templateName: string): Promise<void> {
+    // Directories and git templates are not part of the npm package: just make sure they resolve
+    if (parseTemplateSource(templateName).type !== 'npm') {
+      await this.npmTemplateManager.getTemplatePath(templateName);
+      return;
+    }
+
     // Check if template is already installed locally
     const installedTemplates = await this.npmTemplateManager.getInstalledTemplates();
 
@@ -118,9 +152,50 @@ export class LocalTemplateGenerator {
    * Main template generation method
    */
   async generateTemplate(config: TemplateGenerationConfig): Promise<GenerationResult> {
+    return this.runGeneration(config, async (resolvedConfig, filesCreated) => {
+      // Ensure project directory exists
+      await this.writer.ensureDirectory(resolvedConfig.projectPath);
+
+      // Use internal template if specified, otherwise use default behavior
+      if (resolvedConfig.templateName) {
+        await this.generateFromInternalTemplate(resolvedConfig, filesCreated);
+      } else {
+        // Default template generation (existing behavior)
+        await this.generateDefaultTemplate(resolvedConfig, filesCreated);
+      }
+    });
+  }
+
+  /**
+   * Generate only the command and configuration files of the given assistants
+   * into an existing project, leaving .rod/ and specs/ untouched
+   */
+  async generateAssistantFiles(config: TemplateGenerationConfig): Promise<GenerationResult> {
+    return this.runGeneration(config, async (resolvedConfig, filesCreated) => {
+      const templatePath = resolvedConfig.templateName
+        ? await this.npmTemplateManager.getTemplatePath(resolvedConfig.templateName)
+        : undefined;
+
+      await this.generateAISpecificFiles(resolvedConfig, filesCreated, templatePath);
+    });
+  }
+
+  /**
+   * Run a generation session: generate files, write rod's bookkeeping files
+   * and roll everything back if any step fails
+   */
+  private async runGeneration(
+    requestedConfig: TemplateGenerationConfig,
+    generate: (config: TemplateGenerationConfig, filesCreated: string[]) => Promise<void>
+  ): Promise<GenerationResult> {
+    let config = requestedConfig;
+
     // Validate configuration
     validateConfig(config);
 
+    // Start a fresh writer session for this generation
+    this.writer.begin({ dryRun: config.dryRun, onConflict: config.onConflict });
+
     const filesCreated: string[] = [];
     const errors: string[] = [];
     let warnings: string[] = [];
@@ -128,23 +203,37 @@ export class LocalTemplateGenerator {
     try {
       // Validate and ensure template if specified
       if (config.templateName) {
+        // Record directories as absolute paths so later commands find them
+        const templateName = normalizeTemplateName(config.templateName);
+        config = { ...config, templateName };
+
         // Try to install/ensure NPM template
-        await this.ensureNPMTemplate(config.templateName);
+        await this.ensureNPMTemplate(templateName);
+
+        // Check the template's manifest against this rod-cli and the selected assistants
+        warnings = warnings.concat(await this.checkTemplateManifest(config));
       }
 
-      // Ensure project directory exists
-      await fs.mkdir(config.projectPath, { recursive: true });
+      const variables = await this.resolveVariables(config);
+      warnings = warnings.concat(variables.warnings);
+      config = { ...config, language: await this.resolveLanguage(config), variables: variables.values };
 
-      // Use internal template if specified, otherwise use default behavior
-      if (config.templateName) {
-        await this.generateFromInternalTemplate(config, filesCreated);
-      } else {
-        // Default template generation (existing behavior)
-        await this.generateDefaultTemplate(config, filesCreated);
-      }
+      await generate(config, filesCreated);
+
+      // Record every assistant of the project so later commands regenerate each one
+      const projectConfig = await this.saveProjectConfig(config, filesCreated);
+
+      // Remember what was generated so `rod upgrade` can merge later changes
+      await this.saveGenerationRecord(config.projectPath, filesCreated);
 
-      // Calculate total size
-      const sizeResult = await calculateTotalSize(filesCreated);
+      // Describe how the project was generated in .rod/manifest.json
+      await this.saveManifest(config, projectConfig.aiAssistants, filesCreated);
+
+      // Calculate total size (planned files don't exist on disk in dry-run mode)
+      const operations = this.writer.getOperations();
+      const sizeResult = this.writer.isDryRun()
+        ? { totalSize: calculatePlannedSize(operations), warnings: [] }
+        : await calculateTotalSize(filesCreated);
       warnings = warnings.concat(sizeResult.warnings);
 
       return {
@@ -152,6 +241,9 @@ export class LocalTemplateGenerator {
         filesCreated,
         totalFiles: filesCreated.length,
         totalSize: sizeResult.totalSize,
+        operations,
+        conflictResolutions: this.writer.getConflictResolutions(),
+        rollbackOperations: [],
         errors,
         warnings
       };
@@ -160,17 +252,158 @@ export class LocalTemplateGenerator {
       const err = error as Error;
       errors.push(`Template generation failed: ${err.message}`);
 
+      // Restore the project directory to its state before generation
+      const rollbackOperations = await this.writer.rollback();
+      const failedRollbacks = rollbackOperations.filter(op => !op.success);
+      failedRollbacks.forEach(op => {
+        errors.push(`Rollback failed for ${op.path}: ${op.error}`);
+      });
+
       return {
         success: false,
-        filesCreated,
-        totalFiles: filesCreated.length,
+        filesCreated: [],
+        totalFiles: 0,
         totalSize: 0,
+        operations: this.writer.getOperations(),
+        conflictResolutions: this.writer.getConflictResolutions(),
+        rollbackOperations,
         errors,
         warnings
       };
     }
   }
 
+  /**
+   * Validate the template's manifest and its requirements, returning any warnings
+   */
+  private async checkTemplateManifest(config: TemplateGenerationConfig): Promise<string[]> {
+    const templatePath = await this.npmTemplateManager.getTemplatePath(config.templateName!);
+    const manifest = await loadTemplateManifest(templatePath);
+    if (!manifest) {
+      return [];
+    }
+
+    const compatibility = TemplateUtils.validateCompatibility(manifest, {
+      rodVersion: require('../../package.json').version,
+      aiAssistants: getAIAssistants(config)
+    });
+    if (!compatibility.compatible) {
+      throw new Error(`Template '${config.templateName}' is not compatible: ${compatibility.errors.join('; ')}`);
+    }
+
+    return compatibility.warnings;
+  }
+
+  /**
+   * Resolve the template's variables from the given values, the project's saved ones, prompts and defaults
+   */
+  private async resolveVariables(config: TemplateGenerationConfig): Promise<ResolvedVariables> {
+    const manifest = config.templateName
+      ? await loadTemplateManifest(await this.npmTemplateManager.getTemplatePath(config.templateName))
+      : null;
+    const existing = await loadProjectConfig(config.projectPath);
+
+    try {
+      return await resolveTemplateVariables(manifest?.variables || [], config.variables || {}, {
+        previous: existing?.variables,
+        prompt: isInteractive()
+      });
+    } catch (error) {
+      throw new Error(`Template '${config.templateName || 'default'}': ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Pick the requested language, else the project's, and check that the template provides it
+   */
+  private async resolveLanguage(config: TemplateGenerationConfig): Promise<Language> {
+    const existing = await loadProjectConfig(config.projectPath);
+    const language = config.language || existing?.language || DEFAULT_LANGUAGE;
+
+    const templatePath = config.templateName
+      ? await this.npmTemplateManager.getTemplatePath(config.templateName)
+      : this.templateBasePath;
+    const locales = await getTemplateLocales(templatePath);
+    if (!locales.includes(language)) {
+      throw new Error(
+        `Template '${config.templateName || 'default'}' does not provide the '${language}' language (available: ${locales.join(', ')})`
+      );
+    }
+
+    return language;
+  }
+
+  /**
+   * Write .rod/config.json, adding this run's assistants to those already configured
+   */
+  private async saveProjectConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<ProjectConfig> {
+    const existing = await loadProjectConfig(config.projectPath);
+    const projectConfig: ProjectConfig = {
+      aiAssistants: [...new Set([...(existing?.aiAssistants || []), ...getAIAssistants(config)])],
+      scriptType: config.scriptType,
+      template: config.templateName ? redactTemplateName(config.templateName) : existing?.template,
+      language: config.language,
+      variables: config.variables && Object.keys(config.variables).length > 0 ? config.variables : undefined
+    };
+
+    await this.writer.writeManagedFile(
+      path.join(config.projectPath, PROJECT_CONFIG_RELATIVE_PATH),
+      JSON.stringify(projectConfig, null, 2) + '\n',
+      filesCreated
+    );
+
+    return projectConfig;
+  }
+
+  /**
+   * Record the content of every file generated (not appended to) in this session
+   */
+  private async saveGenerationRecord(projectPath: string, filesCreated: string[]): Promise<void> {
+    const record = await GenerationRecord.load(projectPath);
+
+    const backups = this.writer.getConflictResolutions().map(resolution => resolution.newName);
+    const generatedFiles = this.writer.getOperations()
+      .filter(op => op.operation === OperationType.CREATE || op.operation === OperationType.OVERWRITE)
+      .map(op => op.path)
+      .filter(filePath => !backups.includes(filePath));
+    await record.captureFiles(generatedFiles, this.writer);
+
+    await record.save(this.writer, filesCreated);
+  }
+
+  /**
+   * Write the generation manifest with a hash of every generated file
+   */
+  private async saveManifest(
+    config: TemplateGenerationConfig,
+    aiAssistants: AssistantId[],
+    filesCreated: string[]
+  ): Promise<void> {
+    const manifest = await GenerationManifest.loadOrCreate(config.projectPath, {
+      template: {
+        name: config.templateName ? redactTemplateName(config.templateName) : 'default',
+        version: await this.getTemplateVersion(config.templateName)
+      },
+      aiAssistants,
+      scriptType: config.scriptType
+    });
+
+    await manifest.captureFiles(filesCreated, this.writer);
+
+    await manifest.save(this.writer, filesCreated);
+  }
+
+  /**
+   * Get the version of a template (the built-in workflow ships with rod-cli)
+   */
+  private async getTemplateVersion(templateName?: string): Promise<string> {
+    if (!templateName) {
+      return require('../../package.json').version;
+    }
+
+    return this.npmTemplateManager.getTemplateVersion(templateName);
+  }
+
   /**
    * Generate from internal template (NPM template)
    */
@@ -181,22 +414,28 @@ export class LocalTemplateGenerator {
     // Save existing README content before copying template files
     const existingReadmeContent = await this.fileProcessor.preserveExistingReadme(config.projectPath);
 
-    // Copy entire internal template structure (excluding commands, scripts, memory, templates, rules - these are handled separately)
+    // Copy entire internal template structure (excluding commands, scripts, memory, templates, rules, overrides,
+    // MCP servers and the manifest - these are handled separately - and the .git of git templates)
     await this.fileProcessor.copyDirectoryRecursive(
       templatePath,
       config.projectPath,
       filesCreated,
-      ['commands', 'scripts', 'memory', 'spec-templates', 'rules']
+      ['commands', 'scripts', 'memory', 'spec-templates', 'rules', 'overrides', LOCALES_DIR, '.git'],
+      ['.mcp.json', ...TEMPLATE_MANIFEST_FILES]
     );
 
     // Process template variables in copied files
-    await this.fileProcessor.processTemplateVariables(config, filesCreated);
+    const manifest = await loadTemplateManifest(templatePath);
+    await this.fileProcessor.processTemplateVariables(config, filesCreated, manifest?.render);
 
     // Handle README.md by appending to existing README or keeping the template one
-    await this.fileProcessor.handleTemplateReadme(templatePath, config.projectPath, filesCreated, existingReadmeContent);
-
-    // Copy .mcp.json if it exists in the template
-    await this.fileProcessor.copyMCPConfig(templatePath, config.projectPath, filesCreated);
+    await this.fileProcessor.handleTemplateReadme(
+      templatePath,
+      config.projectPath,
+      filesCreated,
+      existingReadmeContent,
+      config.language
+    );
 
     // Generate .rod directory with internal template specific content
     await this.generateInternalTemplateRODDirectory(config, templatePath, filesCreated);
@@ -218,9 +457,11 @@ export class LocalTemplateGenerator {
     // 3. Generate roadmap workflow content
     await generateRoadmapWorkflow(
       config.projectPath,
-      config.projectName,
+      getPlaceholderValues(config),
       this.templateBasePath,
-      filesCreated
+      filesCreated,
+      this.writer,
+      config.language
     );
   }
 
@@ -233,26 +474,62 @@ export class LocalTemplateGenerator {
     filesCreated: string[]
   ): Promise<void> {
     const rodDir = path.join(config.projectPath, '.rod');
-    await fs.mkdir(rodDir, { recursive: true });
+    await this.writer.ensureDirectory(rodDir);
 
     // Copy template-specific templates to spec-templates directory
     const templatesDir = path.join(rodDir, 'spec-templates');
-    await this.copyInternalTemplateFiles(templatePath, templatesDir, filesCreated);
+    await this.copyInternalTemplateFiles(templatePath, templatesDir, filesCreated, config.language);
 
     // Copy scripts (from internal template if exists, otherwise from default)
     await this.copyInternalScripts(config, templatePath, filesCreated);
 
     // Copy memory files (from internal template if exists, otherwise from default)
-    await this.copyInternalMemoryFiles(templatePath, rodDir, filesCreated);
+    await this.copyInternalMemoryFiles(templatePath, rodDir, filesCreated, config.language);
+
+    // Replace individual files with those the manifest overrides them with
+    const overrides = (await loadTemplateManifest(templatePath))?.overrides;
+    if (overrides) {
+      await this.copyOverrides(templatePath, overrides.specTemplates, templatesDir, filesCreated, config.language);
+      await this.copyOverrides(templatePath, overrides.scripts, path.join(rodDir, 'scripts'), filesCreated, config.language);
+      await this.copyOverrides(templatePath, overrides.memory, path.join(rodDir, 'memory'), filesCreated, config.language);
+    }
+  }
+
+  /**
+   * Copy manifest overrides (destination file name -> template file) into a .rod/ directory
+   */
+  private async copyOverrides(
+    templatePath: string,
+    overrides: Record<string, string>,
+    destDir: string,
+    filesCreated: string[],
+    language?: Language
+  ): Promise<void> {
+    for (const [fileName, source] of Object.entries(overrides)) {
+      const sourcePath = await resolveLocalizedPath(templatePath, source, language);
+      const destPath = path.join(destDir, fileName);
+
+      await this.writer.ensureDirectory(destDir);
+      await this.writer.copyFile(sourcePath, destPath, filesCreated);
+
+      if (fileName.endsWith('.js') && process.platform !== 'win32') {
+        await this.writer.chmod(destPath, 0o755);
+      }
+    }
   }
 
   /**
    * Copy internal template templates to .rod/spec-templates
    */
-  private async copyInternalTemplateFiles(templatePath: string, templatesDir: string, filesCreated: string[]): Promise<void> {
+  private async copyInternalTemplateFiles(
+    templatePath: string,
+    templatesDir: string,
+    filesCreated: string[],
+    language?: Language
+  ): Promise<void> {
     const templatesSourceDir = path.join(templatePath, 'spec-templates');
 
-    await fs.mkdir(templatesDir, { recursive: true });
+    await this.writer.ensureDirectory(templatesDir);
 
     try {
       // Try to use internal template's own templates directory
@@ -261,19 +538,18 @@ export class LocalTemplateGenerator {
       const templateFiles = await fs.readdir(templatesSourceDir);
 
       for (const templateFile of templateFiles) {
-        const sourcePath = path.join(templatesSourceDir, templateFile);
+        const sourcePath = await resolveLocalizedPath(templatePath, path.join('spec-templates', templateFile), language);
 
         const stat = await fs.stat(sourcePath);
         if (stat.isFile() && templateFile.endsWith('.md')) {
           const destPath = path.join(templatesDir, templateFile);
-          await fs.copyFile(sourcePath, destPath);
-          filesCreated.push(destPath);
+          await this.writer.copyFile(sourcePath, destPath, filesCreated);
         }
       }
     } catch {
       // If spec-templates directory doesn't exist, use default templates
       // Do NOT convert commands to templates - they serve different purposes
-      await this.fileProcessor.copyBaseTemplates(templatesDir, filesCreated);
+      await this.fileProcessor.copyBaseTemplates(templatesDir, filesCreated, language);
     }
   }
 
@@ -293,20 +569,19 @@ export class LocalTemplateGenerator {
       const sourceDir = internalScriptsDir;
       const destDir = scriptsDestDir;
 
-      await fs.mkdir(destDir, { recursive: true });
+      await this.writer.ensureDirectory(destDir);
 
       const scriptFiles = await fs.readdir(sourceDir);
 
       for (const scriptFile of scriptFiles) {
-        const sourcePath = path.join(sourceDir, scriptFile);
+        const sourcePath = await resolveLocalizedPath(templatePath, path.join('scripts', scriptFile), config.language);
         const destPath = path.join(destDir, scriptFile);
 
-        await fs.copyFile(sourcePath, destPath);
-        filesCreated.push(destPath);
+        await this.writer.copyFile(sourcePath, destPath, filesCreated);
 
         // Set executable permissions for Node.js scripts on Unix systems
         if (scriptFile.endsWith('.js') && process.platform !== 'win32') {
-          await fs.chmod(destPath, 0o755);
+          await this.writer.chmod(destPath, 0o755);
         }
       }
     } catch (error) {
@@ -318,44 +593,58 @@ export class LocalTemplateGenerator {
   /**
    * Copy memory files from internal template or default
    */
-  private async copyInternalMemoryFiles(templatePath: string, rodDir: string, filesCreated: string[]): Promise<void> {
+  private async copyInternalMemoryFiles(
+    templatePath: string,
+    rodDir: string,
+    filesCreated: string[],
+    language?: Language
+  ): Promise<void> {
     const internalMemoryDir = path.join(templatePath, 'memory');
     const memoryDestDir = path.join(rodDir, 'memory');
 
     try {
       await fs.access(internalMemoryDir);
       // Internal template has memory files, use them
-      await fs.mkdir(memoryDestDir, { recursive: true });
+      await this.writer.ensureDirectory(memoryDestDir);
 
       const memoryFiles = await fs.readdir(internalMemoryDir);
       for (const memoryFile of memoryFiles) {
-        const sourcePath = path.join(internalMemoryDir, memoryFile);
+        const sourcePath = await resolveLocalizedPath(templatePath, path.join('memory', memoryFile), language);
         const destPath = path.join(memoryDestDir, memoryFile);
 
         const stat = await fs.stat(sourcePath);
         if (stat.isFile()) {
-          await fs.copyFile(sourcePath, destPath);
-          filesCreated.push(destPath);
+          await this.writer.copyFile(sourcePath, destPath, filesCreated);
         }
       }
     } catch {
       // Internal template doesn't have memory files, use default
-      await this.fileProcessor.copyMemoryFiles(memoryDestDir, filesCreated);
+      await this.fileProcessor.copyMemoryFiles(memoryDestDir, filesCreated, language);
     }
   }
 
   /**
-   * Generate AI-specific files (commands and configuration)
+   * Generate AI-specific files (commands and configuration) for every selected assistant
    */
   private async generateAISpecificFiles(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
-    // Create AI processor using factory
-    const aiProcessor = AIProcessorFactory.create(config.aiAssistant, this.templateBasePath);
+    const mcpServers = templatePath ? await this.fileProcessor.readMCPServers(templatePath) : {};
+
+    for (const aiAssistant of getAIAssistants(config)) {
+      // Each processor sees a config for its own assistant
+      const assistantConfig: TemplateGenerationConfig = { ...config, aiAssistant, aiAssistants: [aiAssistant] };
 
-    // Generate AI-specific command files
-    await aiProcessor.generateCommands(config, filesCreated, templatePath);
+      // Create AI processor using factory
+      const aiProcessor = AIProcessorFactory.create(aiAssistant, this.templateBasePath, this.writer);
 
-    // Generate AI-specific configuration files
-    await aiProcessor.generateConfig(config, filesCreated);
+      // Generate AI-specific command files
+      await aiProcessor.generateCommands(assistantConfig, filesCreated, templatePath);
+
+      // Generate AI-specific configuration files
+      await aiProcessor.generateConfig(assistantConfig, filesCreated);
+
+      // Write the template's MCP servers where the assistant reads them
+      await aiProcessor.generateMCPConfig(assistantConfig, mcpServers, filesCreated);
+    }
   }
 }
 
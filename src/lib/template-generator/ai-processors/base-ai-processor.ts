@@ -8,11 +8,62 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { AIAssistant, ScriptType } from '../../../types/cli-config';
+import { isDeepStrictEqual } from 'util';
+import { Language, ScriptType } from '../../../types/cli-config';
+import { OperationType } from '../../../types/results';
 import { TemplateGenerationConfig } from '../../template-generator';
+import { FileWriter } from '../file-writer';
+import { localize, resolveLocalizedPath } from '../locale';
+import { hasManagedSection, mergeManagedSection, removeManagedSection } from '../managed-section';
+import { loadTemplateManifest } from '../template-manifest';
+import { renderTemplate } from '../template-engine';
+import { getPlaceholderValues } from '../template-variables';
+
+export interface CommandFrontmatter {
+  description?: string;
+  argumentHint?: string;             // What to pass after the command, e.g. <模块名>
+  scripts: Record<string, string>;   // Script type (e.g. node) -> invocation
+}
+
+/**
+ * A command template prepared for one assistant
+ */
+export interface CommandTemplate {
+  name: string;
+  description: string;               // Falls back to the command name
+  argumentHint?: string;
+  script?: string;                   // Invocation for the configured script type, arguments substituted
+  body: string;                      // Markdown without frontmatter, {SCRIPT} and {ARGS} substituted
+}
+
+/**
+ * An MCP server as defined in a template's .mcp.json
+ */
+export interface MCPServerConfig {
+  type?: string;                     // stdio (default), http or sse
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;                      // Remote servers
+  headers?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Convert each of a set of MCP servers, keeping their names
+ */
+export function mapMCPServers(
+  servers: Record<string, MCPServerConfig>,
+  mapServer: (server: MCPServerConfig) => unknown
+): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(servers).map(([name, server]) => [name, mapServer(server)]));
+}
 
 export abstract class BaseAIProcessor {
-  constructor(protected readonly templateBasePath: string) {}
+  constructor(
+    protected readonly templateBasePath: string,
+    protected readonly writer: FileWriter = new FileWriter()
+  ) {}
 
   /**
    * Generate AI-specific command files
@@ -32,46 +83,197 @@ export abstract class BaseAIProcessor {
   abstract getDirectoryName(): string;
 
   /**
-   * Get AI-specific command files from templates or internal template
+   * Get the project-relative directory holding the generated command files
+   */
+  getCommandsDirectory(): string {
+    return path.join(this.getDirectoryName(), 'commands');
+  }
+
+  /**
+   * Get the file name a command is generated as
+   */
+  getCommandFileName(commandName: string): string {
+    return `${commandName}.md`;
+  }
+
+  /**
+   * Get the project-relative configuration files written by generateConfig
+   */
+  getConfigFiles(): string[] {
+    return [];
+  }
+
+  /**
+   * Get the project-relative files shared with the user, where rod only owns a marked section
+   */
+  getMergedFiles(): string[] {
+    return [];
+  }
+
+  /**
+   * Remove rod's part from the content of a merged file
+   *
+   * Returns the content left for the user ('' when nothing remains), or null
+   * when the content holds nothing generated by rod. relativePath tells apart
+   * processors merging into more than one kind of file.
+   */
+  stripMergedContent(content: string, relativePath?: string): string | null {
+    return hasManagedSection(content) ? removeManagedSection(content) : null;
+  }
+
+  /**
+   * Get the project-relative file the assistant reads MCP servers from
+   *
+   * null when the assistant only reads a user-level MCP configuration.
+   */
+  getMCPConfigFile(): string | null {
+    return null;
+  }
+
+  /**
+   * Merge a template's MCP servers into the assistant's own MCP configuration
+   *
+   * Servers already defined in the project keep their definition.
+   */
+  async generateMCPConfig(
+    config: TemplateGenerationConfig,
+    servers: Record<string, MCPServerConfig>,
+    filesCreated: string[]
+  ): Promise<void> {
+    const configFile = this.getMCPConfigFile();
+    if (!configFile || Object.keys(servers).length === 0) {
+      return;
+    }
+
+    const configPath = path.join(config.projectPath, configFile);
+    const { key, entries } = this.convertMCPServers(servers);
+    const existing = await fs.readFile(configPath, 'utf8').catch(() => null);
+
+    await this.ensureDirectory(path.dirname(configPath));
+
+    if (existing === null) {
+      await this.writer.writeFile(configPath, JSON.stringify({ [key]: entries }, null, 2) + '\n', filesCreated);
+      return;
+    }
+
+    let settings: Record<string, unknown>;
+    try {
+      settings = existing.trim() === '' ? {} : JSON.parse(existing);
+    } catch {
+      throw new Error(`Cannot merge MCP servers into ${configFile}: the file is not valid JSON`);
+    }
+
+    const existingEntries = (settings[key] || {}) as Record<string, unknown>;
+    const added = Object.entries(entries).filter(([name]) => !(name in existingEntries));
+    settings[key] = { ...existingEntries, ...Object.fromEntries(added) };
+    await this.writer.writeFile(configPath, JSON.stringify(settings, null, 2) + '\n', filesCreated, OperationType.APPEND);
+  }
+
+  /**
+   * Remove the template's MCP servers from the content of the assistant's MCP configuration
+   *
+   * Only entries still matching what generateMCPConfig wrote are removed, so servers
+   * the user defined or edited stay. Returns like stripMergedContent.
+   */
+  stripMCPConfig(content: string, servers: Record<string, MCPServerConfig>): string | null {
+    let settings: Record<string, unknown>;
+    try {
+      settings = JSON.parse(content);
+    } catch {
+      return null;
+    }
+
+    const { key, entries } = this.convertMCPServers(servers);
+    const existingEntries = settings[key] as Record<string, unknown> | undefined;
+    const generated = Object.keys(entries).filter(name => isDeepStrictEqual(existingEntries?.[name], entries[name]));
+    if (!existingEntries || generated.length === 0) {
+      return null;
+    }
+
+    generated.forEach(name => delete existingEntries[name]);
+
+    // Drop the server list once rod's servers were all it held
+    if (Object.keys(existingEntries).length === 0) {
+      delete settings[key];
+    }
+
+    return Object.keys(settings).length > 0 ? JSON.stringify(settings, null, 2) + '\n' : '';
+  }
+
+  /**
+   * Whether this assistant's files are present in a project
+   */
+  async isInstalled(projectPath: string): Promise<boolean> {
+    return this.directoryExists(path.join(projectPath, this.getCommandsDirectory()));
+  }
+
+  /**
+   * Get every project-relative file this processor generates
+   *
+   * Used to remove an assistant without touching files the user added next to them.
+   */
+  async getOutputFiles(templatePath?: string): Promise<string[]> {
+    const commandFiles = await this.getCommandFiles(templatePath);
+    return [
+      ...commandFiles.map(file => path.join(this.getCommandsDirectory(), this.getCommandFileName(path.basename(file, '.md')))),
+      ...this.getConfigFiles()
+    ];
+  }
+
+  /**
+   * Get AI-specific command files from templates or internal template,
+   * including the commands declared in the template manifest's overrides
    */
   protected async getCommandFiles(templatePath?: string): Promise<string[]> {
     const commandsDir = templatePath
       ? path.join(templatePath, 'commands')
       : path.join(this.templateBasePath, 'commands');
 
-    try {
-      const files = await fs.readdir(commandsDir);
-      return files.filter(file => file.endsWith('.md'));
-    } catch {
-      return [];
+    const overridden = await this.getCommandOverrides(templatePath);
+    const files = await fs.readdir(commandsDir).catch(() => [] as string[]);
+
+    return [...new Set([
+      ...files.filter(file => file.endsWith('.md')),
+      ...Object.keys(overridden).map(command => `${command}.md`)
+    ])];
+  }
+
+  /**
+   * Resolve the template file of a command: the manifest override if there is one, else commands/<command>.md
+   */
+  protected async resolveCommandPath(command: string, templatePath?: string, language?: Language): Promise<string> {
+    const basePath = templatePath || this.templateBasePath;
+    const override = (await this.getCommandOverrides(templatePath))[command];
+
+    return resolveLocalizedPath(basePath, override || path.join('commands', `${command}.md`), language);
+  }
+
+  /**
+   * Get the command files a template's manifest provides in place of (or in addition to) the defaults
+   */
+  private async getCommandOverrides(templatePath?: string): Promise<Record<string, string>> {
+    if (!templatePath) {
+      return {};
     }
+    const manifest = await loadTemplateManifest(templatePath);
+    return manifest?.overrides.commands || {};
   }
 
   /**
    * Generate command file content with AI-specific formatting
    */
   protected async generateCommandFile(command: string, config: TemplateGenerationConfig, templatePath?: string): Promise<string> {
-    const commandPath = templatePath
-      ? path.join(templatePath, 'commands', `${command}.md`)
-      : path.join(this.templateBasePath, 'commands', `${command}.md`);
+    const commandPath = await this.resolveCommandPath(command, templatePath, config.language);
 
     try {
-      let content = await fs.readFile(commandPath, 'utf8');
-
-      // Clean frontmatter
-      content = this.cleanFrontmatter(content);
-
-      // Replace placeholders
-      content = this.replacePlaceholders(content, config);
-
-      // Replace script placeholders
-      content = this.replaceScriptPlaceholder(content, config.scriptType);
+      const rendered = renderTemplate(await fs.readFile(commandPath, 'utf8'), getPlaceholderValues(config), commandPath);
+      const template = this.parseCommandTemplate(command, rendered, config);
 
       // Add AI-specific metadata and instructions
-      content = this.addAIMetadata(content, config.aiAssistant);
+      let content = this.addAIMetadata(template.body, config.language);
 
       // Convert to AI-specific format
-      content = this.convertToAIFormat(content, config.aiAssistant);
+      content = this.convertToAIFormat(content, template);
 
       return content;
     } catch (error) {
@@ -80,26 +282,127 @@ export abstract class BaseAIProcessor {
   }
 
   /**
-   * Replace placeholders in content with actual values
+   * Parse a command template into its frontmatter fields and a body ready for the assistant
    */
-  protected replacePlaceholders(content: string, config: TemplateGenerationConfig): string {
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0];
+  protected parseCommandTemplate(name: string, content: string, config: TemplateGenerationConfig): CommandTemplate {
+    const frontmatter = this.parseCommandFrontmatter(content);
+    const args = this.getArgumentPlaceholder(config.language);
+    const script = frontmatter.scripts[config.scriptType]?.replace(/\{ARGS\}/g, () => args);
+
+    // Clean frontmatter
+    let body = this.cleanFrontmatter(content);
+
+    // Replace script placeholders
+    body = this.replaceScriptPlaceholder(body, config.scriptType);
 
-    const replacements: Record<string, string> = {
-      '{{PROJECT_NAME}}': config.projectName,
-      '{{AI_ASSISTANT}}': config.aiAssistant,
-      '{{SCRIPT_TYPE}}': config.scriptType,
-      '{{DATE}}': dateStr,
-      '{{YEAR}}': now.getFullYear().toString()
+    // The script invocation and the user's arguments
+    if (script) {
+      body = body.replace(/\{SCRIPT\}/g, () => script);
+    }
+    body = body.replace(/\{ARGS\}/g, () => args);
+
+    return {
+      name,
+      description: frontmatter.description || name,
+      argumentHint: frontmatter.argumentHint,
+      script,
+      body
     };
+  }
+
+  /**
+   * Get the frontmatter fields written at the top of a generated markdown command
+   *
+   * Assistants that read command metadata override this; the default writes none.
+   */
+  protected getCommandFrontmatter(template: CommandTemplate): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Prepend a frontmatter block to content, skipping it when there are no fields
+   */
+  protected addFrontmatter(content: string, fields: Record<string, string>): string {
+    const lines = Object.entries(fields).map(([key, value]) => `${key}: ${this.toYamlScalar(value)}`);
+    return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n${content}` : content;
+  }
+
+  /**
+   * Quote a frontmatter value when it would not read back as a plain YAML string
+   */
+  protected toYamlScalar(value: string): string {
+    return /^[\s[\]{}&*!|>'"%@`#,?:-]|: | #|\s$|^$/.test(value) ? JSON.stringify(value) : value;
+  }
+
+  /**
+   * Read the description declared in a command template's frontmatter
+   */
+  protected async getCommandDescription(command: string, templatePath?: string, language?: Language): Promise<string> {
+    const frontmatter = await this.readCommandFrontmatter(command, templatePath, language);
+    return frontmatter.description || command;
+  }
+
+  /**
+   * Read the frontmatter of a command template (description and script invocations)
+   */
+  protected async readCommandFrontmatter(command: string, templatePath?: string, language?: Language): Promise<CommandFrontmatter> {
+    const commandPath = await this.resolveCommandPath(command, templatePath, language);
 
-    let result = content;
-    for (const [placeholder, value] of Object.entries(replacements)) {
-      result = result.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), value);
+    try {
+      return this.parseCommandFrontmatter(await fs.readFile(commandPath, 'utf8'));
+    } catch {
+      // No template for this command, nothing declared
+      return { scripts: {} };
     }
+  }
+
+  /**
+   * Parse the frontmatter block at the top of a command template
+   */
+  protected parseCommandFrontmatter(content: string): CommandFrontmatter {
+    const frontmatter: CommandFrontmatter = { scripts: {} };
+    const block = content.match(/^---\s*\n([\s\S]*?)\n---/);
+    let section: string | null = null;
+
+    for (const line of (block ? block[1] : '').split(/\r?\n/)) {
+      const nested = line.match(/^\s+([\w-]+):\s*(.+)$/);
+      const topLevel = line.match(/^([\w-]+):\s*(.*)$/);
+
+      if (nested && section === 'scripts') {
+        frontmatter.scripts[nested[1]] = nested[2].trim();
+      } else if (topLevel) {
+        section = topLevel[1];
+        if (section === 'description' && topLevel[2]) {
+          frontmatter.description = topLevel[2].trim();
+        } else if (section === 'argument-hint' && topLevel[2]) {
+          frontmatter.argumentHint = topLevel[2].trim();
+        }
+      }
+    }
+
+    return frontmatter;
+  }
 
-    return result;
+  /**
+   * Rules every assistant should follow when working in a ROD project
+   */
+  protected getRODRules(language?: Language): string[] {
+    return localize(language, {
+      zh: [
+        "严格按照ROD(Rule-Oriented Development)方法论工作",
+        "始终基于项目规格文件进行开发",
+        "确保代码实现与规格文档的一致性",
+        "使用.rod目录中的模板和工具",
+        "遵循项目的代码规范和架构设计"
+      ],
+      en: [
+        "Work strictly by the ROD (Rule-Oriented Development) methodology",
+        "Always develop from the project's specification files",
+        "Keep the code consistent with the specification documents",
+        "Use the templates and tools in the .rod directory",
+        "Follow the project's coding conventions and architecture"
+      ]
+    });
   }
 
   /**
@@ -121,81 +424,95 @@ export abstract class BaseAIProcessor {
   /**
    * Add AI-specific metadata to content
    */
-  protected addAIMetadata(content: string, aiAssistant: AIAssistant): string {
-    const instructions = this.getAIInstructions(aiAssistant);
+  protected addAIMetadata(content: string, language?: Language): string {
+    const instructions = this.getAIInstructions(language);
     return `${instructions}\n\n${content}`;
   }
 
   /**
-   * Get AI-specific instructions
+   * Get the instructions placed at the top of every command
    */
-  protected getAIInstructions(aiAssistant: AIAssistant): string {
-    const baseInstructions = `您是一个专业的软件开发助手，专门协助基于规格驱动的开发工作流程。`;
+  protected getAIInstructions(language?: Language): string {
+    const baseInstructions = localize(language, {
+      zh: `您是一个专业的软件开发助手，专门协助基于规格驱动的开发工作流程。`,
+      en: `You are a professional software development assistant, specialized in spec-driven development workflows.`
+    });
+    const assistantInstructions = this.getAssistantInstructions(language);
+
+    return assistantInstructions ? `${baseInstructions}\n\n${assistantInstructions}` : baseInstructions;
+  }
 
-    switch (aiAssistant) {
-      case AIAssistant.CLAUDE:
-        return `${baseInstructions}\n\n请严格按照ROD(Rule-Oriented Development)方法论工作，始终基于项目规格和现有代码进行分析和开发。`;
+  /**
+   * Get the instructions specific to the assistant, added after the common ones
+   */
+  protected getAssistantInstructions(language?: Language): string {
+    return '';
+  }
 
-      case AIAssistant.COPILOT:
-        return `${baseInstructions}\n\n# GitHub Copilot Instructions\n请遵循ROD开发流程，确保代码质量和规格一致性。`;
+  /**
+   * Convert content to AI-specific format, markdown with frontmatter by default
+   */
+  protected convertToAIFormat(content: string, template: CommandTemplate): string {
+    return this.addFrontmatter(content, this.getCommandFrontmatter(template));
+  }
 
-      case AIAssistant.GEMINI:
-        return `${baseInstructions}\n\n使用ROD方法论，专注于规格分析和代码实现的一致性。`;
+  /**
+   * Convert markdown content to a Gemini CLI custom command (also read by Qwen Code)
+   *
+   * The command file has top-level `description` and `prompt` keys, and
+   * `{{args}}` in the prompt is replaced with the arguments the user typed.
+   */
+  protected convertToTomlFormat(content: string, description?: string): string {
+    // Templates without a declared description fall back to their first heading
+    const titleMatch = content.match(/^#\s+(.+)/m);
+    const commandDescription = description || (titleMatch ? titleMatch[1].trim() : 'Command');
 
-      case AIAssistant.CURSOR:
-        return `${baseInstructions}\n\n遵循ROD工作流，确保每个开发步骤都有明确的规格支持。`;
+    const prompt = content.replace(/\$ARGUMENTS|\{ARGS\}/g, '{{args}}').trim();
 
-      case AIAssistant.CODEBUDDY:
-        return `${baseInstructions}\n\n采用ROD开发模式，注重规格驱动的开发过程。`;
+    return `description = ${this.toTomlString(commandDescription)}
 
-      default:
-        return baseInstructions;
-    }
+prompt = """
+${this.escapeTomlMultilineString(prompt)}
+"""
+`;
   }
 
   /**
-   * Convert content to AI-specific format
+   * Quote a value as a single-line TOML basic string
    */
-  protected convertToAIFormat(content: string, aiAssistant: AIAssistant): string {
-    switch (aiAssistant) {
-      case AIAssistant.GEMINI:
-        return this.convertToTomlFormat(content);
-      default:
-        return content; // Markdown format for others
-    }
+  protected toTomlString(value: string): string {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `"${escaped}"`;
   }
 
   /**
-   * Convert markdown content to TOML format for Gemini
+   * Escape a value for a TOML multi-line basic string
    */
-  protected convertToTomlFormat(content: string): string {
-    // Extract title and content
-    const titleMatch = content.match(/^#\s+(.+)/m);
-    const title = titleMatch ? titleMatch[1] : 'Command';
-
-    // Remove title from content
-    const bodyContent = content.replace(/^#\s+.+$/m, '').trim();
-
-    return `[command]
-name = "${title}"
-description = "${title}"
+  protected escapeTomlMultilineString(value: string): string {
+    // Backslashes first, then break up any run of three quotes
+    return value.replace(/\\/g, '\\\\').replace(/"""/g, '""\\"');
+  }
 
-[content]
-text = """
-${bodyContent}
-"""`;
+  /**
+   * Convert MCP servers to the assistant's format, returning the key they are listed under
+   *
+   * The default is the .mcp.json format the template defines them in.
+   */
+  protected convertMCPServers(servers: Record<string, MCPServerConfig>): { key: string; entries: Record<string, unknown> } {
+    return { key: 'mcpServers', entries: servers };
   }
 
   /**
-   * Get argument format for AI assistant
+   * Get the placeholder the assistant replaces with the arguments a command was run with
    */
-  protected getArgumentFormat(aiAssistant: AIAssistant): string {
-    switch (aiAssistant) {
-      case AIAssistant.COPILOT:
-        return '<arguments>';
-      default:
-        return '[arguments]';
-    }
+  protected getArgumentPlaceholder(language?: Language): string {
+    // No argument substitution by default, the assistant reads what the user typed
+    return localize(language, { zh: '<参数>', en: '<arguments>' });
   }
 
   /**
@@ -211,11 +528,27 @@ ${bodyContent}
     return content;
   }
 
+  /**
+   * Write rod's section of a file shared with the user, keeping everything outside it
+   */
+  protected async writeManagedSection(filePath: string, section: string, filesCreated: string[]): Promise<void> {
+    const existing = await fs.readFile(filePath, 'utf8').catch(() => null);
+    const content = mergeManagedSection(existing, section);
+
+    if (existing === null) {
+      await this.writer.writeFile(filePath, content, filesCreated);
+    } else {
+      // The existing content was merged in, so no conflict policy applies
+      const operation = hasManagedSection(existing) || existing.trim() === '' ? OperationType.OVERWRITE : OperationType.APPEND;
+      await this.writer.writeFile(filePath, content, filesCreated, operation);
+    }
+  }
+
   /**
    * Create directory if it doesn't exist
    */
   protected async ensureDirectory(dirPath: string): Promise<void> {
-    await fs.mkdir(dirPath, { recursive: true });
+    await this.writer.ensureDirectory(dirPath);
   }
 
   /**
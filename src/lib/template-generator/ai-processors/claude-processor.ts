@@ -3,19 +3,68 @@
  *
  * Handles Claude-specific file generation:
  * - .claude/commands/ directory with .md files
- * - .claude-config.json configuration file
+ * - CLAUDE.md project memory describing the ROD workflow, merged with any existing file
+ * - .claude/settings.json allowing the ROD scripts to run, merged with any existing settings
  */
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { BaseAIProcessor } from './base-ai-processor';
+import { Language } from '../../../types/cli-config';
+import { OperationType } from '../../../types/results';
+import { BaseAIProcessor, CommandTemplate } from './base-ai-processor';
 import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
+
+const SETTINGS_FILE = path.join('.claude', 'settings.json');
+
+// Lets the slash commands run node .rod/scripts/*.js without a permission prompt
+const SCRIPTS_PERMISSION = 'Bash(node .rod/scripts/:*)';
+
+interface ClaudeSettings {
+  permissions?: {
+    allow?: string[];
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
 
 export class ClaudeProcessor extends BaseAIProcessor {
   getDirectoryName(): string {
     return '.claude';
   }
 
+  getMergedFiles(): string[] {
+    return ['CLAUDE.md', SETTINGS_FILE];
+  }
+
+  stripMergedContent(content: string, relativePath?: string): string | null {
+    if (relativePath !== SETTINGS_FILE) {
+      return super.stripMergedContent(content, relativePath);
+    }
+
+    const settings = this.parseSettings(content);
+    const allow = settings.permissions?.allow;
+    if (!settings.permissions || !allow?.includes(SCRIPTS_PERMISSION)) {
+      return null;
+    }
+
+    settings.permissions.allow = allow.filter(rule => rule !== SCRIPTS_PERMISSION);
+
+    // Drop the containers rod created once they are empty
+    if (settings.permissions.allow.length === 0) {
+      delete settings.permissions.allow;
+    }
+    if (Object.keys(settings.permissions).length === 0) {
+      delete settings.permissions;
+    }
+
+    return Object.keys(settings).length > 0 ? this.serializeSettings(settings) : '';
+  }
+
+  getMCPConfigFile(): string {
+    return '.mcp.json';
+  }
+
   async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
     const claudeDir = path.join(config.projectPath, '.claude');
     const commandsDir = path.join(claudeDir, 'commands');
@@ -29,41 +78,142 @@ export class ClaudeProcessor extends BaseAIProcessor {
       const content = await this.generateCommandFile(commandName, config, templatePath);
 
       const destPath = path.join(commandsDir, commandFile);
-      await fs.writeFile(destPath, content, 'utf8');
-      filesCreated.push(destPath);
+      await this.writer.writeFile(destPath, content, filesCreated);
     }
   }
 
   async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
-    const configPath = path.join(config.projectPath, '.claude-config.json');
-
-    const configContent = {
-      version: "1.0",
-      projectName: config.projectName,
-      description: `ROD project initialized with Claude assistant`,
-      workingDirectory: ".",
-      commands: {
-        directory: ".claude/commands"
-      },
-      rules: [
-        "严格按照ROD(Rule-Oriented Development)方法论工作",
-        "始终基于项目规格文件进行开发",
-        "确保代码实现与规格文档的一致性",
-        "使用.rod目录中的模板和工具",
-        "遵循项目的代码规范和架构设计"
-      ],
-      templates: {
-        directory: ".rod/spec-templates"
-      },
-      scripts: {
-        directory: ".rod/scripts"
-      },
-      memory: {
-        directory: ".rod/memory"
-      }
+    // Claude Code loads CLAUDE.md into every session
+    const rules = this.getRODRules(config.language).map(rule => `- ${rule}`).join('\n');
+    const memory = localize(config.language, {
+      zh: `# ROD 工作流
+
+本项目使用 ROD (Rule-Oriented Development) 规格驱动开发。开始任何工作前，请先阅读项目宪法 \`.rod/memory/constitution.md\`，所有设计和实现都必须符合其中的原则。
+
+## 工作流命令
+
+每个模块按以下顺序推进，命令位于 \`.claude/commands\`：
+
+1. \`/module\`：创建模块目录 \`specs/modules/<模块路径>/\`
+2. \`/specify\`：编写需求规范 \`spec.md\`
+3. \`/plan\`：完成技术设计 \`plan.md\` 及相关设计文档
+4. \`/tasks\`：生成开发任务清单 \`tasks.md\`
+5. \`/progress\`：同步进度到 \`specs/roadmap.md\`
+
+## 规则
+
+${rules}
+
+## 项目目录
+
+- 项目宪法: \`.rod/memory/constitution.md\`
+- 规格模板: \`.rod/spec-templates\`
+- 工作流脚本: \`.rod/scripts\`（命令通过 \`node .rod/scripts/<脚本>.js --json\` 运行）
+- 路线图和模块规格: \`specs/\`
+`,
+      en: `# ROD Workflow
+
+This project uses ROD (Rule-Oriented Development) for spec-driven development. Before starting any work, read the project constitution \`.rod/memory/constitution.md\`; every design and implementation must follow its principles.
+
+## Workflow Commands
+
+Each module goes through these steps, with the commands in \`.claude/commands\`:
+
+1. \`/module\`: create the module directory \`specs/modules/<module-path>/\`
+2. \`/specify\`: write the specification \`spec.md\`
+3. \`/plan\`: write the technical design \`plan.md\` and the related design documents
+4. \`/tasks\`: generate the development task list \`tasks.md\`
+5. \`/progress\`: sync the progress to \`specs/roadmap.md\`
+
+## Rules
+
+${rules}
+
+## Project Layout
+
+- Project constitution: \`.rod/memory/constitution.md\`
+- Specification templates: \`.rod/spec-templates\`
+- Workflow scripts: \`.rod/scripts\` (commands run \`node .rod/scripts/<script>.js --json\`)
+- Roadmap and module specifications: \`specs/\`
+`
+    });
+
+    await this.writeManagedSection(path.join(config.projectPath, 'CLAUDE.md'), memory, filesCreated);
+    await this.writeSettings(path.join(config.projectPath, SETTINGS_FILE), filesCreated);
+  }
+
+  /**
+   * Claude Code reads the description, argument hint and pre-approved tools of a command
+   */
+  protected getCommandFrontmatter(template: CommandTemplate): Record<string, string> {
+    const fields: Record<string, string> = { description: template.description };
+    const tools = ['Read', 'Write', 'Edit', 'Glob', 'Grep'];
+
+    if (template.argumentHint) {
+      fields['argument-hint'] = template.argumentHint;
+    }
+
+    // Allow the command's own script to run without a permission prompt
+    const scriptMatch = template.script?.match(/^(node\s+\S+)/);
+    if (scriptMatch) {
+      tools.push(`Bash(${scriptMatch[1]}:*)`);
+    }
+    fields['allowed-tools'] = tools.join(', ');
+
+    return fields;
+  }
+
+  /**
+   * Claude Code replaces $ARGUMENTS with what the command was run with
+   */
+  protected getArgumentPlaceholder(): string {
+    return '$ARGUMENTS';
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '请严格按照ROD(Rule-Oriented Development)方法论工作，始终基于项目规格和现有代码进行分析和开发。',
+      en: 'Work strictly by the ROD (Rule-Oriented Development) methodology, always analyzing and developing from the project specifications and the existing code.'
+    });
+  }
+
+  /**
+   * Add rod's permission to .claude/settings.json, keeping the user's settings
+   */
+  private async writeSettings(settingsPath: string, filesCreated: string[]): Promise<void> {
+    const existing = await fs.readFile(settingsPath, 'utf8').catch(() => null);
+
+    await this.ensureDirectory(path.dirname(settingsPath));
+
+    if (existing === null) {
+      await this.writer.writeFile(settingsPath, this.serializeSettings({ permissions: { allow: [SCRIPTS_PERMISSION] } }), filesCreated);
+      return;
+    }
+
+    const settings = this.parseSettings(existing);
+    const allow = settings.permissions?.allow || [];
+    const operation = allow.includes(SCRIPTS_PERMISSION) ? OperationType.OVERWRITE : OperationType.APPEND;
+
+    settings.permissions = {
+      ...settings.permissions,
+      allow: allow.includes(SCRIPTS_PERMISSION) ? allow : [...allow, SCRIPTS_PERMISSION]
     };
+    await this.writer.writeFile(settingsPath, this.serializeSettings(settings), filesCreated, operation);
+  }
+
+  private parseSettings(content: string): ClaudeSettings {
+    if (content.trim() === '') {
+      return {};
+    }
+
+    try {
+      return JSON.parse(content) as ClaudeSettings;
+    } catch {
+      throw new Error(`Cannot merge ${SETTINGS_FILE}: the file is not valid JSON`);
+    }
+  }
 
-    await fs.writeFile(configPath, JSON.stringify(configContent, null, 2), 'utf8');
-    filesCreated.push(configPath);
+  private serializeSettings(settings: ClaudeSettings): string {
+    return JSON.stringify(settings, null, 2) + '\n';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+/**
+ * Cline AI Processor
+ *
+ * Handles Cline-specific file generation:
+ * - .clinerules/ directory with one rule file per ROD command (rod-<command>.md)
+ * - .clinerules/rod.md with the general ROD rules
+ */
+
+import path from 'path';
+import { Language } from '../../../types/cli-config';
+import { BaseAIProcessor } from './base-ai-processor';
+import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
+
+export class ClineProcessor extends BaseAIProcessor {
+  getDirectoryName(): string {
+    return '.clinerules';
+  }
+
+  getCommandsDirectory(): string {
+    // Cline reads every markdown file in .clinerules as a rule
+    return '.clinerules';
+  }
+
+  getCommandFileName(commandName: string): string {
+    return `rod-${commandName}.md`;
+  }
+
+  getConfigFiles(): string[] {
+    return [path.join('.clinerules', 'rod.md')];
+  }
+
+  async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
+    const rulesDir = path.join(config.projectPath, this.getCommandsDirectory());
+
+    await this.ensureDirectory(rulesDir);
+
+    const commandFiles = await this.getCommandFiles(templatePath);
+
+    for (const commandFile of commandFiles) {
+      const commandName = path.basename(commandFile, '.md');
+      const content = await this.generateCommandFile(commandName, config, templatePath);
+      const description = await this.getCommandDescription(commandName, templatePath, config.language);
+
+      // Rules are always active, so each one states when it applies
+      const header = localize(config.language, {
+        zh: `# ROD ${commandName} 阶段\n\n> 当用户要求执行 \`/${commandName}\` 或${description}时，遵循以下步骤。`,
+        en: `# ROD ${commandName} Stage\n\n> Follow these steps when the user asks to run \`/${commandName}\` or to: ${description}.`
+      });
+      const rule = `${header}\n\n${content}`;
+
+      const destPath = path.join(rulesDir, this.getCommandFileName(commandName));
+      await this.writer.writeFile(destPath, rule, filesCreated);
+    }
+  }
+
+  async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
+    const rulesPath = path.join(config.projectPath, this.getConfigFiles()[0]);
+
+    await this.ensureDirectory(path.dirname(rulesPath));
+
+    const ruleList = this.getRODRules(config.language).map(rule => `- ${rule}`).join('\n');
+    const rules = localize(config.language, {
+      zh: `# ROD 开发规则
+
+${ruleList}
+
+## 项目目录
+
+- 规格模板: \`.rod/spec-templates\`
+- 工作流脚本: \`.rod/scripts\`
+- 项目宪法: \`.rod/memory\`
+- 各阶段规则: \`.clinerules/rod-*.md\`
+`,
+      en: `# ROD Development Rules
+
+${ruleList}
+
+## Project Layout
+
+- Specification templates: \`.rod/spec-templates\`
+- Workflow scripts: \`.rod/scripts\`
+- Project constitution: \`.rod/memory\`
+- Stage rules: \`.clinerules/rod-*.md\`
+`
+    });
+
+    await this.writer.writeFile(rulesPath, rules, filesCreated);
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '遵循.clinerules中的ROD规则，按阶段推进并保持规格与代码一致。',
+      en: 'Follow the ROD rules in .clinerules, working stage by stage and keeping the specifications and code consistent.'
+    });
+  }
+}
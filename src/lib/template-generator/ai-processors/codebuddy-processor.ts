@@ -6,10 +6,11 @@
  * - No separate configuration file needed
  */
 
-import { promises as fs } from 'fs';
 import path from 'path';
+import { Language } from '../../../types/cli-config';
 import { BaseAIProcessor } from './base-ai-processor';
 import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
 
 export class CodebuddyProcessor extends BaseAIProcessor {
   getDirectoryName(): string {
@@ -29,8 +30,7 @@ export class CodebuddyProcessor extends BaseAIProcessor {
       const content = await this.generateCommandFile(commandName, config, templatePath);
 
       const destPath = path.join(commandsDir, commandFile);
-      await fs.writeFile(destPath, content, 'utf8');
-      filesCreated.push(destPath);
+      await this.writer.writeFile(destPath, content, filesCreated);
     }
   }
 
@@ -38,4 +38,18 @@ export class CodebuddyProcessor extends BaseAIProcessor {
     // Codebuddy doesn't require a separate configuration file
     // Commands in .codebuddy/commands/ are automatically detected
   }
+
+  /**
+   * CodeBuddy replaces $ARGUMENTS with what the command was run with
+   */
+  protected getArgumentPlaceholder(): string {
+    return '$ARGUMENTS';
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '采用ROD开发模式，注重规格驱动的开发过程。',
+      en: 'Work in the ROD development mode, with a spec-driven development process.'
+    });
+  }
 }
\ No newline at end of file
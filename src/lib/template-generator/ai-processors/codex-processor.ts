@@ -0,0 +1,125 @@
+/**
+ * Codex AI Processor
+ *
+ * Handles file generation for Codex CLI and other tools that read AGENTS.md:
+ * - AGENTS.md at the project root describing the ROD workflow and its commands
+ * - Existing AGENTS.md content is kept; rod only owns a marked section of the file
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Language } from '../../../types/cli-config';
+import { BaseAIProcessor } from './base-ai-processor';
+import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
+import { hasManagedSection } from '../managed-section';
+
+// Order in which the commands are used within a module
+const WORKFLOW_ORDER = ['module', 'specify', 'plan', 'tasks', 'progress'];
+
+export class CodexProcessor extends BaseAIProcessor {
+  getDirectoryName(): string {
+    return '.';
+  }
+
+  getCommandsDirectory(): string {
+    // Commands are described in AGENTS.md rather than generated as files
+    return '';
+  }
+
+  getMergedFiles(): string[] {
+    return ['AGENTS.md'];
+  }
+
+  async getOutputFiles(): Promise<string[]> {
+    return [];
+  }
+
+  async isInstalled(projectPath: string): Promise<boolean> {
+    const content = await fs.readFile(path.join(projectPath, 'AGENTS.md'), 'utf8').catch(() => '');
+    return hasManagedSection(content);
+  }
+
+  async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
+    const commandNames = (await this.getCommandFiles(templatePath))
+      .map(file => path.basename(file, '.md'))
+      .sort((a, b) => this.workflowIndex(a) - this.workflowIndex(b));
+
+    const commandSections: string[] = [];
+    for (const commandName of commandNames) {
+      const frontmatter = await this.readCommandFrontmatter(commandName, templatePath, config.language);
+      const script = frontmatter.scripts[config.scriptType];
+
+      const lines = [`### ${commandName}`, '', frontmatter.description || commandName];
+      if (script) {
+        const invocation = script.replace(/\{ARGS\}/g, () => this.getArgumentPlaceholder(config.language));
+        lines.push('', `${localize(config.language, { zh: '运行：', en: 'Run: ' })}\`${invocation}\``);
+      }
+      commandSections.push(lines.join('\n'));
+    }
+
+    const rules = this.getRODRules(config.language).map(rule => `- ${rule}`).join('\n');
+    const section = localize(config.language, {
+      zh: `# ROD 工作流
+
+本项目使用 ROD (Rule-Oriented Development) 规格驱动开发。开始任何工作前，请先阅读项目宪法 \`.rod/memory/constitution.md\`，所有设计和实现都必须符合其中的原则。
+
+## 工作流命令
+
+每个模块按以下顺序推进。每个命令先运行对应脚本，脚本输出 JSON，再根据输出中的路径和 \`.rod/spec-templates\` 中的模板完成该步骤。
+
+${commandSections.join('\n\n')}
+
+## 规则
+
+${rules}
+
+## 项目目录
+
+- 项目宪法: \`.rod/memory/constitution.md\`
+- 规格模板: \`.rod/spec-templates\`
+- 工作流脚本: \`.rod/scripts\`
+- 路线图和模块规格: \`specs/\`
+`,
+      en: `# ROD Workflow
+
+This project uses ROD (Rule-Oriented Development) for spec-driven development. Before starting any work, read the project constitution \`.rod/memory/constitution.md\`; every design and implementation must follow its principles.
+
+## Workflow Commands
+
+Each module goes through these steps in order. Each command first runs its script, which prints JSON, then completes the step using the paths in that output and the templates in \`.rod/spec-templates\`.
+
+${commandSections.join('\n\n')}
+
+## Rules
+
+${rules}
+
+## Project Layout
+
+- Project constitution: \`.rod/memory/constitution.md\`
+- Specification templates: \`.rod/spec-templates\`
+- Workflow scripts: \`.rod/scripts\`
+- Roadmap and module specifications: \`specs/\`
+`
+    });
+
+    await this.writeManagedSection(path.join(config.projectPath, 'AGENTS.md'), section, filesCreated);
+  }
+
+  async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
+    // Codex reads AGENTS.md directly, no separate configuration file is needed
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '遵循AGENTS.md中描述的ROD工作流，先读项目宪法再动手。',
+      en: 'Follow the ROD workflow described in AGENTS.md, reading the project constitution before making changes.'
+    });
+  }
+
+  private workflowIndex(commandName: string): number {
+    const index = WORKFLOW_ORDER.indexOf(commandName);
+    return index === -1 ? WORKFLOW_ORDER.length : index;
+  }
+}
@@ -3,18 +3,36 @@
  *
  * Handles GitHub Copilot-specific file generation:
  * - .github/prompts/ directory with .prompt.md files
+ * - .github/copilot-instructions.md with the ROD rules, merged with any existing file
  */
 
-import { promises as fs } from 'fs';
 import path from 'path';
-import { BaseAIProcessor } from './base-ai-processor';
+import { Language } from '../../../types/cli-config';
+import { BaseAIProcessor, CommandTemplate, MCPServerConfig, mapMCPServers } from './base-ai-processor';
 import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
 
 export class CopilotProcessor extends BaseAIProcessor {
   getDirectoryName(): string {
     return '.github';
   }
 
+  getCommandsDirectory(): string {
+    return path.join('.github', 'prompts');
+  }
+
+  getMergedFiles(): string[] {
+    return [path.join('.github', 'copilot-instructions.md')];
+  }
+
+  getCommandFileName(commandName: string): string {
+    return `${commandName}.prompt.md`;
+  }
+
+  getMCPConfigFile(): string {
+    return path.join('.vscode', 'mcp.json');
+  }
+
   async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
     const githubDir = path.join(config.projectPath, '.github');
     const promptsDir = path.join(githubDir, 'prompts');
@@ -25,43 +43,80 @@ export class CopilotProcessor extends BaseAIProcessor {
 
     for (const commandFile of commandFiles) {
       const commandName = path.basename(commandFile, '.md');
-      let content = await this.generateCommandFile(commandName, config, templatePath);
+      const content = await this.generateCommandFile(commandName, config, templatePath);
 
-      // Convert to Copilot prompt format
-      content = this.convertToCopilotFormat(content);
-
-      const destPath = path.join(promptsDir, `${commandName}.prompt.md`);
-      await fs.writeFile(destPath, content, 'utf8');
-      filesCreated.push(destPath);
+      const destPath = path.join(promptsDir, this.getCommandFileName(commandName));
+      await this.writer.writeFile(destPath, content, filesCreated);
     }
   }
 
   async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
-    // GitHub Copilot doesn't require a separate configuration file
-    // The prompts in .github/prompts/ are automatically detected
+    const instructionsPath = path.join(config.projectPath, this.getMergedFiles()[0]);
+
+    await this.ensureDirectory(path.dirname(instructionsPath));
+
+    // Copilot adds these instructions to every chat request in the workspace
+    const rules = this.getRODRules(config.language).map(rule => `- ${rule}`).join('\n');
+    const section = localize(config.language, {
+      zh: `# ROD 开发规则
+
+本项目使用 ROD (Rule-Oriented Development) 规格驱动开发。开始任何工作前，请先阅读项目宪法 \`.rod/memory/constitution.md\`，所有设计和实现都必须符合其中的原则。
+
+${rules}
+
+## 项目目录
+
+- 项目宪法: \`.rod/memory/constitution.md\`
+- 规格模板: \`.rod/spec-templates\`
+- 工作流脚本: \`.rod/scripts\`
+- 工作流提示词: \`.github/prompts/*.prompt.md\`
+`,
+      en: `# ROD Development Rules
+
+This project uses ROD (Rule-Oriented Development) for spec-driven development. Before starting any work, read the project constitution \`.rod/memory/constitution.md\`; every design and implementation must follow its principles.
+
+${rules}
+
+## Project Layout
+
+- Project constitution: \`.rod/memory/constitution.md\`
+- Specification templates: \`.rod/spec-templates\`
+- Workflow scripts: \`.rod/scripts\`
+- Workflow prompts: \`.github/prompts/*.prompt.md\`
+`
+    });
+
+    await this.writeManagedSection(instructionsPath, section, filesCreated);
+  }
+
+  /**
+   * Copilot runs prompt files in agent mode so they can execute the ROD scripts
+   */
+  protected getCommandFrontmatter(template: CommandTemplate): Record<string, string> {
+    return { mode: 'agent', description: template.description };
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return '# GitHub Copilot Instructions\n' + localize(language, {
+      zh: '请遵循ROD开发流程，确保代码质量和规格一致性。',
+      en: 'Follow the ROD development workflow, keeping the code quality high and consistent with the specifications.'
+    });
+  }
+
+  /**
+   * Prompt files read the arguments from an input variable
+   */
+  protected getArgumentPlaceholder(): string {
+    return '${input:args}';
   }
 
   /**
-   * Convert content to Copilot-specific prompt format
+   * VS Code lists servers under "servers" and requires the transport type of every server
    */
-  private convertToCopilotFormat(content: string): string {
-    // Add Copilot-specific prompt headers
-    const promptHeader = `---
-title: ROD Development Assistant
-description: Assists with rule-oriented development workflow
-authors:
-  - ROD CLI
-tags:
-  - development
-  - specifications
-  - architecture
----
-
-`;
-
-    // Replace argument format for Copilot
-    content = content.replace(/\[([^\]]+)\]/g, '<$1>');
-
-    return promptHeader + content;
+  protected convertMCPServers(servers: Record<string, MCPServerConfig>): { key: string; entries: Record<string, unknown> } {
+    return {
+      key: 'servers',
+      entries: mapMCPServers(servers, server => ({ ...server, type: server.type || (server.url ? 'http' : 'stdio') }))
+    };
   }
-}
\ No newline at end of file
+}
@@ -3,19 +3,29 @@
  *
  * Handles Cursor-specific file generation:
  * - .cursor/commands/ directory with .md files
- * - No separate configuration file needed
+ * - .cursor/rules/rod.mdc with the ROD rules, always applied
+ * - .cursor/rules/rod-specs.mdc describing the module spec structure, applied to specs/modules/**
  */
 
-import { promises as fs } from 'fs';
 import path from 'path';
-import { BaseAIProcessor } from './base-ai-processor';
+import { Language } from '../../../types/cli-config';
+import { BaseAIProcessor, CommandTemplate } from './base-ai-processor';
 import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
 
 export class CursorProcessor extends BaseAIProcessor {
   getDirectoryName(): string {
     return '.cursor';
   }
 
+  getConfigFiles(): string[] {
+    return [path.join('.cursor', 'rules', 'rod.mdc'), path.join('.cursor', 'rules', 'rod-specs.mdc')];
+  }
+
+  getMCPConfigFile(): string {
+    return path.join('.cursor', 'mcp.json');
+  }
+
   async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
     const cursorDir = path.join(config.projectPath, '.cursor');
     const commandsDir = path.join(cursorDir, 'commands');
@@ -29,13 +39,109 @@ export class CursorProcessor extends BaseAIProcessor {
       const content = await this.generateCommandFile(commandName, config, templatePath);
 
       const destPath = path.join(commandsDir, commandFile);
-      await fs.writeFile(destPath, content, 'utf8');
-      filesCreated.push(destPath);
+      await this.writer.writeFile(destPath, content, filesCreated);
     }
   }
 
   async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
-    // Cursor doesn't require a separate configuration file
-    // Commands in .cursor/commands/ are automatically detected
+    const [rulesPath, specsRulesPath] = this.getConfigFiles().map(file => path.join(config.projectPath, file));
+
+    await this.ensureDirectory(path.dirname(rulesPath));
+
+    const ruleList = this.getRODRules(config.language).map(rule => `- ${rule}`).join('\n');
+    const rules = `---
+description: ${this.toYamlScalar(`ROD (Rule-Oriented Development) rules for ${config.projectName}`)}
+alwaysApply: true
+---
+
+${localize(config.language, {
+      zh: `# ROD 开发规则
+
+开始任何工作前，请先阅读项目宪法 \`.rod/memory/constitution.md\`，所有设计和实现都必须符合其中的原则。
+
+${ruleList}
+
+## 项目目录
+
+- 项目宪法: \`.rod/memory/constitution.md\`
+- 规格模板: \`.rod/spec-templates\`
+- 工作流脚本: \`.rod/scripts\`
+- 工作流命令: \`.cursor/commands\`（在聊天中通过 \`/specify\`、\`/plan\` 等调用）
+`,
+      en: `# ROD Development Rules
+
+Before starting any work, read the project constitution \`.rod/memory/constitution.md\`; every design and implementation must follow its principles.
+
+${ruleList}
+
+## Project Layout
+
+- Project constitution: \`.rod/memory/constitution.md\`
+- Specification templates: \`.rod/spec-templates\`
+- Workflow scripts: \`.rod/scripts\`
+- Workflow commands: \`.cursor/commands\` (run them in chat with \`/specify\`, \`/plan\` and so on)
+`
+    })}`;
+
+    // Only attached when the agent works on files inside a module
+    const specsRules = localize(config.language, {
+      zh: `---
+description: ROD 模块规格的目录结构
+globs: specs/modules/**
+alwaysApply: false
+---
+
+# ROD 模块规格
+
+每个模块位于 \`specs/modules/<模块路径>/\`，按阶段依次产出以下文件：
+
+- \`spec.md\`：需求规范（\`/specify\`，模板 \`.rod/spec-templates/spec-template.md\`）
+- \`plan.md\`：技术设计（\`/plan\`，模板 \`.rod/spec-templates/plan-template.md\`），以及 \`research.md\`、\`data-model.md\`、\`contracts/\`、\`quickstart.md\` 等设计文档
+- \`tasks.md\`：开发任务清单（\`/tasks\`，模板 \`.rod/spec-templates/tasks-template.md\`）
+
+修改这些文件时：
+
+- 保持与模板一致的章节结构
+- 后一阶段的文件必须以前一阶段的文件为依据，需求变更先更新 \`spec.md\`
+- 完成任务后在 \`tasks.md\` 中更新状态，并通过 \`/progress\` 同步到 \`specs/roadmap.md\`
+`,
+      en: `---
+description: Layout of the ROD module specifications
+globs: specs/modules/**
+alwaysApply: false
+---
+
+# ROD Module Specifications
+
+Each module lives in \`specs/modules/<module-path>/\` and produces these files, one stage after another:
+
+- \`spec.md\`: specification (\`/specify\`, template \`.rod/spec-templates/spec-template.md\`)
+- \`plan.md\`: technical design (\`/plan\`, template \`.rod/spec-templates/plan-template.md\`), along with design documents such as \`research.md\`, \`data-model.md\`, \`contracts/\` and \`quickstart.md\`
+- \`tasks.md\`: development task list (\`/tasks\`, template \`.rod/spec-templates/tasks-template.md\`)
+
+When changing these files:
+
+- Keep the section structure of the template
+- Base each stage on the files of the previous one; update \`spec.md\` first when requirements change
+- Update the status in \`tasks.md\` once a task is done, and sync it to \`specs/roadmap.md\` with \`/progress\`
+`
+    });
+
+    await this.writer.writeFile(rulesPath, rules, filesCreated);
+    await this.writer.writeFile(specsRulesPath, specsRules, filesCreated);
+  }
+
+  /**
+   * Cursor shows the description in its command list
+   */
+  protected getCommandFrontmatter(template: CommandTemplate): Record<string, string> {
+    return { description: template.description };
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '遵循ROD工作流，确保每个开发步骤都有明确的规格支持。',
+      en: 'Follow the ROD workflow, making sure every development step is backed by a clear specification.'
+    });
   }
-}
\ No newline at end of file
+}
@@ -6,16 +6,29 @@
  * - .gemini-config.json configuration file
  */
 
-import { promises as fs } from 'fs';
 import path from 'path';
-import { BaseAIProcessor } from './base-ai-processor';
+import { Language } from '../../../types/cli-config';
+import { BaseAIProcessor, CommandTemplate, MCPServerConfig, mapMCPServers } from './base-ai-processor';
 import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
 
 export class GeminiProcessor extends BaseAIProcessor {
   getDirectoryName(): string {
     return '.gemini';
   }
 
+  getCommandFileName(commandName: string): string {
+    return `${commandName}.toml`;
+  }
+
+  getConfigFiles(): string[] {
+    return ['.gemini-config.json'];
+  }
+
+  getMCPConfigFile(): string {
+    return path.join('.gemini', 'settings.json');
+  }
+
   async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
     const geminiDir = path.join(config.projectPath, '.gemini');
     const commandsDir = path.join(geminiDir, 'commands');
@@ -29,14 +42,13 @@ export class GeminiProcessor extends BaseAIProcessor {
       const content = await this.generateCommandFile(commandName, config, templatePath);
 
       // Content is already converted to TOML format in base class
-      const destPath = path.join(commandsDir, `${commandName}.toml`);
-      await fs.writeFile(destPath, content, 'utf8');
-      filesCreated.push(destPath);
+      const destPath = path.join(commandsDir, this.getCommandFileName(commandName));
+      await this.writer.writeFile(destPath, content, filesCreated);
     }
   }
 
   async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
-    const configPath = path.join(config.projectPath, '.gemini-config.json');
+    const configPath = path.join(config.projectPath, this.getConfigFiles()[0]);
 
     const configContent = {
       version: "1.0",
@@ -47,13 +59,7 @@ export class GeminiProcessor extends BaseAIProcessor {
         directory: ".gemini/commands",
         format: "toml"
       },
-      rules: [
-        "严格按照ROD(Rule-Oriented Development)方法论工作",
-        "始终基于项目规格文件进行开发",
-        "确保代码实现与规格文档的一致性",
-        "使用.rod目录中的模板和工具",
-        "遵循项目的代码规范和架构设计"
-      ],
+      rules: this.getRODRules(config.language),
       templates: {
         directory: ".rod/spec-templates"
       },
@@ -70,7 +76,39 @@ export class GeminiProcessor extends BaseAIProcessor {
       }
     };
 
-    await fs.writeFile(configPath, JSON.stringify(configContent, null, 2), 'utf8');
-    filesCreated.push(configPath);
+    await this.writer.writeFile(configPath, JSON.stringify(configContent, null, 2), filesCreated);
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '使用ROD方法论，专注于规格分析和代码实现的一致性。',
+      en: 'Use the ROD methodology, focusing on specification analysis and keeping the implementation consistent with it.'
+    });
+  }
+
+  /**
+   * Custom commands are TOML files
+   */
+  protected convertToAIFormat(content: string, template: CommandTemplate): string {
+    return this.convertToTomlFormat(content, template.description);
+  }
+
+  protected getArgumentPlaceholder(): string {
+    return '{{args}}';
+  }
+
+  /**
+   * Streamable HTTP servers go in httpUrl, url is for SSE
+   */
+  protected convertMCPServers(servers: Record<string, MCPServerConfig>): { key: string; entries: Record<string, unknown> } {
+    return {
+      key: 'mcpServers',
+      entries: mapMCPServers(servers, ({ type, url, ...server }) => {
+        if (!url) {
+          return server;
+        }
+        return type === 'sse' ? { ...server, url } : { ...server, httpUrl: url };
+      })
+    };
   }
 }
\ No newline at end of file
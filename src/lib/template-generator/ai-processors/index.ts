@@ -4,13 +4,10 @@
  * Provides a factory for creating AI processors and exports all processor classes
  */
 
-import { AIAssistant } from '../../../types/cli-config';
+import { AssistantId } from '../../../types/cli-config';
 import { BaseAIProcessor } from './base-ai-processor';
-import { ClaudeProcessor } from './claude-processor';
-import { CopilotProcessor } from './copilot-processor';
-import { GeminiProcessor } from './gemini-processor';
-import { CursorProcessor } from './cursor-processor';
-import { CodebuddyProcessor } from './codebuddy-processor';
+import { ProcessorRegistry } from './processor-registry';
+import { FileWriter } from '../file-writer';
 
 // Export all processor classes
 export { BaseAIProcessor } from './base-ai-processor';
@@ -19,30 +16,32 @@ export { CopilotProcessor } from './copilot-processor';
 export { GeminiProcessor } from './gemini-processor';
 export { CursorProcessor } from './cursor-processor';
 export { CodebuddyProcessor } from './codebuddy-processor';
+export { WindsurfProcessor } from './windsurf-processor';
+export { CodexProcessor } from './codex-processor';
+export { ClineProcessor } from './cline-processor';
+export { RooProcessor } from './roo-processor';
+export { QwenProcessor } from './qwen-processor';
+export { OpencodeProcessor } from './opencode-processor';
+
+export {
+  ProcessorRegistry,
+  ProcessorPlugin,
+  ProcessorToolDefinition,
+  AIProcessorClass,
+  PluginLoadOptions,
+  PluginLoadResult
+} from './processor-registry';
 
 /**
  * Factory for creating AI processors
  */
 export class AIProcessorFactory {
-  static create(aiAssistant: AIAssistant, templateBasePath: string): BaseAIProcessor {
-    switch (aiAssistant) {
-      case AIAssistant.CLAUDE:
-        return new ClaudeProcessor(templateBasePath);
-
-      case AIAssistant.COPILOT:
-        return new CopilotProcessor(templateBasePath);
-
-      case AIAssistant.GEMINI:
-        return new GeminiProcessor(templateBasePath);
-
-      case AIAssistant.CURSOR:
-        return new CursorProcessor(templateBasePath);
-
-      case AIAssistant.CODEBUDDY:
-        return new CodebuddyProcessor(templateBasePath);
-
-      default:
-        throw new Error(`Unsupported AI assistant: ${aiAssistant}`);
+  static create(aiAssistant: AssistantId, templateBasePath: string, writer?: FileWriter): BaseAIProcessor {
+    const plugin = ProcessorRegistry.get(aiAssistant);
+    if (!plugin) {
+      throw new Error(`Unsupported AI assistant: ${aiAssistant}`);
     }
+
+    return new plugin.processor(templateBasePath, writer);
   }
-}
\ No newline at end of file
+}
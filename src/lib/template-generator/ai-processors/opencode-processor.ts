@@ -0,0 +1,80 @@
+/**
+ * opencode AI Processor
+ *
+ * Handles opencode-specific file generation:
+ * - .opencode/command/ directory with .md files (description frontmatter)
+ */
+
+import path from 'path';
+import { Language } from '../../../types/cli-config';
+import { BaseAIProcessor, CommandTemplate, MCPServerConfig, mapMCPServers } from './base-ai-processor';
+import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
+
+export class OpencodeProcessor extends BaseAIProcessor {
+  getDirectoryName(): string {
+    return '.opencode';
+  }
+
+  getCommandsDirectory(): string {
+    return path.join('.opencode', 'command');
+  }
+
+  getMCPConfigFile(): string {
+    return 'opencode.json';
+  }
+
+  async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
+    const commandsDir = path.join(config.projectPath, this.getCommandsDirectory());
+
+    await this.ensureDirectory(commandsDir);
+
+    const commandFiles = await this.getCommandFiles(templatePath);
+
+    for (const commandFile of commandFiles) {
+      const commandName = path.basename(commandFile, '.md');
+      const content = await this.generateCommandFile(commandName, config, templatePath);
+
+      const destPath = path.join(commandsDir, this.getCommandFileName(commandName));
+      await this.writer.writeFile(destPath, content, filesCreated);
+    }
+  }
+
+  async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
+    // opencode doesn't require a separate configuration file
+    // Commands in .opencode/command/ are automatically detected
+  }
+
+  /**
+   * opencode shows the description in its command list
+   */
+  protected getCommandFrontmatter(template: CommandTemplate): Record<string, string> {
+    return { description: template.description };
+  }
+
+  /**
+   * opencode replaces $ARGUMENTS with what the command was run with
+   */
+  protected getArgumentPlaceholder(): string {
+    return '$ARGUMENTS';
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '遵循ROD工作流，确保每个开发步骤都有明确的规格支持。',
+      en: 'Follow the ROD workflow, making sure every development step is backed by a clear specification.'
+    });
+  }
+
+  /**
+   * opencode lists servers under "mcp", as local commands or remote URLs
+   */
+  protected convertMCPServers(servers: Record<string, MCPServerConfig>): { key: string; entries: Record<string, unknown> } {
+    return {
+      key: 'mcp',
+      entries: mapMCPServers(servers, ({ command, args, env, url, headers }) => url
+        ? { type: 'remote', url, ...(headers && { headers }) }
+        : { type: 'local', command: [command, ...(args || [])], ...(env && { environment: env }) })
+    };
+  }
+}
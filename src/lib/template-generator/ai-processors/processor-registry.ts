@@ -0,0 +1,245 @@
+/**
+ * AI Processor Registry
+ *
+ * Keeps every AI assistant rod can generate files for: the built-in processors
+ * and the ones provided by plugins. Plugins are loaded from:
+ * - rod-processor-* packages installed next to rod-cli
+ * - package names or module paths listed under "processors" in ~/.rod/config.json
+ *
+ * The current project's node_modules is never scanned: a cloned repository
+ * must not be able to run code just by being the working directory.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIAssistant, AssistantId, registerAIAssistant } from '../../../types/cli-config';
+import { ToolDefinition, ToolPriority, ToolRegistry } from '../../../types/system';
+import { FileWriter } from '../file-writer';
+import { BaseAIProcessor } from './base-ai-processor';
+import { ClaudeProcessor } from './claude-processor';
+import { CopilotProcessor } from './copilot-processor';
+import { GeminiProcessor } from './gemini-processor';
+import { CursorProcessor } from './cursor-processor';
+import { CodebuddyProcessor } from './codebuddy-processor';
+import { WindsurfProcessor } from './windsurf-processor';
+import { CodexProcessor } from './codex-processor';
+import { ClineProcessor } from './cline-processor';
+import { RooProcessor } from './roo-processor';
+import { QwenProcessor } from './qwen-processor';
+import { OpencodeProcessor } from './opencode-processor';
+
+export const PLUGIN_PACKAGE_PREFIX = 'rod-processor-';
+
+export type AIProcessorClass = new (templateBasePath: string, writer?: FileWriter) => BaseAIProcessor;
+
+/**
+ * What a processor plugin module exports (as module.exports or its default export)
+ */
+export interface ProcessorPlugin {
+  id: string;                        // Value passed to --ai, e.g. aider
+  displayName: string;               // Shown in help output, e.g. Aider
+  processor: AIProcessorClass;       // BaseAIProcessor subclass
+  tool?: ProcessorToolDefinition;    // CLI checked by rod check and rod init
+}
+
+/**
+ * A plugin's tool, registered as an optional tool of its assistant
+ */
+export type ProcessorToolDefinition = Pick<ToolDefinition, 'name' | 'displayName' | 'command' | 'versionCommand' | 'versionRegex'> &
+  Partial<Pick<ToolDefinition, 'platforms' | 'installInstructions'>>;
+
+export interface PluginLoadOptions {
+  configPath?: string;               // Defaults to ~/.rod/config.json
+  searchPaths?: string[];            // node_modules directories scanned for rod-processor-* packages
+}
+
+export interface PluginLoadResult {
+  loaded: string[];                  // Ids of the registered plugins
+  warnings: string[];                // Plugins that could not be loaded
+}
+
+const BUILT_IN_PROCESSORS: ProcessorPlugin[] = [
+  { id: AIAssistant.CLAUDE, displayName: 'Claude Code', processor: ClaudeProcessor },
+  { id: AIAssistant.COPILOT, displayName: 'GitHub Copilot', processor: CopilotProcessor },
+  { id: AIAssistant.GEMINI, displayName: 'Gemini CLI', processor: GeminiProcessor },
+  { id: AIAssistant.CURSOR, displayName: 'Cursor', processor: CursorProcessor },
+  { id: AIAssistant.CODEBUDDY, displayName: 'CodeBuddy', processor: CodebuddyProcessor },
+  { id: AIAssistant.WINDSURF, displayName: 'Windsurf', processor: WindsurfProcessor },
+  { id: AIAssistant.CODEX, displayName: 'Codex CLI', processor: CodexProcessor },
+  { id: AIAssistant.CLINE, displayName: 'Cline', processor: ClineProcessor },
+  { id: AIAssistant.ROO, displayName: 'Roo Code', processor: RooProcessor },
+  { id: AIAssistant.QWEN, displayName: 'Qwen Code', processor: QwenProcessor },
+  { id: AIAssistant.OPENCODE, displayName: 'opencode', processor: OpencodeProcessor }
+];
+
+export class ProcessorRegistry {
+  private static processors = new Map<string, ProcessorPlugin>(
+    BUILT_IN_PROCESSORS.map(plugin => [plugin.id, plugin])
+  );
+
+  // Plugin modules already required, so loading twice is harmless
+  private static loadedModules = new Set<string>();
+
+  static register(plugin: ProcessorPlugin): void {
+    const error = this.validatePlugin(plugin);
+    if (error) {
+      throw new Error(error);
+    }
+    if (this.processors.has(plugin.id)) {
+      throw new Error(`AI assistant '${plugin.id}' is already registered`);
+    }
+
+    this.processors.set(plugin.id, plugin);
+    registerAIAssistant(plugin.id);
+
+    if (plugin.tool) {
+      ToolRegistry.addTool({
+        platforms: ['darwin', 'linux', 'win32'],
+        installInstructions: {},
+        ...plugin.tool,
+        required: false,
+        priority: ToolPriority.AI_SPECIFIC,
+        aiAssistants: [plugin.id]
+      });
+    }
+  }
+
+  static get(id: string): ProcessorPlugin | undefined {
+    return this.processors.get(id);
+  }
+
+  static getIds(): AssistantId[] {
+    return Array.from(this.processors.keys());
+  }
+
+  static getAll(): ProcessorPlugin[] {
+    return Array.from(this.processors.values());
+  }
+
+  /**
+   * Load the installed and configured processor plugins
+   * A broken plugin is reported as a warning instead of stopping the CLI
+   */
+  static loadPlugins(options: PluginLoadOptions = {}): PluginLoadResult {
+    const configPath = options.configPath || path.join(os.homedir(), '.rod', 'config.json');
+    const searchPaths = options.searchPaths || this.getDefaultSearchPaths();
+    const result: PluginLoadResult = { loaded: [], warnings: [] };
+
+    const sources: string[] = [];
+    try {
+      sources.push(...this.findPluginPackages(searchPaths));
+      sources.push(...this.readConfiguredPlugins(configPath).map(entry => this.resolveConfiguredPlugin(entry, configPath, searchPaths)));
+    } catch (error) {
+      result.warnings.push((error as Error).message);
+    }
+
+    for (const source of sources) {
+      try {
+        const modulePath = require.resolve(source);
+        if (this.loadedModules.has(modulePath)) {
+          continue;
+        }
+        this.loadedModules.add(modulePath);
+
+        const exported = require(modulePath);
+        const plugin = (exported && exported.default) || exported;
+        this.register(plugin);
+        result.loaded.push(plugin.id);
+      } catch (error) {
+        result.warnings.push(`Skipping processor plugin ${source}: ${(error as Error).message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The node_modules rod-cli is installed in
+   */
+  private static getDefaultSearchPaths(): string[] {
+    // <node_modules>/rod-cli/{src,dist}/lib/template-generator/ai-processors
+    const installDir = path.resolve(__dirname, '..', '..', '..', '..', '..');
+    return path.basename(installDir) === 'node_modules' ? [installDir] : [];
+  }
+
+  private static findPluginPackages(searchPaths: string[]): string[] {
+    const packages: string[] = [];
+
+    for (const dir of searchPaths.filter(dir => existsSync(dir))) {
+      for (const entry of readdirSync(dir)) {
+        if (entry.startsWith(PLUGIN_PACKAGE_PREFIX)) {
+          packages.push(path.join(dir, entry));
+        } else if (entry.startsWith('@')) {
+          readdirSync(path.join(dir, entry))
+            .filter(name => name.startsWith(PLUGIN_PACKAGE_PREFIX))
+            .forEach(name => packages.push(path.join(dir, entry, name)));
+        }
+      }
+    }
+
+    return packages;
+  }
+
+  private static readConfiguredPlugins(configPath: string): string[] {
+    if (!existsSync(configPath)) {
+      return [];
+    }
+
+    let config: { processors?: unknown };
+    try {
+      config = JSON.parse(readFileSync(configPath, 'utf8'));
+    } catch {
+      throw new Error(`Ignoring processor plugins in ${configPath}: the file is not valid JSON`);
+    }
+
+    const processors = config.processors;
+    if (processors === undefined) {
+      return [];
+    }
+    if (!Array.isArray(processors) || processors.some(entry => typeof entry !== 'string')) {
+      throw new Error(`Ignoring processor plugins in ${configPath}: "processors" must be a list of package names or paths`);
+    }
+    return processors;
+  }
+
+  /**
+   * Paths are relative to the config file's directory, anything else is a package name
+   */
+  private static resolveConfiguredPlugin(entry: string, configPath: string, searchPaths: string[]): string {
+    if (entry.startsWith('~/')) {
+      return path.join(os.homedir(), entry.slice(2));
+    }
+    if (entry.startsWith('.') || path.isAbsolute(entry)) {
+      return path.resolve(path.dirname(configPath), entry);
+    }
+
+    const packageDir = searchPaths.map(dir => path.join(dir, entry)).find(dir => existsSync(dir));
+    return packageDir || entry;
+  }
+
+  private static validatePlugin(plugin: ProcessorPlugin): string | null {
+    if (!plugin || typeof plugin !== 'object') {
+      return 'the module does not export a processor plugin';
+    }
+    if (typeof plugin.id !== 'string' || !/^[a-z][a-z0-9-]*$/.test(plugin.id)) {
+      return 'id must be lowercase letters, digits and dashes';
+    }
+    if (typeof plugin.displayName !== 'string' || plugin.displayName.trim() === '') {
+      return `'${plugin.id}' has no displayName`;
+    }
+
+    // Checked by shape: the plugin may be built against its own copy of rod-cli
+    const prototype = typeof plugin.processor === 'function' ? plugin.processor.prototype : null;
+    const methods = ['generateCommands', 'generateConfig', 'getDirectoryName'];
+    if (!prototype || methods.some(method => typeof prototype[method] !== 'function')) {
+      return `'${plugin.id}' processor must be a BaseAIProcessor subclass`;
+    }
+
+    if (plugin.tool && (typeof plugin.tool.name !== 'string' || typeof plugin.tool.command !== 'string')) {
+      return `'${plugin.id}' tool needs a name and a command`;
+    }
+
+    return null;
+  }
+}
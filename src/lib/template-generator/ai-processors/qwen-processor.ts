@@ -0,0 +1,49 @@
+/**
+ * Qwen Code AI Processor
+ *
+ * Handles Qwen Code-specific file generation:
+ * - .qwen/commands/ directory with .toml files
+ *
+ * Qwen Code is a fork of Gemini CLI and reads the same command, argument
+ * and MCP server formats, so everything but the locations comes from Gemini.
+ */
+
+import path from 'path';
+import { GeminiProcessor } from './gemini-processor';
+import { TemplateGenerationConfig } from '../../template-generator';
+
+export class QwenProcessor extends GeminiProcessor {
+  getDirectoryName(): string {
+    return '.qwen';
+  }
+
+  getConfigFiles(): string[] {
+    return [];
+  }
+
+  getMCPConfigFile(): string {
+    return path.join('.qwen', 'settings.json');
+  }
+
+  async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
+    const commandsDir = path.join(config.projectPath, this.getCommandsDirectory());
+
+    await this.ensureDirectory(commandsDir);
+
+    const commandFiles = await this.getCommandFiles(templatePath);
+
+    for (const commandFile of commandFiles) {
+      const commandName = path.basename(commandFile, '.md');
+      const content = await this.generateCommandFile(commandName, config, templatePath);
+
+      // Content is already converted to TOML format in base class
+      const destPath = path.join(commandsDir, this.getCommandFileName(commandName));
+      await this.writer.writeFile(destPath, content, filesCreated);
+    }
+  }
+
+  async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
+    // Qwen Code doesn't require a separate configuration file
+    // Commands in .qwen/commands/ are automatically detected
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Roo Code AI Processor
+ *
+ * Handles Roo Code-specific file generation:
+ * - .roomodes with one custom mode per ROD stage (specify, plan, tasks, progress)
+ * - Modes defined by the user in an existing .roomodes are kept
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Language } from '../../../types/cli-config';
+import { OperationType } from '../../../types/results';
+import { BaseAIProcessor } from './base-ai-processor';
+import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
+
+// ROD stages that become a Roo mode
+const MODE_STAGES = ['specify', 'plan', 'tasks', 'progress'];
+const MODE_SLUG_PREFIX = 'rod-';
+
+interface RooMode {
+  slug: string;
+  name: string;
+  roleDefinition: string;
+  whenToUse?: string;
+  customInstructions?: string;
+  groups: string[];
+  [key: string]: unknown;
+}
+
+export class RooProcessor extends BaseAIProcessor {
+  getDirectoryName(): string {
+    return '.';
+  }
+
+  getCommandsDirectory(): string {
+    // Stages are defined as modes in .roomodes rather than generated as files
+    return '';
+  }
+
+  getMergedFiles(): string[] {
+    return ['.roomodes'];
+  }
+
+  async getOutputFiles(): Promise<string[]> {
+    return [];
+  }
+
+  async isInstalled(projectPath: string): Promise<boolean> {
+    const content = await fs.readFile(path.join(projectPath, '.roomodes'), 'utf8').catch(() => null);
+    return content !== null && this.stripMergedContent(content) !== null;
+  }
+
+  stripMergedContent(content: string): string | null {
+    const modes = this.parseModes(content);
+    const userModes = modes.filter(mode => !this.isRODMode(mode));
+
+    if (userModes.length === modes.length) {
+      return null;
+    }
+    return userModes.length > 0 ? this.serializeModes(userModes) : '';
+  }
+
+  getMCPConfigFile(): string {
+    return path.join('.roo', 'mcp.json');
+  }
+
+  async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
+    const commandNames = (await this.getCommandFiles(templatePath)).map(file => path.basename(file, '.md'));
+    const rodModes: RooMode[] = [];
+
+    for (const stage of MODE_STAGES.filter(stage => commandNames.includes(stage))) {
+      rodModes.push({
+        slug: `${MODE_SLUG_PREFIX}${stage}`,
+        name: `ROD ${stage.charAt(0).toUpperCase()}${stage.slice(1)}`,
+        roleDefinition: this.getAIInstructions(config.language),
+        whenToUse: await this.getCommandDescription(stage, templatePath, config.language),
+        customInstructions: await this.generateCommandFile(stage, config, templatePath),
+        groups: ['read', 'edit', 'command']
+      });
+    }
+
+    const modesPath = path.join(config.projectPath, '.roomodes');
+    const existing = await fs.readFile(modesPath, 'utf8').catch(() => null);
+
+    if (existing === null) {
+      await this.writer.writeFile(modesPath, this.serializeModes(rodModes), filesCreated);
+      return;
+    }
+
+    // Replace rod's modes and keep the user's, in their original order
+    const existingModes = this.parseModes(existing);
+    const userModes = existingModes.filter(mode => !this.isRODMode(mode));
+    const operation = userModes.length === existingModes.length ? OperationType.APPEND : OperationType.OVERWRITE;
+    await this.writer.writeFile(modesPath, this.serializeModes([...userModes, ...rodModes]), filesCreated, operation);
+  }
+
+  async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
+    // Roo Code reads .roomodes directly, no separate configuration file is needed
+  }
+
+  /**
+   * The preamble is the mode's role definition, so instructions don't repeat it
+   */
+  protected addAIMetadata(content: string): string {
+    return content;
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '你正处于ROD工作流的一个阶段，只完成本阶段的工作并以规格为依据。',
+      en: 'You are in one stage of the ROD workflow: do only the work of this stage, based on the specifications.'
+    });
+  }
+
+  private parseModes(content: string): RooMode[] {
+    if (content.trim() === '') {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(content) as { customModes?: RooMode[] };
+      return Array.isArray(parsed.customModes) ? parsed.customModes : [];
+    } catch {
+      throw new Error('Cannot merge .roomodes: only the JSON format is supported');
+    }
+  }
+
+  private serializeModes(modes: RooMode[]): string {
+    return JSON.stringify({ customModes: modes }, null, 2) + '\n';
+  }
+
+  private isRODMode(mode: RooMode): boolean {
+    return typeof mode.slug === 'string' && mode.slug.startsWith(MODE_SLUG_PREFIX);
+  }
+}
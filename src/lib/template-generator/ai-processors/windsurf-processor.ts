@@ -0,0 +1,96 @@
+/**
+ * Windsurf AI Processor
+ *
+ * Handles Windsurf-specific file generation:
+ * - .windsurf/workflows/ directory with workflow .md files (description frontmatter)
+ * - .windsurf/rules/rod.md always-on rules file
+ */
+
+import path from 'path';
+import { Language } from '../../../types/cli-config';
+import { BaseAIProcessor, CommandTemplate } from './base-ai-processor';
+import { TemplateGenerationConfig } from '../../template-generator';
+import { localize } from '../locale';
+
+export class WindsurfProcessor extends BaseAIProcessor {
+  getDirectoryName(): string {
+    return '.windsurf';
+  }
+
+  getCommandsDirectory(): string {
+    return path.join('.windsurf', 'workflows');
+  }
+
+  getConfigFiles(): string[] {
+    return [path.join('.windsurf', 'rules', 'rod.md')];
+  }
+
+  async generateCommands(config: TemplateGenerationConfig, filesCreated: string[], templatePath?: string): Promise<void> {
+    const workflowsDir = path.join(config.projectPath, this.getCommandsDirectory());
+
+    await this.ensureDirectory(workflowsDir);
+
+    const commandFiles = await this.getCommandFiles(templatePath);
+
+    for (const commandFile of commandFiles) {
+      const commandName = path.basename(commandFile, '.md');
+      const content = await this.generateCommandFile(commandName, config, templatePath);
+
+      const destPath = path.join(workflowsDir, this.getCommandFileName(commandName));
+      await this.writer.writeFile(destPath, content, filesCreated);
+    }
+  }
+
+  async generateConfig(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
+    const rulesPath = path.join(config.projectPath, this.getConfigFiles()[0]);
+
+    await this.ensureDirectory(path.dirname(rulesPath));
+
+    const ruleList = this.getRODRules(config.language).map(rule => `- ${rule}`).join('\n');
+    const rules = `---
+trigger: always_on
+description: ${this.toYamlScalar(`ROD (Rule-Oriented Development) rules for ${config.projectName}`)}
+---
+
+${localize(config.language, {
+      zh: `# ROD 开发规则
+
+${ruleList}
+
+## 项目目录
+
+- 规格模板: \`.rod/spec-templates\`
+- 工作流脚本: \`.rod/scripts\`
+- 项目宪法: \`.rod/memory\`
+- 工作流: \`.windsurf/workflows\`（在 Cascade 中通过 \`/specify\`、\`/plan\` 等调用）
+`,
+      en: `# ROD Development Rules
+
+${ruleList}
+
+## Project Layout
+
+- Specification templates: \`.rod/spec-templates\`
+- Workflow scripts: \`.rod/scripts\`
+- Project constitution: \`.rod/memory\`
+- Workflows: \`.windsurf/workflows\` (run them in Cascade with \`/specify\`, \`/plan\` and so on)
+`
+    })}`;
+
+    await this.writer.writeFile(rulesPath, rules, filesCreated);
+  }
+
+  /**
+   * Windsurf lists workflows by the description in their frontmatter
+   */
+  protected getCommandFrontmatter(template: CommandTemplate): Record<string, string> {
+    return { description: template.description };
+  }
+
+  protected getAssistantInstructions(language?: Language): string {
+    return localize(language, {
+      zh: '按照ROD工作流推进开发，每一步都以模块规格为依据。',
+      en: 'Move development forward by the ROD workflow, basing every step on the module specification.'
+    });
+  }
+}
@@ -5,17 +5,26 @@
  * - Directory creation and copying
  * - Template variable replacement
  * - README file intelligent merging
- * - MCP configuration copying
+ * - MCP server definitions reading
  * - Scripts and memory files handling
  */
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { ScriptType } from '../../types/cli-config';
+import { Language } from '../../types/cli-config';
+import { OperationType } from '../../types/results';
 import { TemplateGenerationConfig } from '../template-generator';
+import { FileWriter } from './file-writer';
+import { MCPServerConfig } from './ai-processors/base-ai-processor';
+import { resolveLocalizedPath } from './locale';
+import { TemplateSyntaxError, renderTemplate } from './template-engine';
+import { getPlaceholderValues, replacePlaceholders } from './template-variables';
 
 export class BaseFileProcessor {
-  constructor(private readonly templateBasePath: string) {}
+  constructor(
+    private readonly templateBasePath: string,
+    private readonly writer: FileWriter = new FileWriter()
+  ) {}
 
   /**
    * Copy directory recursively with exclusions
@@ -33,7 +42,7 @@ export class BaseFileProcessor {
       return; // Source directory doesn't exist, skip
     }
 
-    await fs.mkdir(destDir, { recursive: true });
+    await this.writer.ensureDirectory(destDir);
 
     const entries = await fs.readdir(sourceDir);
 
@@ -54,28 +63,35 @@ export class BaseFileProcessor {
       if (stat.isDirectory()) {
         await this.copyDirectoryRecursive(sourcePath, destPath, filesCreated, excludeDirs, excludeFiles);
       } else {
-        await fs.copyFile(sourcePath, destPath);
-        filesCreated.push(destPath);
+        await this.writer.copyFile(sourcePath, destPath, filesCreated);
       }
     }
   }
 
   /**
    * Process template variables in files
+   *
+   * Logic blocks are only rendered in the files under renderPaths (the manifest's
+   * render list), so example files of other template languages are copied as they are.
    */
-  async processTemplateVariables(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
+  async processTemplateVariables(config: TemplateGenerationConfig, filesCreated: string[], renderPaths: string[] = []): Promise<void> {
+    const values = getPlaceholderValues(config);
     for (const filePath of [...filesCreated]) {
       try {
-        const stat = await fs.stat(filePath);
-        if (stat.isFile()) {
-          let content = await fs.readFile(filePath, 'utf8');
+        // Read through the writer so a dry run processes the planned content
+        let content = (await this.writer.readFile(filePath)).toString('utf8');
+        const relativePath = path.relative(config.projectPath, filePath);
 
-          // Replace template variables
-          content = this.replacePlaceholders(content, config);
+        // Render logic blocks where the template asks for it, otherwise only replace template variables
+        content = isUnderAny(relativePath, renderPaths)
+          ? renderTemplate(content, values, relativePath)
+          : replacePlaceholders(content, values);
 
-          await fs.writeFile(filePath, content, 'utf8');
-        }
+        await this.writer.writeFile(filePath, content, filesCreated);
       } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+          throw error;
+        }
         // Skip files that can't be read as text
       }
     }
@@ -102,9 +118,10 @@ export class BaseFileProcessor {
     templatePath: string,
     projectPath: string,
     filesCreated: string[],
-    existingReadmeContent: string | null
+    existingReadmeContent: string | null,
+    language?: Language
   ): Promise<void> {
-    const templateReadmePath = path.join(templatePath, 'README.md');
+    const templateReadmePath = await resolveLocalizedPath(templatePath, 'README.md', language);
     const projectReadmePath = path.join(projectPath, 'README.md');
 
     try {
@@ -117,15 +134,10 @@ export class BaseFileProcessor {
         // Append template README to existing README with separator
         const separator = '\n\n---\n\n';
         const combinedContent = existingReadmeContent + separator + templateReadmeContent;
-        await fs.writeFile(projectReadmePath, combinedContent, 'utf8');
+        await this.writer.writeFile(projectReadmePath, combinedContent, filesCreated, OperationType.APPEND);
       } else {
         // No existing README, just copy template README
-        await fs.copyFile(templateReadmePath, projectReadmePath);
-      }
-
-      // Add to filesCreated if not already there
-      if (!filesCreated.includes(projectReadmePath)) {
-        filesCreated.push(projectReadmePath);
+        await this.writer.copyFile(templateReadmePath, projectReadmePath, filesCreated);
       }
     } catch {
       // Template doesn't have README.md, which is fine
@@ -133,22 +145,24 @@ export class BaseFileProcessor {
   }
 
   /**
-   * Copy .mcp.json configuration file if it exists in the template
+   * Read the MCP servers defined in the template's .mcp.json
+   *
+   * Each AI processor writes them to its assistant's own MCP configuration.
    */
-  async copyMCPConfig(templatePath: string, projectPath: string, filesCreated: string[]): Promise<void> {
-    const mcpSourcePath = path.join(templatePath, '.mcp.json');
-    const mcpDestPath = path.join(projectPath, '.mcp.json');
-
+  async readMCPServers(templatePath: string): Promise<Record<string, MCPServerConfig>> {
+    let content: string;
     try {
-      // Check if .mcp.json exists in the template
-      await fs.access(mcpSourcePath);
+      content = await fs.readFile(path.join(templatePath, '.mcp.json'), 'utf8');
+    } catch {
+      // .mcp.json doesn't exist in template, which is fine - not all templates need MCP
+      return {};
+    }
 
-      // Copy the file to project root
-      await fs.copyFile(mcpSourcePath, mcpDestPath);
-      filesCreated.push(mcpDestPath);
+    try {
+      const parsed = JSON.parse(content) as { mcpServers?: Record<string, MCPServerConfig> };
+      return parsed.mcpServers || {};
     } catch (error) {
-      // .mcp.json doesn't exist in template, which is fine - not all templates need MCP
-      // No error should be thrown, just skip silently
+      throw new Error(`Invalid .mcp.json in template: ${(error as Error).message}`);
     }
   }
 
@@ -164,20 +178,19 @@ export class BaseFileProcessor {
     const sourceDir = scriptsSourceDir;
     const destDir = scriptsDestDir;
 
-    await fs.mkdir(destDir, { recursive: true });
+    await this.writer.ensureDirectory(destDir);
 
     const scriptFiles = await fs.readdir(sourceDir);
 
     for (const scriptFile of scriptFiles) {
-      const sourcePath = path.join(sourceDir, scriptFile);
+      const sourcePath = await resolveLocalizedPath(this.templateBasePath, path.join('scripts', scriptFile), config.language);
       const destPath = path.join(destDir, scriptFile);
 
-      await fs.copyFile(sourcePath, destPath);
-      filesCreated.push(destPath);
+      await this.writer.copyFile(sourcePath, destPath, filesCreated);
 
       // Set executable permissions for Node.js scripts on Unix systems
       if (scriptFile.endsWith('.js') && process.platform !== 'win32') {
-        await fs.chmod(destPath, 0o755);
+        await this.writer.chmod(destPath, 0o755);
       }
     }
   }
@@ -185,24 +198,23 @@ export class BaseFileProcessor {
   /**
    * Copy memory files to destination directory
    */
-  async copyMemoryFiles(memoryDestDir: string, filesCreated: string[]): Promise<void> {
+  async copyMemoryFiles(memoryDestDir: string, filesCreated: string[], language?: Language): Promise<void> {
     const memorySourceDir = path.join(this.templateBasePath, 'memory');
 
     try {
       // Check if memory directory exists
       await fs.access(memorySourceDir);
-      await fs.mkdir(memoryDestDir, { recursive: true });
+      await this.writer.ensureDirectory(memoryDestDir);
 
       const memoryFiles = await fs.readdir(memorySourceDir);
 
       for (const memoryFile of memoryFiles) {
-        const sourcePath = path.join(memorySourceDir, memoryFile);
+        const sourcePath = await resolveLocalizedPath(this.templateBasePath, path.join('memory', memoryFile), language);
         const destPath = path.join(memoryDestDir, memoryFile);
 
         const stat = await fs.stat(sourcePath);
         if (stat.isFile()) {
-          await fs.copyFile(sourcePath, destPath);
-          filesCreated.push(destPath);
+          await this.writer.copyFile(sourcePath, destPath, filesCreated);
         }
       }
     } catch {
@@ -213,11 +225,11 @@ export class BaseFileProcessor {
   /**
    * Copy base template files to .rod/spec-templates directory
    */
-  async copyBaseTemplates(templatesDir: string, filesCreated: string[]): Promise<void> {
+  async copyBaseTemplates(templatesDir: string, filesCreated: string[], language?: Language): Promise<void> {
     // Copy template files from workflow/spec-templates subdirectory (unified structure)
     const baseTemplatesDir = path.join(this.templateBasePath, 'spec-templates');
 
-    await fs.mkdir(templatesDir, { recursive: true });
+    await this.writer.ensureDirectory(templatesDir);
 
     try {
       // Check if templates subdirectory exists
@@ -226,13 +238,12 @@ export class BaseFileProcessor {
       const templateFiles = await fs.readdir(baseTemplatesDir);
 
       for (const templateFile of templateFiles) {
-        const sourcePath = path.join(baseTemplatesDir, templateFile);
+        const sourcePath = await resolveLocalizedPath(this.templateBasePath, path.join('spec-templates', templateFile), language);
         const destPath = path.join(templatesDir, templateFile);
 
         const stat = await fs.stat(sourcePath);
         if (stat.isFile() && templateFile.endsWith('.md')) {
-          await fs.copyFile(sourcePath, destPath);
-          filesCreated.push(destPath);
+          await this.writer.copyFile(sourcePath, destPath, filesCreated);
         }
       }
     } catch {
@@ -247,45 +258,18 @@ export class BaseFileProcessor {
    */
   async createRODDirectory(config: TemplateGenerationConfig, filesCreated: string[]): Promise<void> {
     const rodDir = path.join(config.projectPath, '.rod');
-    await fs.mkdir(rodDir, { recursive: true });
+    await this.writer.ensureDirectory(rodDir);
 
     // Create spec-templates subdirectory with base templates
     const templatesDir = path.join(rodDir, 'spec-templates');
-    await this.copyBaseTemplates(templatesDir, filesCreated);
+    await this.copyBaseTemplates(templatesDir, filesCreated, config.language);
 
     // Create scripts subdirectory with scripts
     await this.copyScripts(config, filesCreated);
 
     // Create memory subdirectory with memory files
     const memoryDir = path.join(rodDir, 'memory');
-    await this.copyMemoryFiles(memoryDir, filesCreated);
-  }
-
-  /**
-   * Replace placeholders in content with actual values
-   */
-  private replacePlaceholders(content: string, config: TemplateGenerationConfig): string {
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0];
-
-    const replacements: Record<string, string> = {
-      '{{PROJECT_NAME}}': config.projectName,
-      '{{AI_ASSISTANT}}': config.aiAssistant,
-      '{{SCRIPT_TYPE}}': config.scriptType,
-      '{{DATE}}': dateStr,
-      '{{YEAR}}': now.getFullYear().toString(),
-      '[项目名称]': config.projectName,
-      '[Project Name]': config.projectName,
-      '[创建时间]': dateStr,
-      '[Creation Date]': dateStr
-    };
-
-    let result = content;
-    for (const [placeholder, value] of Object.entries(replacements)) {
-      result = result.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), value);
-    }
-
-    return result;
+    await this.copyMemoryFiles(memoryDir, filesCreated, config.language);
   }
 
   /**
@@ -299,4 +283,11 @@ export class BaseFileProcessor {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a file is one of the paths or inside one of them
+ */
+function isUnderAny(relativePath: string, paths: string[]): boolean {
+  return paths.some(dir => dir === '.' || relativePath === dir || relativePath.startsWith(dir + path.sep));
+}
@@ -0,0 +1,468 @@
+/**
+ * File Writer
+ *
+ * Single entry point for every write performed during template generation:
+ * - Records each planned or performed write as a FileOperation
+ * - In dry-run mode, records operations and keeps the planned content in memory instead of touching disk
+ * - Applies the conflict policy when a write would replace an existing file
+ * - Journals the prior state of every touched or removed path so a failed session can be rolled back
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ConflictPolicy } from '../../types/cli-config';
+import { ConflictResolution, FileOperation, OperationType, ResultBuilder } from '../../types/results';
+import { askQuestion, isInteractive } from '../prompt';
+
+export interface FileWriterOptions {
+  dryRun?: boolean;
+  onConflict?: ConflictPolicy;
+}
+
+interface JournalEntry {
+  path: string;
+  kind: 'file' | 'directory';
+  original?: Buffer | null;      // File content before the session, null if it didn't exist
+  mode?: number;                 // File mode before the session
+}
+
+export class FileWriter {
+  private dryRun = false;
+  private onConflict: ConflictPolicy = ConflictPolicy.OVERWRITE;
+  private promptAnswerForAll: ConflictPolicy | null = null;
+  private operations: FileOperation[] = [];
+  private conflictResolutions: ConflictResolution[] = [];
+  private journal: JournalEntry[] = [];
+  private plannedContent = new Map<string, Buffer>();  // What dry-run writes would have put on disk
+
+  constructor(options: FileWriterOptions = {}) {
+    this.begin(options);
+  }
+
+  /**
+   * Start a new generation session, discarding previously recorded operations
+   */
+  begin(options: FileWriterOptions = {}): void {
+    this.dryRun = Boolean(options.dryRun);
+    this.onConflict = options.onConflict || ConflictPolicy.OVERWRITE;
+    this.promptAnswerForAll = null;
+    this.operations = [];
+    this.conflictResolutions = [];
+    this.journal = [];
+    this.plannedContent = new Map();
+  }
+
+  /**
+   * Whether writes are only being recorded
+   */
+  isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  /**
+   * Read a file as the current session leaves it
+   *
+   * In dry-run mode the planned content of a file takes precedence over what is on disk.
+   */
+  async readFile(filePath: string): Promise<Buffer> {
+    return this.plannedContent.get(filePath) || fs.readFile(filePath);
+  }
+
+  /**
+   * Get operations recorded during the current session
+   */
+  getOperations(): FileOperation[] {
+    return [...this.operations];
+  }
+
+  /**
+   * Get how conflicts with existing files were resolved during the current session
+   */
+  getConflictResolutions(): ConflictResolution[] {
+    return [...this.conflictResolutions];
+  }
+
+  /**
+   * Write text content to a file
+   *
+   * Passing an explicit operation (e.g. APPEND for README merging) means the
+   * caller already took the existing content into account, so no conflict
+   * policy is applied.
+   */
+  async writeFile(
+    filePath: string,
+    content: string,
+    filesCreated: string[],
+    operation?: OperationType
+  ): Promise<void> {
+    const data = Buffer.from(content, 'utf8');
+
+    if (operation) {
+      this.conflictResolutions = this.conflictResolutions.filter(r => r.path !== filePath);
+    }
+
+    const resolvedOperation = operation || (await this.resolveWrite(filePath, data));
+
+    if (resolvedOperation !== OperationType.SKIP) {
+      if (this.dryRun) {
+        this.plannedContent.set(filePath, data);
+      } else {
+        await this.journalFile(filePath);
+        await fs.writeFile(filePath, data);
+      }
+    }
+
+    this.record(filePath, resolvedOperation, this.sizeAfter(resolvedOperation, data), operation !== undefined);
+    this.trackFile(filePath, resolvedOperation, filesCreated);
+  }
+
+  /**
+   * Write a bookkeeping file owned by rod (manifest, records, project config)
+   *
+   * Users are not expected to edit these files, so the conflict policy never applies.
+   */
+  async writeManagedFile(filePath: string, content: string, filesCreated: string[]): Promise<void> {
+    await this.ensureDirectory(path.dirname(filePath));
+
+    const exists = await fs.access(filePath).then(() => true, () => false);
+    await this.writeFile(filePath, content, filesCreated, exists ? OperationType.OVERWRITE : OperationType.CREATE);
+  }
+
+  /**
+   * Copy a file from the template into the project
+   */
+  async copyFile(sourcePath: string, destPath: string, filesCreated: string[]): Promise<void> {
+    const data = await fs.readFile(sourcePath);
+    const resolvedOperation = await this.resolveWrite(destPath, data);
+
+    if (resolvedOperation !== OperationType.SKIP) {
+      if (this.dryRun) {
+        this.plannedContent.set(destPath, data);
+      } else {
+        await this.journalFile(destPath);
+        await fs.copyFile(sourcePath, destPath);
+      }
+    }
+
+    this.record(destPath, resolvedOperation, this.sizeAfter(resolvedOperation, data), false);
+    this.trackFile(destPath, resolvedOperation, filesCreated);
+  }
+
+  /**
+   * Create directory if it doesn't exist
+   */
+  async ensureDirectory(dirPath: string): Promise<void> {
+    if (!this.dryRun) {
+      await this.journalDirectory(dirPath);
+      await fs.mkdir(dirPath, { recursive: true });
+    }
+  }
+
+  /**
+   * Delete a generated file
+   */
+  async removeFile(filePath: string): Promise<void> {
+    if (this.dryRun) {
+      this.plannedContent.delete(filePath);
+    } else {
+      await this.journalFile(filePath);
+      await fs.rm(filePath, { force: true });
+    }
+
+    this.record(filePath, OperationType.DELETE, undefined, true);
+  }
+
+  /**
+   * Delete a directory once every entry in it has been removed in this session
+   *
+   * Returns false (and leaves the directory alone) when anything else is still inside.
+   */
+  async removeEmptyDirectory(dirPath: string): Promise<boolean> {
+    const entries = await fs.readdir(dirPath).catch(() => null);
+    if (entries === null) {
+      return false;
+    }
+
+    const removed = (entry: string) => this.operations.some(
+      op => op.path === path.join(dirPath, entry) && op.operation === OperationType.DELETE
+    );
+    if (!entries.every(removed)) {
+      return false;
+    }
+
+    if (!this.dryRun) {
+      await fs.rm(dirPath, { recursive: true, force: true });
+    }
+
+    this.record(dirPath, OperationType.DELETE, undefined, true);
+    return true;
+  }
+
+  /**
+   * Set file permissions, noted on the file's recorded operation
+   */
+  async chmod(filePath: string, mode: number): Promise<void> {
+    const existing = this.operations.find(op => op.path === filePath);
+
+    // Never touch permissions of a user file we decided to keep
+    if (existing?.operation === OperationType.SKIP) {
+      return;
+    }
+
+    if (!this.dryRun) {
+      await this.journalFile(filePath);
+      await fs.chmod(filePath, mode);
+    }
+
+    if (existing) {
+      existing.permissions = mode.toString(8);
+    }
+  }
+
+  /**
+   * Undo every change made during the current session, newest first
+   *
+   * Files that existed before are restored, files and directories created
+   * by the session are removed. Returns the operations performed to do so.
+   */
+  async rollback(): Promise<FileOperation[]> {
+    const rollbackOperations: FileOperation[] = [];
+
+    for (const entry of [...this.journal].reverse()) {
+      try {
+        if (entry.kind === 'directory' || entry.original === null) {
+          await fs.rm(entry.path, { recursive: true, force: true });
+          rollbackOperations.push(ResultBuilder.createFileOperation(entry.path, OperationType.DELETE, true));
+        } else {
+          // The file's directory may have been removed along with it
+          await fs.mkdir(path.dirname(entry.path), { recursive: true });
+          await fs.writeFile(entry.path, entry.original!);
+          await fs.chmod(entry.path, entry.mode!);
+          rollbackOperations.push(
+            ResultBuilder.createFileOperation(entry.path, OperationType.OVERWRITE, true, undefined, {
+              size: entry.original!.length
+            })
+          );
+        }
+      } catch (error) {
+        const operation = entry.kind === 'directory' || entry.original === null
+          ? OperationType.DELETE
+          : OperationType.OVERWRITE;
+        rollbackOperations.push(
+          ResultBuilder.createFileOperation(entry.path, operation, false, (error as Error).message)
+        );
+      }
+    }
+
+    this.journal = [];
+    return rollbackOperations;
+  }
+
+  /**
+   * Remember the state of a file before its first change in this session
+   */
+  private async journalFile(filePath: string): Promise<void> {
+    if (this.journal.some(entry => entry.path === filePath)) {
+      return;
+    }
+
+    try {
+      const [original, stat] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+      this.journal.push({ path: filePath, kind: 'file', original, mode: stat.mode & 0o7777 });
+    } catch {
+      this.journal.push({ path: filePath, kind: 'file', original: null });
+    }
+  }
+
+  /**
+   * Remember the outermost directory a recursive mkdir would create
+   */
+  private async journalDirectory(dirPath: string): Promise<void> {
+    let outermostMissing: string | null = null;
+
+    for (let current = path.resolve(dirPath); ; current = path.dirname(current)) {
+      if (await this.pathTaken(current)) {
+        break;
+      }
+      outermostMissing = current;
+      if (path.dirname(current) === current) {
+        break;
+      }
+    }
+
+    if (outermostMissing && !this.journal.some(entry => entry.path === outermostMissing)) {
+      this.journal.push({ path: outermostMissing, kind: 'directory' });
+    }
+  }
+
+  /**
+   * Determine how a write affects the target path, applying the conflict policy
+   */
+  private async resolveWrite(filePath: string, data: Buffer): Promise<OperationType> {
+    // Rewriting a file generated earlier in this session is never a conflict
+    const previous = this.operations.find(op => op.path === filePath);
+    if (previous && previous.operation !== OperationType.SKIP) {
+      return OperationType.OVERWRITE;
+    }
+
+    let existing: Buffer;
+    try {
+      existing = await fs.readFile(filePath);
+    } catch {
+      return OperationType.CREATE;
+    }
+
+    // Identical content can be rewritten safely
+    if (existing.equals(data)) {
+      return OperationType.OVERWRITE;
+    }
+
+    return this.resolveConflict(filePath);
+  }
+
+  /**
+   * Apply the conflict policy to an existing file with different content
+   */
+  private async resolveConflict(filePath: string): Promise<OperationType> {
+    let policy = this.onConflict;
+
+    if (policy === ConflictPolicy.PROMPT) {
+      if (this.dryRun) {
+        this.conflictResolutions.push({
+          path: filePath,
+          action: 'overwrite',
+          reason: 'Would ask before replacing the existing file'
+        });
+        return OperationType.OVERWRITE;
+      }
+      policy = await this.askConflictPolicy(filePath);
+    }
+
+    switch (policy) {
+      case ConflictPolicy.SKIP:
+        this.conflictResolutions.push({
+          path: filePath,
+          action: 'skip',
+          reason: 'Existing file kept'
+        });
+        return OperationType.SKIP;
+
+      case ConflictPolicy.BACKUP: {
+        const backupPath = await this.backupFile(filePath);
+        this.conflictResolutions.push({
+          path: filePath,
+          action: 'rename',
+          originalName: filePath,
+          newName: backupPath,
+          reason: 'Existing file backed up before being replaced'
+        });
+        return OperationType.OVERWRITE;
+      }
+
+      default:
+        this.conflictResolutions.push({
+          path: filePath,
+          action: 'overwrite',
+          reason: 'Existing file replaced'
+        });
+        return OperationType.OVERWRITE;
+    }
+  }
+
+  /**
+   * Ask the user how to handle an existing file
+   */
+  private async askConflictPolicy(filePath: string): Promise<ConflictPolicy> {
+    if (this.promptAnswerForAll) {
+      return this.promptAnswerForAll;
+    }
+
+    // Without a terminal to ask, keep the user's file
+    if (!isInteractive()) {
+      return ConflictPolicy.SKIP;
+    }
+
+    const choices: Record<string, ConflictPolicy> = {
+      o: ConflictPolicy.OVERWRITE,
+      s: ConflictPolicy.SKIP,
+      b: ConflictPolicy.BACKUP
+    };
+
+    for (;;) {
+      const answer = await askQuestion(
+        `File exists: ${filePath}\n  [o]verwrite, [s]kip, [b]ackup (uppercase applies to all remaining): `
+      );
+      const policy = choices[answer.toLowerCase()];
+
+      if (policy) {
+        if (answer !== answer.toLowerCase()) {
+          this.promptAnswerForAll = policy;
+        }
+        return policy;
+      }
+    }
+  }
+
+  /**
+   * Copy an existing file to a free .bak path before it is replaced
+   */
+  private async backupFile(filePath: string): Promise<string> {
+    let backupPath = `${filePath}.bak`;
+    for (let index = 1; await this.pathTaken(backupPath); index++) {
+      backupPath = `${filePath}.bak.${index}`;
+    }
+
+    const data = await fs.readFile(filePath);
+    if (!this.dryRun) {
+      await this.journalFile(backupPath);
+      await fs.copyFile(filePath, backupPath);
+    }
+    this.record(backupPath, OperationType.CREATE, data.length, false);
+
+    return backupPath;
+  }
+
+  private async pathTaken(filePath: string): Promise<boolean> {
+    if (this.operations.some(op => op.path === filePath)) {
+      return true;
+    }
+
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Record an operation, keeping a single entry per path
+   */
+  private record(filePath: string, operation: OperationType, size: number | undefined, explicit: boolean): void {
+    const existing = this.operations.find(op => op.path === filePath);
+
+    if (existing) {
+      // A later write to the same path only changes the final size,
+      // unless the caller states the operation explicitly (e.g. README append)
+      existing.size = size;
+      if (explicit) {
+        existing.operation = operation;
+      }
+      return;
+    }
+
+    this.operations.push(
+      ResultBuilder.createFileOperation(filePath, operation, true, undefined, { size })
+    );
+  }
+
+  private sizeAfter(operation: OperationType, data: Buffer): number | undefined {
+    return operation === OperationType.SKIP ? undefined : data.length;
+  }
+
+  private trackFile(filePath: string, operation: OperationType, filesCreated: string[]): void {
+    if (operation !== OperationType.SKIP && !filesCreated.includes(filePath)) {
+      filesCreated.push(filePath);
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Generation Manifest
+ *
+ * Describes what rod generated in a project (.rod/manifest.json):
+ * - rod-cli version, template name/version and AI assistants
+ * - SHA-256 hash of every generated file, used by `rod manifest verify`
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PROJECT_CONFIG_RELATIVE_PATH } from '../config-manager';
+import { FileWriter } from './file-writer';
+import { GenerationRecord } from './generation-record';
+
+export interface ManifestFileEntry {
+  sha256: string;
+  size: number;
+}
+
+export interface GenerationManifestData {
+  rodVersion: string;                          // rod-cli version that generated the project
+  template: {
+    name: string;                              // 'default' for the built-in workflow
+    version: string;
+  };
+  aiAssistants: string[];                      // Every assistant the project generates files for
+  scriptType: string;
+  generatedAt: string;                         // ISO timestamp of the last generation
+  files: Record<string, ManifestFileEntry>;    // Project-relative path (POSIX) -> content hash
+}
+
+export interface ManifestVerification {
+  pristine: string[];                          // Files matching the recorded hash
+  edited: string[];                            // Files whose content changed since generation
+  missing: string[];                           // Files that no longer exist
+}
+
+export const MANIFEST_RELATIVE_PATH = path.join('.rod', 'manifest.json');
+
+/**
+ * Hash file content the way it is stored in the manifest
+ */
+export function hashContent(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export class GenerationManifest {
+  private constructor(
+    private readonly projectPath: string,
+    private readonly data: GenerationManifestData
+  ) {}
+
+  /**
+   * Load the manifest of a project, or null when none was written
+   */
+  static async load(projectPath: string): Promise<GenerationManifest | null> {
+    try {
+      const content = await fs.readFile(path.join(projectPath, MANIFEST_RELATIVE_PATH), 'utf8');
+      const data = JSON.parse(content) as GenerationManifestData;
+      return new GenerationManifest(projectPath, { ...data, files: data.files || {} });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Load the manifest of a project, or start a new one from the given metadata
+   */
+  static async loadOrCreate(
+    projectPath: string,
+    metadata: Omit<GenerationManifestData, 'rodVersion' | 'generatedAt' | 'files'>
+  ): Promise<GenerationManifest> {
+    const existing = await GenerationManifest.load(projectPath);
+    const files = existing ? existing.data.files : {};
+
+    return new GenerationManifest(projectPath, {
+      rodVersion: '',
+      generatedAt: '',
+      ...metadata,
+      files
+    });
+  }
+
+  getData(): GenerationManifestData {
+    return this.data;
+  }
+
+  /**
+   * Record the hash of generated content for a project file
+   */
+  setFile(filePath: string, content: Buffer | string): void {
+    this.data.files[this.toKey(filePath)] = {
+      sha256: hashContent(content),
+      size: Buffer.byteLength(content)
+    };
+  }
+
+  /**
+   * Forget a project file that is no longer generated
+   */
+  deleteFile(filePath: string): void {
+    delete this.data.files[this.toKey(filePath)];
+  }
+
+  /**
+   * Get the recorded hash of a project file
+   */
+  getFile(filePath: string): ManifestFileEntry | undefined {
+    return this.data.files[this.toKey(filePath)];
+  }
+
+  /**
+   * Replace the list of assistants the project generates files for
+   */
+  setAIAssistants(aiAssistants: string[]): void {
+    this.data.aiAssistants = aiAssistants;
+  }
+
+  /**
+   * Record the content the writer leaves in generated files
+   */
+  async captureFiles(filePaths: string[], writer: FileWriter): Promise<void> {
+    for (const filePath of filePaths) {
+      if (this.isOwnFile(filePath) || path.relative(this.projectPath, filePath).startsWith('..')) {
+        continue;
+      }
+
+      try {
+        this.setFile(filePath, await writer.readFile(filePath));
+      } catch {
+        // File was not written (e.g. kept by the conflict policy)
+      }
+    }
+  }
+
+  /**
+   * Compare project files against the recorded hashes
+   */
+  async verify(): Promise<ManifestVerification> {
+    const verification: ManifestVerification = { pristine: [], edited: [], missing: [] };
+
+    for (const [relativePath, entry] of Object.entries(this.data.files).sort(([a], [b]) => a.localeCompare(b))) {
+      try {
+        const content = await fs.readFile(path.join(this.projectPath, ...relativePath.split('/')));
+        if (hashContent(content) === entry.sha256) {
+          verification.pristine.push(relativePath);
+        } else {
+          verification.edited.push(relativePath);
+        }
+      } catch {
+        verification.missing.push(relativePath);
+      }
+    }
+
+    return verification;
+  }
+
+  /**
+   * Write the manifest to the project
+   */
+  async save(writer: FileWriter, filesCreated: string[]): Promise<void> {
+    this.data.rodVersion = require('../../../package.json').version;
+    this.data.generatedAt = new Date().toISOString();
+
+    const manifestPath = path.join(this.projectPath, MANIFEST_RELATIVE_PATH);
+    await writer.writeManagedFile(manifestPath, JSON.stringify(this.data, null, 2) + '\n', filesCreated);
+  }
+
+  /**
+   * Whether a path is one of rod's own bookkeeping files
+   */
+  private isOwnFile(filePath: string): boolean {
+    const relativePath = path.relative(this.projectPath, filePath);
+    return [MANIFEST_RELATIVE_PATH, GenerationRecord.RELATIVE_PATH, PROJECT_CONFIG_RELATIVE_PATH].includes(relativePath);
+  }
+
+  private toKey(filePath: string): string {
+    const relativePath = path.isAbsolute(filePath) ? path.relative(this.projectPath, filePath) : filePath;
+    return relativePath.split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Generation Record
+ *
+ * Keeps the exact content rod generated for each project file in
+ * .rod/upgrade-base.json, so `rod upgrade` can three-way merge user edits
+ * with newer workflow files.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileWriter } from './file-writer';
+
+export interface GenerationRecordData {
+  rodVersion: string;                 // rod-cli version that generated the files
+  updatedAt: string;                  // ISO timestamp of the last update
+  files: Record<string, string>;      // Project-relative path (POSIX) -> generated content
+}
+
+export class GenerationRecord {
+  static readonly RELATIVE_PATH = path.join('.rod', 'upgrade-base.json');
+
+  private constructor(
+    private readonly projectPath: string,
+    private readonly data: GenerationRecordData
+  ) {}
+
+  /**
+   * Load the record of a project, or start an empty one
+   */
+  static async load(projectPath: string): Promise<GenerationRecord> {
+    try {
+      const content = await fs.readFile(path.join(projectPath, GenerationRecord.RELATIVE_PATH), 'utf8');
+      const data = JSON.parse(content) as GenerationRecordData;
+      return new GenerationRecord(projectPath, { ...data, files: data.files || {} });
+    } catch {
+      return new GenerationRecord(projectPath, { rodVersion: '', updatedAt: '', files: {} });
+    }
+  }
+
+  /**
+   * Content generated last time for a project file
+   */
+  get(filePath: string): string | undefined {
+    return this.data.files[this.toKey(filePath)];
+  }
+
+  /**
+   * Remember the generated content of a project file
+   */
+  set(filePath: string, content: string): void {
+    this.data.files[this.toKey(filePath)] = content;
+  }
+
+  /**
+   * Forget a project file that is no longer generated
+   */
+  delete(filePath: string): void {
+    delete this.data.files[this.toKey(filePath)];
+  }
+
+  /**
+   * Record the content the writer leaves in freshly generated files
+   */
+  async captureFiles(filePaths: string[], writer: FileWriter): Promise<void> {
+    const recordPath = path.join(this.projectPath, GenerationRecord.RELATIVE_PATH);
+
+    for (const filePath of filePaths) {
+      if (filePath === recordPath || path.relative(this.projectPath, filePath).startsWith('..')) {
+        continue;
+      }
+
+      try {
+        this.set(filePath, (await writer.readFile(filePath)).toString('utf8'));
+      } catch {
+        // File was not written (e.g. kept by the conflict policy)
+      }
+    }
+  }
+
+  /**
+   * Write the record to the project
+   */
+  async save(writer: FileWriter, filesCreated: string[]): Promise<void> {
+    this.data.rodVersion = require('../../../package.json').version;
+    this.data.updatedAt = new Date().toISOString();
+
+    const recordPath = path.join(this.projectPath, GenerationRecord.RELATIVE_PATH);
+    await writer.writeManagedFile(recordPath, JSON.stringify(this.data, null, 2) + '\n', filesCreated);
+  }
+
+  private toKey(filePath: string): string {
+    const relativePath = path.isAbsolute(filePath) ? path.relative(this.projectPath, filePath) : filePath;
+    return relativePath.split(path.sep).join('/');
+  }
+}
@@ -14,13 +14,16 @@ export {
 
 // Export base processors
 export { BaseFileProcessor } from './base-file-processor';
-export { BaseAIProcessor, AIProcessorFactory } from './ai-processors';
+export { FileWriter, FileWriterOptions } from './file-writer';
+export { BaseAIProcessor, AIProcessorFactory, ProcessorRegistry, ProcessorPlugin } from './ai-processors';
 
 // Export utility functions
 export {
   validateConfig,
   calculateTotalSize,
-  generateRoadmapWorkflow
+  calculatePlannedSize,
+  generateRoadmapWorkflow,
+  getAIAssistants
 } from './template-utils';
 
 // Re-export specific AI processors if needed
@@ -29,5 +32,11 @@ export {
   CopilotProcessor,
   GeminiProcessor,
   CursorProcessor,
-  CodebuddyProcessor
+  CodebuddyProcessor,
+  WindsurfProcessor,
+  CodexProcessor,
+  ClineProcessor,
+  RooProcessor,
+  QwenProcessor,
+  OpencodeProcessor
 } from './ai-processors';
\ No newline at end of file
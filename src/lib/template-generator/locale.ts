@@ -0,0 +1,75 @@
+/**
+ * Template Locales
+ *
+ * A template keeps its default-language files at the top level and the
+ * variants for other languages under locales/<lang>/, with the same
+ * relative paths. A variant replaces its top-level file; files without
+ * a variant are used as they are.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Language } from '../../types/cli-config';
+import { loadTemplateManifest } from './template-manifest';
+
+export const DEFAULT_LANGUAGE = Language.ZH;
+export const LOCALES_DIR = 'locales';
+
+/**
+ * Pick the text for a language, defaulting to Chinese
+ */
+export function localize<T>(language: Language | undefined, texts: Record<Language, T>): T {
+  return texts[language || DEFAULT_LANGUAGE];
+}
+
+/**
+ * Resolve a template file to its variant for the language, falling back to the top-level file
+ */
+export async function resolveLocalizedPath(basePath: string, relativePath: string, language?: Language): Promise<string> {
+  if (language) {
+    const localizedPath = path.join(basePath, LOCALES_DIR, language, relativePath);
+    try {
+      await fs.access(localizedPath);
+      return localizedPath;
+    } catch {
+      // No variant for this language
+    }
+  }
+
+  return path.join(basePath, relativePath);
+}
+
+/**
+ * Get the languages a template provides
+ *
+ * Declared in the template manifest's requirements.locales, or as "rod": { "locales": [...] }
+ * in the template's package.json (or the package it lives in); otherwise the default
+ * language plus every locales/ directory.
+ */
+export async function getTemplateLocales(templatePath: string): Promise<Language[]> {
+  const manifest = await loadTemplateManifest(templatePath);
+  if (manifest?.requirements.locales) {
+    return manifest.requirements.locales;
+  }
+
+  for (const dir of [templatePath, path.dirname(templatePath)]) {
+    let packageJson: { rod?: { locales?: unknown } };
+    try {
+      packageJson = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8'));
+    } catch {
+      continue; // No package.json at this level
+    }
+
+    const locales = packageJson.rod?.locales;
+    if (locales === undefined) {
+      break;
+    }
+    if (!Array.isArray(locales) || locales.some(locale => !Object.values(Language).includes(locale))) {
+      throw new Error(`Invalid "rod.locales" in ${path.join(dir, 'package.json')}: expected a list of ${Object.values(Language).join(', ')}`);
+    }
+    return locales;
+  }
+
+  const localeDirs = await fs.readdir(path.join(templatePath, LOCALES_DIR)).catch(() => [] as string[]);
+  return [DEFAULT_LANGUAGE, ...Object.values(Language).filter(language => language !== DEFAULT_LANGUAGE && localeDirs.includes(language))];
+}
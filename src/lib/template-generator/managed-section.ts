@@ -0,0 +1,57 @@
+/**
+ * Managed Section Utilities
+ *
+ * Some generated files (e.g. AGENTS.md) are shared with the user. rod only owns
+ * the part between the section markers, so regenerating replaces that part and
+ * removing an assistant strips it, leaving the user's content alone.
+ */
+
+export const MANAGED_SECTION_START = '<!-- rod:start -->';
+export const MANAGED_SECTION_END = '<!-- rod:end -->';
+
+// Same separator handleTemplateReadme uses when appending to an existing README
+const SECTION_SEPARATOR = '\n\n---\n\n';
+
+const SECTION_REGEX = new RegExp(
+  `(?:${escapeRegex(SECTION_SEPARATOR)})?${escapeRegex(MANAGED_SECTION_START)}[\\s\\S]*?${escapeRegex(MANAGED_SECTION_END)}\\n?`
+);
+
+/**
+ * Whether content contains a rod-managed section
+ */
+export function hasManagedSection(content: string): boolean {
+  return content.includes(MANAGED_SECTION_START) && content.includes(MANAGED_SECTION_END);
+}
+
+/**
+ * Insert or replace the rod-managed section in existing content
+ */
+export function mergeManagedSection(existing: string | null, section: string): string {
+  const wrapped = `${MANAGED_SECTION_START}\n${section.trim()}\n${MANAGED_SECTION_END}\n`;
+
+  if (existing === null || existing.trim() === '') {
+    return wrapped;
+  }
+
+  if (hasManagedSection(existing)) {
+    return existing.replace(
+      new RegExp(`${escapeRegex(MANAGED_SECTION_START)}[\\s\\S]*?${escapeRegex(MANAGED_SECTION_END)}\\n?`),
+      () => wrapped
+    );
+  }
+
+  // Append after the user's content with a separator
+  return existing.trimEnd() + SECTION_SEPARATOR + wrapped;
+}
+
+/**
+ * Strip the rod-managed section, returning what the user wrote
+ */
+export function removeManagedSection(content: string): string {
+  const remaining = content.replace(SECTION_REGEX, '');
+  return remaining.trim() === '' ? '' : remaining.trimEnd() + '\n';
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
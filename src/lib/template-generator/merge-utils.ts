@@ -0,0 +1,136 @@
+/**
+ * Merge Utilities
+ *
+ * Line-based three-way merge used when upgrading generated files:
+ * - base: the content rod generated last time
+ * - current: the content on disk (possibly edited by the user)
+ * - incoming: the content the current rod version generates
+ */
+
+export interface MergeResult {
+  content: string;
+  conflicts: number; // Number of conflicting hunks written with conflict markers
+}
+
+export interface ConflictLabels {
+  current: string;
+  incoming: string;
+}
+
+/**
+ * Merge user edits and upstream changes made since a common base
+ */
+export function mergeThreeWay(
+  base: string,
+  current: string,
+  incoming: string,
+  labels: ConflictLabels = { current: 'current', incoming: 'incoming' }
+): MergeResult {
+  if (current === incoming || incoming === base) {
+    return { content: current, conflicts: 0 };
+  }
+  if (current === base) {
+    return { content: incoming, conflicts: 0 };
+  }
+
+  const baseLines = base.split('\n');
+  const currentLines = current.split('\n');
+  const incomingLines = incoming.split('\n');
+
+  // For each base line, the matching line index in current and incoming (if any)
+  const toCurrent = matchLines(baseLines, currentLines);
+  const toIncoming = matchLines(baseLines, incomingLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let c = 0;
+  let i = 0;
+
+  while (b < baseLines.length || c < currentLines.length || i < incomingLines.length) {
+    // Next base line kept by both sides marks the end of the unstable chunk
+    let next = b;
+    while (next < baseLines.length && (toCurrent[next] === undefined || toIncoming[next] === undefined)) {
+      next++;
+    }
+
+    const nextCurrent = next < baseLines.length ? toCurrent[next]! : currentLines.length;
+    const nextIncoming = next < baseLines.length ? toIncoming[next]! : incomingLines.length;
+
+    if (next === b && nextCurrent === c && nextIncoming === i) {
+      output.push(baseLines[b]);
+      b++;
+      c++;
+      i++;
+      continue;
+    }
+
+    const baseChunk = baseLines.slice(b, next);
+    const currentChunk = currentLines.slice(c, nextCurrent);
+    const incomingChunk = incomingLines.slice(i, nextIncoming);
+
+    if (sameLines(currentChunk, baseChunk)) {
+      output.push(...incomingChunk);
+    } else if (sameLines(incomingChunk, baseChunk) || sameLines(currentChunk, incomingChunk)) {
+      output.push(...currentChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.current}`,
+        ...currentChunk,
+        '=======',
+        ...incomingChunk,
+        `>>>>>>> ${labels.incoming}`
+      );
+    }
+
+    b = next;
+    c = nextCurrent;
+    i = nextIncoming;
+  }
+
+  return { content: output.join('\n'), conflicts };
+}
+
+/**
+ * Map each line of `from` to its position in `to` using a longest common subsequence
+ */
+function matchLines(from: string[], to: string[]): Array<number | undefined> {
+  const rows = from.length + 1;
+  const cols = to.length + 1;
+  const lengths = new Array<Uint32Array>(rows);
+
+  for (let r = 0; r < rows; r++) {
+    lengths[r] = new Uint32Array(cols);
+  }
+
+  for (let r = from.length - 1; r >= 0; r--) {
+    for (let col = to.length - 1; col >= 0; col--) {
+      lengths[r][col] = from[r] === to[col]
+        ? lengths[r + 1][col + 1] + 1
+        : Math.max(lengths[r + 1][col], lengths[r][col + 1]);
+    }
+  }
+
+  const matches = new Array<number | undefined>(from.length);
+  let r = 0;
+  let col = 0;
+
+  while (r < from.length && col < to.length) {
+    if (from[r] === to[col]) {
+      matches[r] = col;
+      r++;
+      col++;
+    } else if (lengths[r + 1][col] >= lengths[r][col + 1]) {
+      r++;
+    } else {
+      col++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
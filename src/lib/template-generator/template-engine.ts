@@ -0,0 +1,349 @@
+/**
+ * Template Engine
+ *
+ * Renders the logic blocks templates can use on top of {{NAME}} placeholders:
+ *
+ *   {{#if ai == "claude"}} ... {{else}} ... {{/if}}
+ *   {{#each MODULES}} - {{this}} ({{@index}}) {{/each}}
+ *
+ * Conditions support variables, "strings", numbers, true/false, ==, !=, !,
+ * && , || and parentheses; nothing is evaluated as JavaScript. Other tags
+ * (e.g. a Vue {{ a + b }} or a Mustache {{#items}}) and placeholders without
+ * a value are left as they are.
+ */
+
+import { TemplateVariableValue, TemplateVariableValues } from '../../types/project-template';
+import { replacePlaceholders } from './template-variables';
+
+// Lowercase names conditions can use for built-in variables
+const ALIASES: Record<string, string> = {
+  ai: 'AI_ASSISTANT',
+  script: 'SCRIPT_TYPE',
+  lang: 'LANGUAGE'
+};
+
+export class TemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    public file: string,
+    public line: number
+  ) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'if'; condition: string; line: number; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; name: string; line: number; body: TemplateNode[] };
+
+interface Tag {
+  kind: 'if' | 'else' | 'endif' | 'each' | 'endeach';
+  argument: string;
+  line: number;
+  start: number;   // Offset of the text the tag replaces (its whole line when it stands alone)
+  end: number;
+}
+
+/**
+ * Render a template's logic blocks and placeholders with the given values
+ *
+ * @param source File name used in error messages
+ */
+export function renderTemplate(content: string, values: TemplateVariableValues, source = 'template'): string {
+  const nodes = parse(content, source);
+  return renderNodes(nodes, { ...resolveAliases(values), ...values }, source);
+}
+
+function resolveAliases(values: TemplateVariableValues): TemplateVariableValues {
+  const aliases: TemplateVariableValues = {};
+  for (const [alias, name] of Object.entries(ALIASES)) {
+    if (name in values) {
+      aliases[alias] = values[name];
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Find the block tags of a template, in order
+ */
+function findTags(content: string, source: string): Tag[] {
+  const tags: Tag[] = [];
+  const pattern = /\{\{\s*(#if|#each|else|\/if|\/each)\b\s*([^}]*?)\s*\}\}/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    const [text, keyword, argument] = match;
+    const line = content.slice(0, match.index).split('\n').length;
+    const kinds: Record<string, Tag['kind']> = {
+      '#if': 'if', 'else': 'else', '/if': 'endif', '#each': 'each', '/each': 'endeach'
+    };
+
+    const kind = kinds[keyword];
+    if ((kind === 'if' || kind === 'each') && argument === '') {
+      throw new TemplateSyntaxError(`{{${keyword}}} needs ${kind === 'if' ? 'a condition' : 'a list variable'}`, source, line);
+    }
+    if (kind !== 'if' && kind !== 'each' && argument !== '') {
+      throw new TemplateSyntaxError(`{{${keyword}}} takes no argument, got '${argument}'`, source, line);
+    }
+    if (kind === 'each' && !/^[A-Za-z_]\w*$/.test(argument)) {
+      throw new TemplateSyntaxError(`{{#each}} expects a variable name, got '${argument}'`, source, line);
+    }
+
+    // A tag alone on its line takes the whole line with it
+    let start = match.index;
+    let end = match.index + text.length;
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = content.indexOf('\n', end);
+    const before = content.slice(lineStart, start);
+    const after = content.slice(end, lineEnd === -1 ? content.length : lineEnd);
+    if (before.trim() === '' && after.trim() === '') {
+      start = lineStart;
+      end = lineEnd === -1 ? content.length : lineEnd + 1;
+    }
+
+    tags.push({ kind, argument, line, start, end });
+  }
+
+  return tags;
+}
+
+/**
+ * Build the block tree of a template
+ */
+function parse(content: string, source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; children: TemplateNode[]; hasElse?: boolean }[] = [];
+  let offset = 0;
+
+  const current = (): TemplateNode[] => (stack.length > 0 ? stack[stack.length - 1].children : root);
+
+  for (const tag of findTags(content, source)) {
+    if (tag.start > offset) {
+      current().push({ type: 'text', text: content.slice(offset, tag.start) });
+    }
+    offset = tag.end;
+
+    const open = stack[stack.length - 1];
+    switch (tag.kind) {
+      case 'if': {
+        validateCondition(tag.argument, source, tag.line);
+        const node: TemplateNode = { type: 'if', condition: tag.argument, line: tag.line, then: [], otherwise: [] };
+        current().push(node);
+        stack.push({ node, children: node.then });
+        break;
+      }
+
+      case 'each': {
+        const node: TemplateNode = { type: 'each', name: tag.argument, line: tag.line, body: [] };
+        current().push(node);
+        stack.push({ node, children: node.body });
+        break;
+      }
+
+      case 'else':
+        if (!open || open.node.type !== 'if' || open.hasElse) {
+          throw new TemplateSyntaxError('{{else}} outside an {{#if}} block', source, tag.line);
+        }
+        open.children = open.node.otherwise;
+        open.hasElse = true;
+        break;
+
+      default: {
+        const expected = tag.kind === 'endif' ? 'if' : 'each';
+        if (!open) {
+          throw new TemplateSyntaxError(`{{/${expected}}} without a matching {{#${expected}}}`, source, tag.line);
+        }
+        if (open.node.type !== expected) {
+          throw new TemplateSyntaxError(
+            `{{/${expected}}} closes the {{#${open.node.type}}} opened on line ${open.node.line}`,
+            source,
+            tag.line
+          );
+        }
+        stack.pop();
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    throw new TemplateSyntaxError(`{{#${open.type}}} is never closed with {{/${open.type}}}`, source, open.line);
+  }
+
+  if (offset < content.length) {
+    root.push({ type: 'text', text: content.slice(offset) });
+  }
+
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: TemplateVariableValues, source: string): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return replacePlaceholders(node.text, scope);
+
+      case 'if':
+        return renderNodes(
+          isTruthy(evaluate(node.condition, scope, source, node.line)) ? node.then : node.otherwise,
+          scope,
+          source
+        );
+
+      case 'each': {
+        const list = scope[node.name];
+        if (list === undefined) {
+          return '';
+        }
+        if (!Array.isArray(list)) {
+          throw new TemplateSyntaxError(`{{#each ${node.name}}}: ${node.name} is not a list`, source, node.line);
+        }
+        return list
+          .map((item, index) => renderNodes(node.body, { ...scope, this: item, '@index': index }, source))
+          .join('');
+      }
+    }
+  }).join('');
+}
+
+// Condition expressions
+
+type Token = { type: 'value'; value: TemplateVariableValue | undefined } | { type: 'name'; name: string } | { type: 'op'; op: string };
+
+function tokenize(expression: string, source: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)\b|(==|!=|&&|\|\||!|\(|\))|(@?[A-Za-z_]\w*))/y;
+  let index = 0;
+
+  while (index < expression.length) {
+    if (expression.slice(index).trim() === '') {
+      break;
+    }
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new TemplateSyntaxError(`unexpected '${expression.slice(index).trim()}' in condition '${expression}'`, source, line);
+    }
+    index = pattern.lastIndex;
+
+    const [, quoted, number, op, name] = match;
+    if (quoted !== undefined) {
+      tokens.push({ type: 'value', value: quoted.slice(1, -1).replace(/\\(.)/g, '$1') });
+    } else if (number !== undefined) {
+      tokens.push({ type: 'value', value: Number(number) });
+    } else if (op !== undefined) {
+      tokens.push({ type: 'op', op });
+    } else if (name === 'true' || name === 'false') {
+      tokens.push({ type: 'value', value: name === 'true' });
+    } else {
+      tokens.push({ type: 'name', name });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Check a condition's syntax when the template is parsed, so errors don't depend on the values
+ */
+function validateCondition(expression: string, source: string, line: number): void {
+  evaluate(expression, {}, source, line);
+}
+
+/**
+ * Evaluate a condition: or := and ('||' and)*, and := not ('&&' not)*,
+ * not := '!' not | compare, compare := operand (('==' | '!=') operand)?
+ */
+function evaluate(expression: string, scope: TemplateVariableValues, source: string, line: number): unknown {
+  const tokens = tokenize(expression, source, line);
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new TemplateSyntaxError(`${message} in condition '${expression}'`, source, line);
+  };
+  const peekOp = (op: string): boolean => {
+    const token = tokens[position];
+    return token?.type === 'op' && token.op === op;
+  };
+
+  const parseOr = (): unknown => {
+    let value = parseAnd();
+    while (peekOp('||')) {
+      position++;
+      const right = parseAnd();
+      value = isTruthy(value) || isTruthy(right);
+    }
+    return value;
+  };
+
+  const parseAnd = (): unknown => {
+    let value = parseNot();
+    while (peekOp('&&')) {
+      position++;
+      const right = parseNot();
+      value = isTruthy(value) && isTruthy(right);
+    }
+    return value;
+  };
+
+  const parseNot = (): unknown => {
+    if (peekOp('!')) {
+      position++;
+      return !isTruthy(parseNot());
+    }
+    return parseCompare();
+  };
+
+  const parseCompare = (): unknown => {
+    const left = parseOperand();
+    if (peekOp('==') || peekOp('!=')) {
+      const negate = peekOp('!=');
+      position++;
+      const equal = isEqual(left, parseOperand());
+      return negate ? !equal : equal;
+    }
+    return left;
+  };
+
+  const parseOperand = (): unknown => {
+    const token = tokens[position++];
+    if (!token) {
+      return fail('missing value');
+    }
+    if (token.type === 'value') {
+      return token.value;
+    }
+    if (token.type === 'name') {
+      return scope[token.name];
+    }
+    if (token.op === '(') {
+      const value = parseOr();
+      if (!peekOp(')')) {
+        fail("missing ')'");
+      }
+      position++;
+      return value;
+    }
+    return fail(`unexpected '${token.op}'`);
+  };
+
+  const result = parseOr();
+  if (position < tokens.length) {
+    fail('unexpected extra input');
+  }
+  return result;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) === Number(right);
+  }
+  return String(left) === String(right);
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
@@ -0,0 +1,310 @@
+/**
+ * Template Manifest
+ *
+ * A template can describe itself in rod-template.json (or rod-template.yaml):
+ * its metadata, what it requires, the variables it uses and the files it
+ * provides in place of rod's defaults. The manifest is validated before
+ * anything is generated, and every problem is reported at once.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Language, isSupportedAIAssistant } from '../../types/cli-config';
+import {
+  TEMPLATE_MANIFEST_FILES,
+  TemplateManifest,
+  TemplateOverrides,
+  TemplateVariable,
+  TemplateVariableType,
+  TemplateVariableValue
+} from '../../types/project-template';
+import { BUILTIN_VARIABLES } from './template-variables';
+import { parseYaml } from './yaml-parser';
+
+const VARIABLE_TYPES: TemplateVariableType[] = ['string', 'number', 'boolean', 'list'];
+
+// Manifest key -> directory rod reads the default files from
+const OVERRIDE_SECTIONS: Record<keyof TemplateOverrides, string> = {
+  commands: 'commands',
+  specTemplates: 'spec-templates',
+  scripts: 'scripts',
+  memory: 'memory'
+};
+
+/**
+ * Find the manifest file of a template, if it has one
+ */
+export async function findTemplateManifest(templatePath: string): Promise<string | null> {
+  for (const fileName of TEMPLATE_MANIFEST_FILES) {
+    const manifestPath = path.join(templatePath, fileName);
+    try {
+      await fs.access(manifestPath);
+      return manifestPath;
+    } catch {
+      // Try the next supported file name
+    }
+  }
+  return null;
+}
+
+/**
+ * Load and validate the manifest of a template, or return null when the template has none
+ */
+export async function loadTemplateManifest(templatePath: string): Promise<TemplateManifest | null> {
+  const manifestPath = await findTemplateManifest(templatePath);
+  if (!manifestPath) {
+    return null;
+  }
+
+  const content = await fs.readFile(manifestPath, 'utf8');
+  let raw: unknown;
+  try {
+    raw = manifestPath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid template manifest ${manifestPath}: ${(error as Error).message}`);
+  }
+
+  const { manifest, errors } = validateTemplateManifest(raw);
+
+  // Every overridden file must exist inside the template
+  for (const [section, files] of Object.entries(manifest.overrides)) {
+    for (const [name, file] of Object.entries(files as Record<string, string>)) {
+      try {
+        await fs.access(path.join(templatePath, file));
+      } catch {
+        errors.push(`overrides.${section}.${name}: file '${file}' not found in the template`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid template manifest ${manifestPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Validate a parsed manifest, returning it in normalized form along with every problem found
+ */
+export function validateTemplateManifest(raw: unknown): { manifest: TemplateManifest; errors: string[] } {
+  const errors: string[] = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) {
+    errors.push('the manifest must be an object');
+  }
+
+  const requirements = isRecord(data.requirements) ? data.requirements : {};
+  if (data.requirements !== undefined && !isRecord(data.requirements)) {
+    errors.push('requirements must be an object');
+  }
+
+  const manifest: TemplateManifest = {
+    metadata: {
+      name: readString(data, 'name', errors, true) || '',
+      version: readString(data, 'version', errors, true) || '',
+      description: readString(data, 'description', errors) || '',
+      scenarios: readStringList(data, 'scenarios', errors) || [],
+      techStack: readStringList(data, 'techStack', errors) || []
+    },
+    requirements: {
+      rodVersion: readVersion(requirements, 'rodVersion', errors),
+      nodeVersion: readVersion(requirements, 'nodeVersion', errors),
+      aiAssistants: readStringList(requirements, 'aiAssistants', errors, 'requirements.aiAssistants'),
+      locales: readStringList(requirements, 'locales', errors, 'requirements.locales') as Language[] | undefined,
+      platforms: readStringList(requirements, 'platforms', errors, 'requirements.platforms')
+    },
+    variables: readVariables(data.variables, errors),
+    overrides: readOverrides(data.overrides, errors),
+    render: readRenderPaths(data, errors)
+  };
+
+  manifest.requirements.aiAssistants
+    ?.filter(ai => !isSupportedAIAssistant(ai))
+    .forEach(ai => errors.push(`requirements.aiAssistants: unknown AI assistant '${ai}'`));
+  manifest.requirements.locales
+    ?.filter(locale => !Object.values(Language).includes(locale))
+    .forEach(locale => errors.push(`requirements.locales: unknown language '${locale}' (valid: ${Object.values(Language).join(', ')})`));
+
+  return { manifest, errors };
+}
+
+function readVariables(raw: unknown, errors: string[]): TemplateVariable[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!isRecord(raw)) {
+    errors.push('variables must map each variable name to its definition');
+    return [];
+  }
+
+  const variables: TemplateVariable[] = [];
+  for (const [name, definition] of Object.entries(raw)) {
+    const field = `variables.${name}`;
+    if (!/^[A-Za-z_][\w]*$/.test(name)) {
+      errors.push(`${field}: variable names may only contain letters, digits and underscores`);
+      continue;
+    }
+    if (BUILTIN_VARIABLES.includes(name)) {
+      errors.push(`${field}: ${name} is a built-in variable`);
+      continue;
+    }
+    if (!isRecord(definition)) {
+      errors.push(`${field} must be an object`);
+      continue;
+    }
+
+    const type = (definition.type ?? 'string') as TemplateVariableType;
+    if (!VARIABLE_TYPES.includes(type)) {
+      errors.push(`${field}.type must be one of ${VARIABLE_TYPES.join(', ')}`);
+      continue;
+    }
+
+    const variable: TemplateVariable = { name, type };
+    const description = readString(definition, 'description', errors, false, field);
+    if (description !== undefined) {
+      variable.description = description;
+    }
+    if (definition.required !== undefined) {
+      if (typeof definition.required !== 'boolean') {
+        errors.push(`${field}.required must be true or false`);
+      } else {
+        variable.required = definition.required;
+      }
+    }
+
+    if (definition.pattern !== undefined) {
+      if (type !== 'string' || typeof definition.pattern !== 'string') {
+        errors.push(`${field}.pattern is only allowed on string variables and must be a string`);
+      } else {
+        try {
+          new RegExp(definition.pattern);
+          variable.pattern = definition.pattern;
+        } catch {
+          errors.push(`${field}.pattern is not a valid regular expression`);
+        }
+      }
+    }
+
+    if (definition.default !== undefined && definition.default !== null) {
+      if (type === 'list'
+        ? !Array.isArray(definition.default) || definition.default.some(item => typeof item !== 'string')
+        : typeof definition.default !== type) {
+        errors.push(`${field}.default must be a ${type}`);
+      } else if (variable.pattern && !new RegExp(variable.pattern).test(String(definition.default))) {
+        errors.push(`${field}.default does not match the pattern ${variable.pattern}`);
+      } else {
+        variable.default = definition.default as TemplateVariableValue;
+      }
+    }
+
+    variables.push(variable);
+  }
+
+  return variables;
+}
+
+function readOverrides(raw: unknown, errors: string[]): TemplateOverrides {
+  const overrides: TemplateOverrides = { commands: {}, specTemplates: {}, scripts: {}, memory: {} };
+  if (raw === undefined || raw === null) {
+    return overrides;
+  }
+  if (!isRecord(raw)) {
+    errors.push('overrides must be an object');
+    return overrides;
+  }
+
+  for (const [section, files] of Object.entries(raw)) {
+    if (!(section in OVERRIDE_SECTIONS)) {
+      errors.push(`overrides.${section}: unknown section (valid: ${Object.keys(OVERRIDE_SECTIONS).join(', ')})`);
+      continue;
+    }
+    if (!isRecord(files)) {
+      errors.push(`overrides.${section} must map each name to a file in the template`);
+      continue;
+    }
+
+    for (const [name, file] of Object.entries(files)) {
+      const field = `overrides.${section}.${name}`;
+      if (typeof file !== 'string' || file.trim() === '') {
+        errors.push(`${field} must be a file path`);
+      } else if (!isTemplatePath(file)) {
+        errors.push(`${field}: '${file}' must be a path inside the template`);
+      } else if (!/^[\w.-]+$/.test(name) || /^\.+$/.test(name)) {
+        // A file name in the destination directory, never . or ..
+        errors.push(`${field}: invalid name`);
+      } else {
+        overrides[section as keyof TemplateOverrides][name] = file;
+      }
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Paths are normalized without a trailing separator; '.' stands for the whole template
+ */
+function readRenderPaths(data: Record<string, unknown>, errors: string[]): string[] {
+  const render: string[] = [];
+  for (const file of readStringList(data, 'render', errors) || []) {
+    if (file.trim() === '' || !isTemplatePath(file)) {
+      errors.push(`render: '${file}' must be a path inside the template`);
+    } else {
+      render.push(path.normalize(file).replace(/[\\/]+$/, ''));
+    }
+  }
+  return render;
+}
+
+function isTemplatePath(file: string): boolean {
+  return !path.isAbsolute(file) && path.normalize(file).split(path.sep)[0] !== '..';
+}
+
+function readString(
+  data: Record<string, unknown>,
+  key: string,
+  errors: string[],
+  required = false,
+  prefix?: string
+): string | undefined {
+  const field = prefix ? `${prefix}.${key}` : key;
+  const value = data[key];
+
+  if (value === undefined || value === null) {
+    if (required) {
+      errors.push(`${field} is required`);
+    }
+    return undefined;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  return String(value);
+}
+
+function readStringList(data: Record<string, unknown>, key: string, errors: string[], field = key): string[] | undefined {
+  const value = data[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    errors.push(`${field} must be a list of strings`);
+    return undefined;
+  }
+  return value;
+}
+
+function readVersion(data: Record<string, unknown>, key: string, errors: string[]): string | undefined {
+  const value = readString(data, key, errors, false, 'requirements');
+  if (value !== undefined && !/^(>=\s*)?v?\d+(\.\d+){0,2}$/.test(value)) {
+    errors.push(`requirements.${key} must be a version such as 1.2.0 or >=1.2.0`);
+    return undefined;
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
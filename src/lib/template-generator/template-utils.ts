@@ -4,52 +4,51 @@
  * Common utility functions shared across template generators
  */
 
-import { AIAssistant, ScriptType } from '../../types/cli-config';
+import { AssistantId, Language, ScriptType, isSupportedAIAssistant } from '../../types/cli-config';
+import { FileOperation } from '../../types/results';
+import { FileWriter } from './file-writer';
+import { localize, resolveLocalizedPath } from './locale';
+import { renderTemplate } from './template-engine';
+import { TemplateVariableValues } from '../../types/project-template';
 
 /**
  * Generate roadmap workflow files
  */
 export async function generateRoadmapWorkflow(
   projectPath: string,
-  projectName: string,
+  placeholders: TemplateVariableValues,
   templateBasePath: string,
-  filesCreated: string[]
+  filesCreated: string[],
+  writer: FileWriter = new FileWriter(),
+  language?: Language
 ): Promise<void> {
   const { promises: fs } = await import('fs');
   const path = await import('path');
 
   const specsDir = path.join(projectPath, 'specs');
-  await fs.mkdir(specsDir, { recursive: true });
+  await writer.ensureDirectory(specsDir);
 
   // Create initial roadmap from template
-  const roadmapSourcePath = path.join(templateBasePath, 'spec-templates', 'roadmap-template.md');
+  const roadmapSourcePath = await resolveLocalizedPath(templateBasePath, path.join('spec-templates', 'roadmap-template.md'), language);
   const roadmapDestPath = path.join(specsDir, 'roadmap.md');
 
   try {
-    let roadmapContent = await fs.readFile(roadmapSourcePath, 'utf8');
+    // Fill in the project name, creation date and template variables
+    const roadmapContent = renderTemplate(await fs.readFile(roadmapSourcePath, 'utf8'), placeholders, roadmapSourcePath);
 
-    // Replace project name placeholder
-    roadmapContent = roadmapContent.replace(/\[项目名称\]/g, projectName);
-    roadmapContent = roadmapContent.replace(/\[Project Name\]/g, projectName);
-
-    // Add creation timestamp
-    const now = new Date().toISOString().split('T')[0];
-    roadmapContent = roadmapContent.replace(/\[创建时间\]/g, now);
-    roadmapContent = roadmapContent.replace(/\[Creation Date\]/g, now);
-
-    await fs.writeFile(roadmapDestPath, roadmapContent, 'utf8');
-    filesCreated.push(roadmapDestPath);
+    await writer.writeFile(roadmapDestPath, roadmapContent, filesCreated);
   } catch (error) {
     throw new Error(`Failed to generate roadmap: ${(error as Error).message}`);
   }
 
   // Create modules directory structure
   const modulesDir = path.join(specsDir, 'modules');
-  await fs.mkdir(modulesDir, { recursive: true });
+  await writer.ensureDirectory(modulesDir);
   filesCreated.push(modulesDir);
 
   // Create README for modules directory
-  const modulesReadmeContent = `# 模块目录
+  const modulesReadmeContent = localize(language, {
+    zh: `# 模块目录
 
 此目录包含项目的各个模块规范。每个模块应包含以下文件：
 
@@ -68,11 +67,31 @@ export async function generateRoadmapWorkflow(
 3. 使用 \`/plan\` 生成设计文档
 4. 使用 \`/tasks\` 创建任务清单
 5. 使用 \`/progress\` 同步进度到roadmap
-`;
+`,
+    en: `# Modules
+
+This directory holds the specifications of the project's modules. Each module contains:
+
+- \`spec.md\` - specification
+- \`plan.md\` - design document
+- \`tasks.md\` - task list
+
+## Module Structure
+
+Modules can be nested: a module keeps its sub-modules in a \`modules/\` subdirectory.
+
+## Usage
+
+1. Create a module with \`/module <module-name>\`
+2. Write its specification with \`/specify\`
+3. Generate the design documents with \`/plan\`
+4. Create the task list with \`/tasks\`
+5. Sync the progress to the roadmap with \`/progress\`
+`
+  });
 
   const modulesReadmePath = path.join(modulesDir, 'README.md');
-  await fs.writeFile(modulesReadmePath, modulesReadmeContent, 'utf8');
-  filesCreated.push(modulesReadmePath);
+  await writer.writeFile(modulesReadmePath, modulesReadmeContent, filesCreated);
 }
 
 /**
@@ -97,15 +116,31 @@ export async function calculateTotalSize(filesCreated: string[]): Promise<{ tota
   return { totalSize, warnings };
 }
 
+/**
+ * Calculate total size of planned operations (dry-run mode)
+ */
+export function calculatePlannedSize(operations: FileOperation[]): number {
+  return operations.reduce((sum, op) => sum + (op.size || 0), 0);
+}
+
+/**
+ * Get every assistant to generate files for
+ */
+export function getAIAssistants(config: { aiAssistant: AssistantId; aiAssistants?: AssistantId[] }): AssistantId[] {
+  return config.aiAssistants && config.aiAssistants.length > 0 ? config.aiAssistants : [config.aiAssistant];
+}
+
 /**
  * Validate template generation configuration
  */
 export function validateConfig(config: {
-  aiAssistant: AIAssistant;
+  aiAssistant: AssistantId;
+  aiAssistants?: AssistantId[];
   scriptType: ScriptType;
   projectPath: string;
   projectName: string;
   templateName?: string;
+  language?: Language;
 }): void {
   if (!config.aiAssistant) {
     throw new Error('AI assistant is required');
@@ -124,11 +159,17 @@ export function validateConfig(config: {
   }
 
   // Validate enum values
-  if (!Object.values(AIAssistant).includes(config.aiAssistant)) {
-    throw new Error(`Invalid AI assistant: ${config.aiAssistant}`);
+  for (const aiAssistant of getAIAssistants(config)) {
+    if (!isSupportedAIAssistant(aiAssistant)) {
+      throw new Error(`Invalid AI assistant: ${aiAssistant}`);
+    }
   }
 
   if (!Object.values(ScriptType).includes(config.scriptType)) {
     throw new Error(`Invalid script type: ${config.scriptType}`);
   }
+
+  if (config.language && !Object.values(Language).includes(config.language)) {
+    throw new Error(`Invalid language: ${config.language}`);
+  }
 }
\ No newline at end of file
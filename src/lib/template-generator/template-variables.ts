@@ -0,0 +1,229 @@
+/**
+ * Template Variables
+ *
+ * One placeholder engine for every generated file. Built-in variables
+ * ({{PROJECT_NAME}}, {{DATE}}, ...) are always available; templates declare
+ * their own in the manifest, and users supply them with --var, a --vars
+ * file or interactive prompts.
+ */
+
+import { promises as fs } from 'fs';
+import { TemplateVariable, TemplateVariableValue, TemplateVariableValues } from '../../types/project-template';
+import { TemplateGenerationConfig } from '../template-generator';
+import { askQuestion } from '../prompt';
+import { DEFAULT_LANGUAGE } from './locale';
+
+// Always available; templates cannot declare variables with these names
+export const BUILTIN_VARIABLES = ['PROJECT_NAME', 'AI_ASSISTANT', 'AI_ASSISTANTS', 'SCRIPT_TYPE', 'LANGUAGE', 'DATE', 'YEAR'];
+
+// Placeholders used by rod's own templates before variables existed
+const LEGACY_PLACEHOLDERS: Record<string, string> = {
+  '[项目名称]': 'PROJECT_NAME',
+  '[Project Name]': 'PROJECT_NAME',
+  '[创建时间]': 'DATE',
+  '[Creation Date]': 'DATE'
+};
+
+export interface ResolvedVariables {
+  values: TemplateVariableValues;
+  warnings: string[];                 // Supplied variables the template does not declare
+}
+
+export interface ResolveVariablesOptions {
+  previous?: TemplateVariableValues;  // Values saved in .rod/config.json by an earlier run
+  prompt?: boolean;                   // Ask for values that were not supplied
+}
+
+/**
+ * Get the values of every placeholder: the built-in variables plus the template's
+ *
+ * AI_ASSISTANT is the first assistant; files shared by several assistants use AI_ASSISTANTS.
+ */
+export function getPlaceholderValues(
+  config: Pick<TemplateGenerationConfig, 'projectName' | 'aiAssistant' | 'aiAssistants' | 'scriptType' | 'language' | 'variables'>
+): TemplateVariableValues {
+  const now = new Date();
+
+  return {
+    ...config.variables,
+    PROJECT_NAME: config.projectName,
+    AI_ASSISTANT: config.aiAssistant,
+    AI_ASSISTANTS: config.aiAssistants && config.aiAssistants.length > 0 ? config.aiAssistants : [config.aiAssistant],
+    SCRIPT_TYPE: config.scriptType,
+    LANGUAGE: config.language || DEFAULT_LANGUAGE,
+    DATE: now.toISOString().split('T')[0],
+    YEAR: now.getFullYear().toString()
+  };
+}
+
+/**
+ * Replace {{NAME}} placeholders (and rod's legacy [项目名称]-style ones) with their values
+ *
+ * Placeholders without a value are left as they are.
+ */
+export function replacePlaceholders(content: string, values: TemplateVariableValues): string {
+  let result = content.replace(/\{\{\s*(@?[A-Za-z_]\w*)\s*\}\}/g, (match, name: string) =>
+    name in values ? formatValue(values[name]) : match
+  );
+
+  for (const [placeholder, name] of Object.entries(LEGACY_PLACEHOLDERS)) {
+    if (name in values) {
+      result = result.split(placeholder).join(formatValue(values[name]));
+    }
+  }
+
+  return result;
+}
+
+function formatValue(value: TemplateVariableValue): string {
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Parse a --var key=value assignment
+ */
+export function parseVariableAssignment(assignment: string): [string, string] {
+  const separator = assignment.indexOf('=');
+  if (separator <= 0) {
+    throw new Error(`Invalid variable '${assignment}': expected key=value`);
+  }
+  return [assignment.slice(0, separator).trim(), assignment.slice(separator + 1)];
+}
+
+/**
+ * Read variable values from a JSON file of key -> string, number, boolean or list of strings
+ */
+export async function loadVariablesFile(filePath: string): Promise<TemplateVariableValues> {
+  let values: unknown;
+  try {
+    values = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read variables file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    throw new Error(`Invalid variables file ${filePath}: expected an object of key -> value`);
+  }
+  for (const [name, value] of Object.entries(values)) {
+    const isList = Array.isArray(value) && value.every(item => typeof item === 'string');
+    if (!isList && !['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new Error(`Invalid variables file ${filePath}: '${name}' must be a string, number, boolean or list of strings`);
+    }
+  }
+
+  return values as TemplateVariableValues;
+}
+
+/**
+ * Resolve the value of every declared variable from the supplied values, the
+ * project's previous values, prompts and defaults, reporting every problem at once
+ *
+ * Supplied variables the template does not declare are ignored with a warning,
+ * so values saved for an older version of the template don't break an upgrade.
+ */
+export async function resolveTemplateVariables(
+  declared: TemplateVariable[],
+  supplied: TemplateVariableValues,
+  options: ResolveVariablesOptions = {}
+): Promise<ResolvedVariables> {
+  const errors: string[] = [];
+  const values: TemplateVariableValues = {};
+
+  const declaredNames = declared.map(variable => variable.name);
+  const warnings = Object.keys(supplied)
+    .filter(name => !declaredNames.includes(name))
+    .map(name => `Ignoring variable '${name}': the template does not declare it (declared: ${declaredNames.join(', ') || 'none'})`);
+
+  for (const variable of declared) {
+    let value: TemplateVariableValue | undefined = supplied[variable.name] ?? options.previous?.[variable.name];
+
+    if (value === undefined && options.prompt) {
+      value = await promptVariable(variable);
+    }
+    value = value ?? variable.default;
+
+    if (value === undefined) {
+      if (variable.required) {
+        errors.push(`${variable.name} is required${variable.description ? ` (${variable.description})` : ''}`);
+      }
+      continue;
+    }
+
+    try {
+      values[variable.name] = coerceVariable(variable, value);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid template variables:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return { values, warnings };
+}
+
+/**
+ * Convert a value to the variable's type and check it against its pattern
+ */
+export function coerceVariable(variable: TemplateVariable, value: TemplateVariableValue): TemplateVariableValue {
+  switch (variable.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (String(value).trim() === '' || Number.isNaN(number)) {
+        throw new Error(`${variable.name} must be a number, got '${value}'`);
+      }
+      return number;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (/^(true|yes|y|1)$/i.test(String(value))) {
+        return true;
+      }
+      if (/^(false|no|n|0)$/i.test(String(value))) {
+        return false;
+      }
+      throw new Error(`${variable.name} must be true or false, got '${value}'`);
+
+    case 'list':
+      // A comma-separated string (from --var or a prompt) or a list
+      return (Array.isArray(value) ? value : String(value).split(','))
+        .map(item => String(item).trim())
+        .filter(item => item !== '');
+
+    default: {
+      const text = String(value);
+      if (variable.pattern && !new RegExp(variable.pattern).test(text)) {
+        throw new Error(`${variable.name} must match ${variable.pattern}, got '${text}'`);
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * Ask for a variable until the answer is valid; an empty answer keeps the default
+ */
+async function promptVariable(variable: TemplateVariable): Promise<TemplateVariableValue | undefined> {
+  const hint = variable.default !== undefined ? ` [${variable.default}]` : '';
+  const description = variable.description ? ` - ${variable.description}` : '';
+
+  for (;;) {
+    const answer = await askQuestion(`${variable.name}${description}${hint}: `);
+    if (answer === '') {
+      if (variable.default !== undefined || !variable.required) {
+        return undefined;
+      }
+      continue;
+    }
+
+    try {
+      return coerceVariable(variable, answer);
+    } catch (error) {
+      console.log((error as Error).message);
+    }
+  }
+}
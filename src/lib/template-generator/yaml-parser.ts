@@ -0,0 +1,234 @@
+/**
+ * YAML Parser
+ *
+ * Parses the subset of YAML used by template manifests: nested mappings,
+ * lists of scalars (block or [a, b] flow style) and plain, quoted, numeric,
+ * boolean and null scalars. Anchors, multi-line strings and lists of
+ * mappings are not supported and are reported as errors.
+ */
+
+interface YamlLine {
+  number: number;   // 1-based line number in the source
+  indent: number;
+  text: string;     // Content without indentation and comments
+}
+
+/**
+ * Parse a YAML document into plain objects, arrays and scalars
+ */
+export function parseYaml(content: string): unknown {
+  const lines = toLines(content);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const [value, next] = parseBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw yamlError(lines[next], 'unexpected indentation');
+  }
+  return value;
+}
+
+function toLines(content: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    if (raw.includes('\t')) {
+      throw new Error(`Line ${index + 1}: tabs are not allowed for indentation`);
+    }
+
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '' || text.trim() === '---') {
+      return;
+    }
+    lines.push({ number: index + 1, indent: text.length - text.trimStart().length, text: text.trim() });
+  });
+
+  return lines;
+}
+
+/**
+ * Remove a trailing comment, leaving # inside quotes alone
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+
+  return line;
+}
+
+function parseBlock(lines: YamlLine[], start: number, indent: number): [unknown, number] {
+  return isListItem(lines[start].text)
+    ? parseList(lines, start, indent)
+    : parseMapping(lines, start, indent);
+}
+
+function parseList(lines: YamlLine[], start: number, indent: number): [unknown[], number] {
+  const items: unknown[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && isListItem(lines[i].text)) {
+    const line = lines[i];
+    const rest = line.text.slice(1).trim();
+
+    if (rest === '') {
+      // The item is a nested block on the following lines
+      if (i + 1 >= lines.length || lines[i + 1].indent <= indent) {
+        items.push(null);
+        i++;
+        continue;
+      }
+      const [value, next] = parseBlock(lines, i + 1, lines[i + 1].indent);
+      items.push(value);
+      i = next;
+    } else {
+      if (splitKey(rest)) {
+        throw yamlError(line, 'mappings inside lists are not supported');
+      }
+      items.push(parseScalar(rest, line));
+      i++;
+    }
+  }
+
+  return [items, i];
+}
+
+function parseMapping(lines: YamlLine[], start: number, indent: number): [Record<string, unknown>, number] {
+  const mapping: Record<string, unknown> = {};
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent) {
+    const line = lines[i];
+    const entry = splitKey(line.text);
+    if (!entry) {
+      throw yamlError(line, isListItem(line.text) ? 'list item where a key was expected' : 'expected "key: value"');
+    }
+
+    const [key, rawValue] = entry;
+    if (key in mapping) {
+      throw yamlError(line, `duplicate key "${key}"`);
+    }
+    i++;
+
+    if (rawValue !== '') {
+      mapping[key] = parseScalar(rawValue, line);
+    } else if (i < lines.length && (lines[i].indent > indent || (lines[i].indent === indent && isListItem(lines[i].text)))) {
+      // Nested block, or a list at the key's own indentation
+      const [value, next] = parseBlock(lines, i, lines[i].indent);
+      mapping[key] = value;
+      i = next;
+    } else {
+      mapping[key] = null;
+    }
+  }
+
+  if (i < lines.length && lines[i].indent > indent) {
+    throw yamlError(lines[i], 'unexpected indentation');
+  }
+
+  return [mapping, i];
+}
+
+function isListItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Split "key: value" into its parts, or return null when the text is not a mapping entry
+ */
+function splitKey(text: string): [string, string] | null {
+  const quoted = text.match(/^(["'])(.*?)\1\s*:(?:\s+(.*))?$/);
+  if (quoted) {
+    return [quoted[2], (quoted[3] || '').trim()];
+  }
+
+  const plain = text.match(/^([^\s"'[{#-][^:]*?)\s*:(?:\s+(.*))?$/);
+  return plain ? [plain[1], (plain[2] || '').trim()] : null;
+}
+
+function parseScalar(text: string, line: YamlLine): unknown {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw yamlError(line, 'unterminated list');
+    }
+    const inner = text.slice(1, -1).trim();
+    return inner === '' ? [] : splitFlowItems(inner).map(item => parseScalar(item, line));
+  }
+
+  if (text === '{}') {
+    return {};
+  }
+  if (text.startsWith('{')) {
+    throw yamlError(line, 'inline mappings are not supported, use an indented block');
+  }
+
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw yamlError(line, 'invalid double-quoted string');
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) {
+      throw yamlError(line, 'invalid single-quoted string');
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === 'true';
+  }
+  if (/^(null|~)$/i.test(text)) {
+    return null;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  if (/^[|>&*!]/.test(text)) {
+    throw yamlError(line, `unsupported YAML syntax "${text[0]}"`);
+  }
+
+  return text;
+}
+
+/**
+ * Split the items of a [a, "b, c"] flow list, keeping commas inside quotes
+ */
+function splitFlowItems(text: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of text) {
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current.trim());
+
+  return items;
+}
+
+function yamlError(line: YamlLine, message: string): Error {
+  return new Error(`Line ${line.number}: ${message}`);
+}
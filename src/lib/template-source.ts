@@ -0,0 +1,220 @@
+/**
+ * Template Sources
+ *
+ * Besides the name of a template in the npm package, --template accepts:
+ * - a directory: ./my-template, ../shared/svc, /abs/path, ~/templates/svc
+ * - a file: URL: file:./my-template, file:///abs/path
+ * - a git repository pinned to a tag or commit: git+https://host/team/svc.git#v1.2.0
+ *   (also git+ssh:// and git+file://), cloned once into ~/.rod/cache/git/<repo>/<commit>
+ */
+
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export type TemplateSource =
+  | { type: 'npm'; name: string }
+  | { type: 'local'; path: string }
+  | { type: 'git'; url: string; ref: string };
+
+// Git clones can be slow on large repositories, but must not hang forever
+const GIT_TIMEOUT = 120000;
+
+/**
+ * Get the directory remote templates are cached in
+ */
+export function getTemplateCacheDir(): string {
+  return path.join(os.homedir(), '.rod', 'cache');
+}
+
+/**
+ * Work out where a --template value points to
+ */
+export function parseTemplateSource(template: string, cwd: string = process.cwd()): TemplateSource {
+  if (template.startsWith('git+')) {
+    const [url, ref] = template.slice('git+'.length).split('#');
+    if (!ref) {
+      throw new Error(`Pin the git template to a tag or commit, e.g. ${template}#v1.0.0`);
+    }
+    if (!isValidGitRef(ref)) {
+      throw new Error(`Invalid git ref '${ref}' in ${template}`);
+    }
+    return { type: 'git', url, ref };
+  }
+
+  if (template.startsWith('file:')) {
+    return {
+      type: 'local',
+      path: template.startsWith('file://') ? fileURLToPath(template) : path.resolve(cwd, template.slice('file:'.length))
+    };
+  }
+
+  if (template === '~' || template.startsWith('~/')) {
+    return { type: 'local', path: path.join(os.homedir(), template.slice(1)) };
+  }
+
+  if (path.isAbsolute(template) || template.startsWith('.') || /[\\/]/.test(template)) {
+    return { type: 'local', path: path.resolve(cwd, template) };
+  }
+
+  return { type: 'npm', name: template };
+}
+
+/**
+ * Normalize a --template value for .rod/config.json: directories become absolute
+ * so later commands find them from any working directory
+ */
+export function normalizeTemplateName(template: string): string {
+  const source = parseTemplateSource(template);
+  return source.type === 'local' ? source.path : template;
+}
+
+/**
+ * Remove the credentials from a git template URL before it is saved into the project
+ *
+ * http(s) URLs lose their whole user info (often an access token); other URLs keep
+ * the user name, e.g. the git in git+ssh://git@host/repo.git, and lose the password.
+ */
+export function redactTemplateName(template: string): string {
+  if (!template.startsWith('git+')) {
+    return template;
+  }
+
+  const [url, ref] = template.slice('git+'.length).split('#');
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return template;
+  }
+  if (!parsed.username && !parsed.password) {
+    return template;
+  }
+
+  if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+    parsed.username = '';
+  }
+  parsed.password = '';
+  return `git+${parsed.href}${ref === undefined ? '' : `#${ref}`}`;
+}
+
+/**
+ * Resolve a local or git template source to a directory
+ */
+export async function resolveTemplateSource(source: Exclude<TemplateSource, { type: 'npm' }>): Promise<string> {
+  if (source.type === 'git') {
+    return fetchGitTemplate(source.url, source.ref);
+  }
+
+  const stat = await fs.stat(source.path).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Template directory not found: ${source.path}`);
+  }
+  return source.path;
+}
+
+/**
+ * Check out a git template at the given ref into the cache, reusing an earlier checkout
+ *
+ * Checkouts are stored per commit; refs.json maps the tags and short commits used so
+ * far to their commit, so a cached template is found without the network.
+ */
+export async function fetchGitTemplate(url: string, ref: string, cacheDir: string = getTemplateCacheDir()): Promise<string> {
+  if (!isValidGitRef(ref)) {
+    throw new Error(`Invalid git ref '${ref}' for template ${url}`);
+  }
+
+  const repoKey = createHash('sha256').update(url).digest('hex').slice(0, 16);
+  const repoDir = path.join(cacheDir, 'git', repoKey);
+  const refsPath = path.join(repoDir, 'refs.json');
+  const refs: Record<string, string> = await fs.readFile(refsPath, 'utf8').then(JSON.parse, () => ({}));
+
+  const pinnedCommit = /^[0-9a-f]{40}$/i.test(ref) ? ref.toLowerCase() : refs[ref];
+  if (pinnedCommit && await isCheckoutOf(path.join(repoDir, pinnedCommit), pinnedCommit)) {
+    return path.join(repoDir, pinnedCommit);
+  }
+
+  // Check out next to the target and move it into place once complete
+  const checkoutDir = path.join(repoDir, `checkout.tmp-${process.pid}`);
+  await fs.rm(checkoutDir, { recursive: true, force: true });
+  await fs.mkdir(repoDir, { recursive: true });
+
+  let targetDir: string;
+  try {
+    await runGit(repoDir, ['clone', '--quiet', '--no-checkout', '--', url, checkoutDir]);
+    const commit = await resolvePinnedRef(checkoutDir, ref);
+    await runGit(checkoutDir, ['-c', 'advice.detachedHead=false', 'checkout', '--quiet', commit, '--']);
+
+    targetDir = path.join(repoDir, commit);
+    if (await isCheckoutOf(targetDir, commit)) {
+      await fs.rm(checkoutDir, { recursive: true, force: true });
+    } else {
+      await fs.rm(targetDir, { recursive: true, force: true });
+      await fs.rename(checkoutDir, targetDir);
+    }
+
+    if (ref.toLowerCase() !== commit) {
+      await fs.writeFile(refsPath, JSON.stringify({ ...refs, [ref]: commit }, null, 2) + '\n');
+    }
+  } catch (error) {
+    await fs.rm(checkoutDir, { recursive: true, force: true });
+    throw new Error(`Failed to fetch template ${url}#${ref}: ${(error as Error).message}`);
+  }
+
+  return targetDir;
+}
+
+/**
+ * Tag and commit names, without . or .. segments that would lead out of the cache
+ */
+function isValidGitRef(ref: string): boolean {
+  return /^[\w.][\w./-]*$/.test(ref) && !ref.split('/').some(segment => /^\.+$/.test(segment));
+}
+
+/**
+ * Whether a cached directory is a checkout of the commit
+ */
+async function isCheckoutOf(dir: string, commit: string): Promise<boolean> {
+  // Without its own .git, rev-parse would answer for a repository the cache lives in
+  if (!(await fs.access(path.join(dir, '.git')).then(() => true, () => false))) {
+    return false;
+  }
+  const head = await runGit(dir, ['rev-parse', 'HEAD']).catch(() => '');
+  return head === commit;
+}
+
+/**
+ * Resolve a tag or commit to the commit it points to
+ *
+ * Branches are rejected: they move, but the checkout is cached under the ref's name.
+ */
+async function resolvePinnedRef(repoDir: string, ref: string): Promise<string> {
+  const tagCommit = await runGit(repoDir, ['rev-parse', '--verify', '--quiet', `refs/tags/${ref}^{commit}`]).catch(() => '');
+  if (tagCommit) {
+    return tagCommit;
+  }
+
+  if (/^[0-9a-f]{7,40}$/i.test(ref)) {
+    const commit = await runGit(repoDir, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).catch(() => '');
+    if (commit.startsWith(ref.toLowerCase())) {
+      return commit;
+    }
+  }
+
+  throw new Error(`'${ref}' is not a tag or commit of the repository; pin the template to a tag or commit, not a branch`);
+}
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, env: process.env, timeout: GIT_TIMEOUT }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error((stderr || error.message).trim()));
+        return;
+      }
+      resolve(stdout.trim());
+    });
+  });
+}
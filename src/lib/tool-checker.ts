@@ -22,7 +22,7 @@ import {
   SystemCheckUtils
 } from '../types/system';
 
-import { AIAssistant } from '../types/cli-config';
+import { AssistantId } from '../types/cli-config';
 
 export class ToolChecker {
   private cache: Map<string, ToolCheckResult> = new Map();
@@ -147,12 +147,13 @@ export class ToolChecker {
   /**
    * Perform comprehensive system check
    */
-  async performSystemCheck(aiAssistant?: AIAssistant): Promise<SystemCheck> {
+  async performSystemCheck(aiAssistant?: AssistantId | AssistantId[]): Promise<SystemCheck> {
     const systemInfo = await this.getSystemInfo();
+    const aiAssistants = Array.isArray(aiAssistant) ? aiAssistant : aiAssistant ? [aiAssistant] : [];
     
-    // Get tools to check based on platform and AI assistant
+    // Get tools to check based on platform and AI assistants
     const platformTools = ToolRegistry.getToolsForPlatform(systemInfo.platform);
-    const aiTools = aiAssistant ? ToolRegistry.getToolsForAI(aiAssistant) : [];
+    const aiTools = aiAssistants.flatMap(ai => ToolRegistry.getToolsForAI(ai));
     
     // Combine and deduplicate tools
     const allTools = [...platformTools, ...aiTools];
@@ -167,12 +168,10 @@ export class ToolChecker {
     // Generate summary
     const summary = SystemCheckUtils.createSummary(toolResults, systemInfo);
     
-    // Generate recommendations
-    const recommendations = SystemCheckUtils.generateRecommendations(
-      toolResults, 
-      systemInfo, 
-      aiAssistant
-    );
+    // Generate recommendations (shared ones are only listed once)
+    const recommendations = aiAssistants.length > 0
+      ? [...new Set(aiAssistants.flatMap(ai => SystemCheckUtils.generateRecommendations(toolResults, systemInfo, ai)))]
+      : SystemCheckUtils.generateRecommendations(toolResults, systemInfo);
 
     return {
       nodeVersion: systemInfo.nodeVersion,
@@ -195,7 +194,7 @@ export class ToolChecker {
   /**
    * Get recommendations for missing tools
    */
-  async getInstallationRecommendations(aiAssistant?: AIAssistant): Promise<string[]> {
+  async getInstallationRecommendations(aiAssistant?: AssistantId): Promise<string[]> {
     const systemCheck = await this.performSystemCheck(aiAssistant);
     return systemCheck.recommendations;
   }
@@ -10,18 +10,42 @@ export enum AIAssistant {
   COPILOT = 'copilot',
   GEMINI = 'gemini',
   CURSOR = 'cursor',
-  CODEBUDDY = 'codebuddy'
+  CODEBUDDY = 'codebuddy',
+  WINDSURF = 'windsurf',
+  CODEX = 'codex',
+  CLINE = 'cline',
+  ROO = 'roo',
+  QWEN = 'qwen',
+  OPENCODE = 'opencode'
 }
 
+// An assistant rod generates files for: a built-in one or the id of a processor plugin
+export type AssistantId = AIAssistant | string;
+
 // Script Type Enumeration (Node.js only)
 export enum ScriptType {
   NODE = 'node'
 }
 
+// How to handle files that already exist in the project
+export enum ConflictPolicy {
+  SKIP = 'skip',
+  OVERWRITE = 'overwrite',
+  BACKUP = 'backup',
+  PROMPT = 'prompt'
+}
+
+// Language of the generated commands, templates and instructions
+export enum Language {
+  ZH = 'zh',
+  EN = 'en'
+}
+
 // Main CLI Configuration Interface
 export interface CLIConfig {
   projectName: string;           // Project name
-  aiAssistant: AIAssistant;      // Selected AI assistant
+  aiAssistant: AssistantId;      // Selected AI assistant (the first one when several are selected)
+  aiAssistants?: AssistantId[];  // All selected AI assistants
   scriptType: ScriptType;        // Script type (Node.js only)
   projectPath: string;           // Project path (absolute)
   skipGit: boolean;              // Skip git initialization
@@ -30,6 +54,15 @@ export interface CLIConfig {
   debug: boolean;                // Debug mode
 }
 
+// Project configuration stored in .rod/config.json
+export interface ProjectConfig {
+  aiAssistants: AssistantId[];   // Assistants whose files are generated for the project
+  scriptType: ScriptType;        // Script type (Node.js only)
+  template?: string;             // Template the project was created from
+  language?: Language;           // Language of the generated files (defaults to zh)
+  variables?: Record<string, string | number | boolean | string[]>; // Values of the template's variables
+}
+
 // Configuration validation result
 export interface ConfigValidationResult {
   valid: boolean;
@@ -52,11 +85,17 @@ export class CLIConfigBuilder {
     return this;
   }
 
-  setAIAssistant(ai: AIAssistant): CLIConfigBuilder {
+  setAIAssistant(ai: AssistantId): CLIConfigBuilder {
     this.config.aiAssistant = ai;
     return this;
   }
 
+  setAIAssistants(assistants: AssistantId[]): CLIConfigBuilder {
+    this.config.aiAssistants = assistants;
+    this.config.aiAssistant = assistants[0];
+    return this;
+  }
+
   setScriptType(script: ScriptType): CLIConfigBuilder {
     this.config.scriptType = script;
     return this;
@@ -112,10 +151,14 @@ export function validateCLIConfig(config: Partial<CLIConfig>): ConfigValidationR
   // Validate AI assistant
   if (!config.aiAssistant) {
     errors.push('AI assistant selection is required');
-  } else if (!Object.values(AIAssistant).includes(config.aiAssistant)) {
+  } else if (!isSupportedAIAssistant(config.aiAssistant)) {
     errors.push(`Invalid AI assistant: ${config.aiAssistant}`);
   }
 
+  (config.aiAssistants || [])
+    .filter(assistant => !isSupportedAIAssistant(assistant))
+    .forEach(assistant => errors.push(`Invalid AI assistant: ${assistant}`));
+
   // Validate script type (optional - will be auto-detected if not provided)
   if (config.scriptType && !Object.values(ScriptType).includes(config.scriptType)) {
     errors.push(`Invalid script type: ${config.scriptType}`);
@@ -157,14 +200,45 @@ export function isAbsolutePath(path: string): boolean {
   return /^([A-Za-z]:[\\/]|\/|\\\\)/.test(path);
 }
 
-export function getSupportedAIAssistants(): AIAssistant[] {
-  return Object.values(AIAssistant);
+// Assistant ids added by processor plugins (see ProcessorRegistry)
+const pluginAssistants: string[] = [];
+
+/**
+ * Accept an assistant id provided by a processor plugin
+ */
+export function registerAIAssistant(id: string): void {
+  if (!isSupportedAIAssistant(id)) {
+    pluginAssistants.push(id);
+  }
+}
+
+export function getSupportedAIAssistants(): AssistantId[] {
+  return [...Object.values(AIAssistant), ...pluginAssistants];
+}
+
+export function isSupportedAIAssistant(value: string): boolean {
+  return getSupportedAIAssistants().includes(value);
+}
+
+/**
+ * Split a comma-separated assistant list (e.g. "claude,cursor,copilot"), dropping duplicates
+ */
+export function parseAIAssistantList(value: string): string[] {
+  const assistants = value
+    .split(',')
+    .map(assistant => assistant.trim().toLowerCase())
+    .filter(assistant => assistant.length > 0);
+  return [...new Set(assistants)];
 }
 
 export function getSupportedScriptTypes(): ScriptType[] {
   return Object.values(ScriptType);
 }
 
+export function getSupportedConflictPolicies(): ConflictPolicy[] {
+  return Object.values(ConflictPolicy);
+}
+
 
 // Default configuration factory
 export function createDefaultConfig(): Partial<CLIConfig> {
@@ -180,9 +254,12 @@ export function createDefaultConfig(): Partial<CLIConfig> {
 // Configuration utilities
 export class ConfigUtils {
   static fromCommandLineArgs(args: Record<string, any>): Partial<CLIConfig> {
+    const aiAssistants = args.ai ? parseAIAssistantList(args.ai) : undefined;
+
     return {
       projectName: args.projectName,
-      aiAssistant: args.ai as AIAssistant,
+      aiAssistant: aiAssistants?.[0],
+      aiAssistants,
       scriptType: args.script as ScriptType,
       projectPath: args.projectPath,
       skipGit: Boolean(args.noGit),
@@ -195,7 +272,7 @@ export class ConfigUtils {
   static toDisplayString(config: CLIConfig): string {
     return [
       `Project: ${config.projectName}`,
-      `AI Assistant: ${config.aiAssistant}`,
+      `AI Assistant: ${(config.aiAssistants || [config.aiAssistant]).join(', ')}`,
       `Script Type: ${config.scriptType}`,
       `Path: ${config.projectPath}`,
       `Skip Git: ${config.skipGit}`,
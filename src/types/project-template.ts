@@ -1,10 +1,10 @@
 /**
  * Project Template Types
  * 
- * Defines interfaces for handling GitHub template downloads and project templates
+ * Defines interfaces for GitHub template downloads, project templates and template manifests
  */
 
-import { AIAssistant, ScriptType } from './cli-config';
+import { AssistantId, Language, ScriptType, isSupportedAIAssistant } from './cli-config';
 
 // GitHub API Response Types
 export interface GitHubRelease {
@@ -38,30 +38,64 @@ export interface ProjectTemplate {
   size: number;                  // File size in bytes
   downloadUrl: string;           // Download URL
   releaseVersion: string;        // Release version number
-  aiAssistant: AIAssistant;      // Corresponding AI assistant
+  aiAssistant: AssistantId;      // Corresponding AI assistant
   scriptType: ScriptType;        // Corresponding script type
   checksum?: string;             // Optional file checksum for verification
 }
 
+// Template manifest (rod-template.json or rod-template.yaml at the template root)
+export const TEMPLATE_MANIFEST_FILES = ['rod-template.json', 'rod-template.yaml', 'rod-template.yml'];
+
+export interface TemplateManifest {
+  metadata: TemplateMetadata;
+  requirements: TemplateRequirements;
+  variables: TemplateVariable[];
+  overrides: TemplateOverrides;
+  render: string[];              // Template files or directories whose {{#if}}/{{#each}} blocks are rendered
+}
+
 // Template metadata and validation
 export interface TemplateMetadata {
   name: string;
   version: string;
   description: string;
-  aiAssistant: AIAssistant;
-  scriptType: ScriptType;
-  size: number;
-  downloadCount: number;
-  lastUpdated: Date;
-  features: string[];
-  requirements: TemplateRequirements;
+  scenarios: string[];           // What the template is for, e.g. api, backend
+  techStack: string[];           // e.g. node.js, express
 }
 
 export interface TemplateRequirements {
-  nodeVersion: string;
-  npmVersion: string;
-  gitRequired: boolean;
-  platformSupport: string[];
+  rodVersion?: string;           // Minimum rod-cli version
+  nodeVersion?: string;          // Minimum Node.js version
+  aiAssistants?: AssistantId[];  // Assistants the template supports (all when omitted)
+  locales?: Language[];          // Languages the template provides
+  platforms?: string[];          // Supported platforms, as in process.platform (all when omitted)
+}
+
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'list';
+export type TemplateVariableValue = string | number | boolean | string[];  // list -> string[]
+export type TemplateVariableValues = Record<string, TemplateVariableValue>;
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  description?: string;
+  default?: TemplateVariableValue;
+  required?: boolean;            // Must be given when there is no default
+  pattern?: string;              // Regular expression a string value must match
+}
+
+// Files the template provides in place of rod's defaults, by name -> path in the template
+export interface TemplateOverrides {
+  commands: Record<string, string>;       // Command name (e.g. specify) -> markdown file
+  specTemplates: Record<string, string>;  // File in .rod/spec-templates
+  scripts: Record<string, string>;        // File in .rod/scripts
+  memory: Record<string, string>;         // File in .rod/memory
+}
+
+// What a template is checked against before generation
+export interface TemplateCompatibilityContext {
+  rodVersion: string;
+  aiAssistants: AssistantId[];
 }
 
 // Template parsing and utilities
@@ -81,7 +115,7 @@ export class TemplateUtils {
     const [, ai, script, version] = match;
     
     // Validate AI assistant
-    if (!Object.values(AIAssistant).includes(ai as AIAssistant)) {
+    if (!isSupportedAIAssistant(ai)) {
       return null;
     }
     
@@ -91,7 +125,7 @@ export class TemplateUtils {
     }
 
     return {
-      aiAssistant: ai as AIAssistant,
+      aiAssistant: ai,
       scriptType: script as ScriptType,
       version,
       filename
@@ -102,7 +136,7 @@ export class TemplateUtils {
    * Generate template filename from components
    */
   static generateTemplateName(
-    ai: AIAssistant, 
+    ai: AssistantId, 
     script: ScriptType, 
     version: string
   ): string {
@@ -110,29 +144,36 @@ export class TemplateUtils {
   }
 
   /**
-   * Validate template compatibility with system
+   * Validate that a template's requirements are met by this rod-cli, system and project
    */
-  static validateCompatibility(template: TemplateMetadata): CompatibilityResult {
+  static validateCompatibility(manifest: TemplateManifest, context: TemplateCompatibilityContext): CompatibilityResult {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const { requirements } = manifest;
+
+    // Check rod-cli version
+    if (requirements.rodVersion && !this.isVersionCompatible(context.rodVersion, requirements.rodVersion)) {
+      errors.push(`rod-cli ${requirements.rodVersion} or later required, but ${context.rodVersion} is installed`);
+    }
 
     // Check Node.js version
     const currentNodeVersion = process.version;
-    if (!this.isVersionCompatible(currentNodeVersion, template.requirements.nodeVersion)) {
-      errors.push(`Node.js ${template.requirements.nodeVersion} required, but ${currentNodeVersion} is installed`);
+    if (requirements.nodeVersion && !this.isVersionCompatible(currentNodeVersion, requirements.nodeVersion)) {
+      errors.push(`Node.js ${requirements.nodeVersion} required, but ${currentNodeVersion} is installed`);
+    }
+
+    // Check AI assistants
+    const unsupported = context.aiAssistants.filter(ai => requirements.aiAssistants && !requirements.aiAssistants.includes(ai));
+    if (unsupported.length > 0) {
+      errors.push(`Template does not support ${unsupported.join(', ')} (supported: ${requirements.aiAssistants!.join(', ')})`);
     }
 
     // Check platform support
     const currentPlatform = process.platform;
-    if (!template.requirements.platformSupport.includes(currentPlatform)) {
+    if (requirements.platforms && !requirements.platforms.includes(currentPlatform)) {
       warnings.push(`Template may not be fully compatible with ${currentPlatform}`);
     }
 
-    // Check template size
-    if (template.size > 100 * 1024 * 1024) { // 100MB
-      warnings.push('Large template size may slow down download');
-    }
-
     return {
       compatible: errors.length === 0,
       errors,
@@ -144,9 +185,9 @@ export class TemplateUtils {
    * Check if version satisfies requirement
    */
   private static isVersionCompatible(current: string, required: string): boolean {
-    // Simple version comparison (major.minor.patch)
-    const currentParts = current.replace('v', '').split('.').map(Number);
-    const requiredParts = required.replace('v', '').split('.').map(Number);
+    // Simple version comparison (major.minor.patch), ">=" is implied
+    const currentParts = current.replace('v', '').split('.').map(part => parseInt(part, 10) || 0);
+    const requiredParts = required.replace(/^>=\s*/, '').replace('v', '').split('.').map(part => parseInt(part, 10) || 0);
 
     // Check major version
     if (currentParts[0] < requiredParts[0]) return false;
@@ -157,20 +198,19 @@ export class TemplateUtils {
     if (currentParts[1] > requiredParts[1]) return true;
 
     // Check patch version
-    return currentParts[2] >= requiredParts[2];
+    return (currentParts[2] || 0) >= (requiredParts[2] || 0);
   }
 
   /**
-   * Sort templates by preference (latest version, popular downloads)
+   * Sort templates by preference (latest version, then name)
    */
-  static sortTemplatesByPreference(templates: TemplateMetadata[]): TemplateMetadata[] {
+  static sortTemplatesByPreference(templates: TemplateManifest[]): TemplateManifest[] {
     return templates.sort((a, b) => {
       // First by version (descending)
-      const versionCompare = this.compareVersions(b.version, a.version);
+      const versionCompare = this.compareVersions(b.metadata.version, a.metadata.version);
       if (versionCompare !== 0) return versionCompare;
 
-      // Then by download count (descending)
-      return b.downloadCount - a.downloadCount;
+      return a.metadata.name.localeCompare(b.metadata.name);
     });
   }
 
@@ -196,28 +236,25 @@ export class TemplateUtils {
    * Filter templates by criteria
    */
   static filterTemplates(
-    templates: TemplateMetadata[],
+    templates: TemplateManifest[],
     criteria: TemplateFilterCriteria
-  ): TemplateMetadata[] {
+  ): TemplateManifest[] {
     return templates.filter(template => {
-      if (criteria.aiAssistant && template.aiAssistant !== criteria.aiAssistant) {
-        return false;
-      }
-
-      if (criteria.scriptType && template.scriptType !== criteria.scriptType) {
+      const supportedAssistants = template.requirements.aiAssistants;
+      if (criteria.aiAssistant && supportedAssistants && !supportedAssistants.includes(criteria.aiAssistant)) {
         return false;
       }
 
-      if (criteria.maxSize && template.size > criteria.maxSize) {
+      if (criteria.language && !(template.requirements.locales || []).includes(criteria.language)) {
         return false;
       }
 
-      if (criteria.minVersion && this.compareVersions(template.version, criteria.minVersion) < 0) {
+      if (criteria.minVersion && this.compareVersions(template.metadata.version, criteria.minVersion) < 0) {
         return false;
       }
 
-      if (criteria.features && !criteria.features.every(feature => 
-        template.features.includes(feature)
+      if (criteria.scenarios && !criteria.scenarios.every(scenario =>
+        template.metadata.scenarios.includes(scenario)
       )) {
         return false;
       }
@@ -229,7 +266,7 @@ export class TemplateUtils {
 
 // Supporting interfaces
 export interface TemplateNameInfo {
-  aiAssistant: AIAssistant;
+  aiAssistant: AssistantId;
   scriptType: ScriptType;
   version: string;
   filename: string;
@@ -242,11 +279,10 @@ export interface CompatibilityResult {
 }
 
 export interface TemplateFilterCriteria {
-  aiAssistant?: AIAssistant;
-  scriptType?: ScriptType;
-  maxSize?: number;
+  aiAssistant?: AssistantId;
+  language?: Language;
   minVersion?: string;
-  features?: string[];
+  scenarios?: string[];
 }
 
 // Template factory for creating templates from GitHub assets
@@ -281,18 +317,8 @@ export class TemplateFactory {
       name: template.filename,
       version: template.releaseVersion,
       description: additionalInfo.description || `Template for ${template.aiAssistant} with ${template.scriptType} scripts`,
-      aiAssistant: template.aiAssistant,
-      scriptType: template.scriptType,
-      size: template.size,
-      downloadCount: additionalInfo.downloadCount || 0,
-      lastUpdated: additionalInfo.lastUpdated || new Date(),
-      features: additionalInfo.features || [],
-      requirements: additionalInfo.requirements || {
-        nodeVersion: '18.0.0',
-        npmVersion: '8.0.0',
-        gitRequired: true,
-        platformSupport: ['darwin', 'linux', 'win32']
-      }
+      scenarios: additionalInfo.scenarios || [],
+      techStack: additionalInfo.techStack || []
     };
   }
 }
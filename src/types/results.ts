@@ -8,6 +8,7 @@
 export enum OperationType {
   CREATE = 'create',
   OVERWRITE = 'overwrite',
+  APPEND = 'append',
   SKIP = 'skip',
   CHMOD = 'chmod',
   DELETE = 'delete',
@@ -83,6 +84,8 @@ export interface GitInitResult {
   initialCommit: string;
   branchName: string;
   error?: string;
+  skipped?: boolean;             // Already inside a work tree, nothing was done
+  commitSkipped?: boolean;       // Repository created, but .gitignore excluded every generated file
   operations: GitOperation[];
 }
 
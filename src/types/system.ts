@@ -4,7 +4,7 @@
  * Defines interfaces for system information and tool checking
  */
 
-import { AIAssistant } from './cli-config';
+import { AIAssistant, AssistantId } from './cli-config';
 
 // Tool Check Result Interface
 export interface ToolCheckResult {
@@ -93,7 +93,7 @@ export interface ToolDefinition {
   required: boolean;
   priority: ToolPriority;
   platforms: string[];          // Supported platforms
-  aiAssistants?: AIAssistant[]; // AI assistants that require this tool
+  aiAssistants?: AssistantId[]; // AI assistants that require this tool
   installInstructions: PlatformInstructions;
 }
 
@@ -181,6 +181,77 @@ export class ToolRegistry {
         win32: 'Download from https://cli.github.com/',
         default: 'Visit https://cli.github.com/ for installation instructions'
       }
+    },
+    {
+      name: 'windsurf',
+      displayName: 'Windsurf Editor',
+      command: 'windsurf',
+      versionCommand: 'windsurf --version',
+      versionRegex: '(\\d+\\.\\d+\\.\\d+)',
+      required: false,
+      priority: ToolPriority.AI_SPECIFIC,
+      platforms: ['darwin', 'linux', 'win32'],
+      aiAssistants: [AIAssistant.WINDSURF],
+      installInstructions: {
+        default: 'Download from https://windsurf.com/download'
+      }
+    },
+    {
+      name: 'codex',
+      displayName: 'Codex CLI',
+      command: 'codex',
+      versionCommand: 'codex --version',
+      versionRegex: '(\\d+\\.\\d+\\.\\d+)',
+      required: false,
+      priority: ToolPriority.AI_SPECIFIC,
+      platforms: ['darwin', 'linux', 'win32'],
+      aiAssistants: [AIAssistant.CODEX],
+      installInstructions: {
+        default: 'npm install -g @openai/codex'
+      }
+    },
+    {
+      name: 'vscode',
+      displayName: 'Visual Studio Code',
+      command: 'code',
+      versionCommand: 'code --version',
+      versionRegex: '(\\d+\\.\\d+\\.\\d+)',
+      required: false,
+      priority: ToolPriority.AI_SPECIFIC,
+      platforms: ['darwin', 'linux', 'win32'],
+      aiAssistants: [AIAssistant.CLINE, AIAssistant.ROO],
+      installInstructions: {
+        default: 'Install VS Code from https://code.visualstudio.com/, then the Cline or Roo Code extension'
+      }
+    },
+    {
+      name: 'qwen',
+      displayName: 'Qwen Code',
+      command: 'qwen',
+      versionCommand: 'qwen --version',
+      versionRegex: '(\\d+\\.\\d+\\.\\d+)',
+      required: false,
+      priority: ToolPriority.AI_SPECIFIC,
+      platforms: ['darwin', 'linux', 'win32'],
+      aiAssistants: [AIAssistant.QWEN],
+      installInstructions: {
+        default: 'npm install -g @qwen-code/qwen-code'
+      }
+    },
+    {
+      name: 'opencode',
+      displayName: 'opencode',
+      command: 'opencode',
+      versionCommand: 'opencode --version',
+      versionRegex: '(\\d+\\.\\d+\\.\\d+)',
+      required: false,
+      priority: ToolPriority.AI_SPECIFIC,
+      platforms: ['darwin', 'linux', 'win32'],
+      aiAssistants: [AIAssistant.OPENCODE],
+      installInstructions: {
+        darwin: 'brew install sst/tap/opencode',
+        default: 'npm install -g opencode-ai'
+      }
     }
   ];
 
@@ -192,7 +263,7 @@ export class ToolRegistry {
     return this.tools.filter(tool => tool.required);
   }
 
-  static getToolsForAI(aiAssistant: AIAssistant): ToolDefinition[] {
+  static getToolsForAI(aiAssistant: AssistantId): ToolDefinition[] {
     return this.tools.filter(tool => 
       tool.required || 
       (tool.aiAssistants && tool.aiAssistants.includes(aiAssistant))
@@ -274,7 +345,7 @@ export class SystemCheckUtils {
   static generateRecommendations(
     tools: ToolCheckResult[], 
     systemInfo: SystemInfo,
-    aiAssistant?: AIAssistant
+    aiAssistant?: AssistantId
   ): string[] {
     const recommendations: string[] = [];
 
@@ -60,7 +60,7 @@ describe('CLI Template Workflow E2E Tests', () => {
         // Verify project structure
         expect(await fileExists(path.join(projectPath, '.specify'))).toBe(true);
         expect(await fileExists(path.join(projectPath, '.claude'))).toBe(true);
-        expect(await fileExists(path.join(projectPath, '.claude-config.json'))).toBe(true);
+        expect(await fileExists(path.join(projectPath, 'CLAUDE.md'))).toBe(true);
 
         // Verify command files
         const commandsDir = path.join(projectPath, '.claude', 'commands');
@@ -235,7 +235,8 @@ describe('CLI Template Workflow E2E Tests', () => {
           '.claude/commands/plan.md',
           '.claude/commands/tasks.md',
           '.claude/commands/progress.md',
-          '.claude-config.json'
+          '.claude/settings.json',
+          'CLAUDE.md'
         ];
 
         for (const filePath of claudeStructure) {
@@ -243,13 +244,12 @@ describe('CLI Template Workflow E2E Tests', () => {
         }
 
         // Validate config file content
-        const configContent = await fs.readFile(
-          path.join(projectPath, '.claude-config.json'),
+        const settingsContent = await fs.readFile(
+          path.join(projectPath, '.claude', 'settings.json'),
           'utf8'
         );
-        const config = JSON.parse(configContent);
-        expect(config.assistant).toBe('claude');
-        expect(config.features.specDriven).toBe(true);
+        const settings = JSON.parse(settingsContent);
+        expect(settings.permissions.allow).toContain('Bash(node .rod/scripts/:*)');
 
       } catch (error) {
         console.error('Structure validation failed:', error);
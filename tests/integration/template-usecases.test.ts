@@ -64,7 +64,8 @@ describe('Template Use Cases Integration Tests', () => {
       expect(await fs.stat(path.join(projectPath, '.claude', 'commands'))).toBeTruthy();
 
       // 验证配置文件
-      expect(await fs.stat(path.join(projectPath, '.claude-config.json'))).toBeTruthy();
+      expect(await fs.stat(path.join(projectPath, 'CLAUDE.md'))).toBeTruthy();
+      expect(await fs.stat(path.join(projectPath, '.claude', 'settings.json'))).toBeTruthy();
 
       // 验证生成的命令文件
       const commandFiles = await fs.readdir(path.join(projectPath, '.claude', 'commands'));
@@ -0,0 +1,342 @@
+/**
+ * AI Processors Unit Tests
+ *
+ * Tests for the files each AI processor generates
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { AIProcessorFactory } from '../../src/lib/template-generator/ai-processors';
+import { TemplateGenerationConfig } from '../../src/lib/template-generator';
+import { AIAssistant, ScriptType } from '../../src/types/cli-config';
+import { parse as parseToml } from 'smol-toml';
+
+const templateBasePath = path.join(__dirname, '../../workflow');
+
+describe('AI Processors Unit Tests', () => {
+  let tmpDir: string;
+
+  const generate = async (aiAssistant: AIAssistant): Promise<string[]> => {
+    const config: TemplateGenerationConfig = {
+      aiAssistant,
+      scriptType: ScriptType.NODE,
+      projectPath: tmpDir,
+      projectName: 'processor-project'
+    };
+    const filesCreated: string[] = [];
+    const processor = AIProcessorFactory.create(aiAssistant, templateBasePath);
+
+    await processor.generateCommands(config, filesCreated);
+    await processor.generateConfig(config, filesCreated);
+
+    return filesCreated.map(file => path.relative(tmpDir, file).split(path.sep).join('/'));
+  };
+
+  const read = (relativePath: string) => fs.readFile(path.join(tmpDir, relativePath), 'utf8');
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-processors-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('Command templates', () => {
+    it('应该把 {SCRIPT} 和 {ARGS} 替换为脚本调用和助手的参数语法', async () => {
+      await generate(AIAssistant.CLAUDE);
+      const specify = await read('.claude/commands/specify.md');
+
+      expect(specify).toContain('运行 `node .rod/scripts/create-module-spec.js --json $ARGUMENTS`');
+      expect(specify).not.toMatch(/\{SCRIPT\}|\{ARGS\}/);
+    });
+
+    it('应该为 Claude 命令生成 description、argument-hint 和 allowed-tools', async () => {
+      await generate(AIAssistant.CLAUDE);
+
+      expect(await read('.claude/commands/plan.md')).toMatch(new RegExp([
+        '^---',
+        'description: 基于模块需求规范执行技术设计规划.*',
+        'argument-hint: <技术上下文>',
+        'allowed-tools: Read, Write, Edit, Glob, Grep, Bash\\(node \\.rod/scripts/setup-module-plan\\.js:\\*\\)',
+        '---\\n'
+      ].join('\\n')));
+    });
+
+    it('应该为 Copilot 和 Cursor 命令生成各自的 frontmatter', async () => {
+      await generate(AIAssistant.COPILOT);
+      await generate(AIAssistant.CURSOR);
+      const prompt = await read('.github/prompts/specify.prompt.md');
+
+      expect(prompt).toMatch(/^---\nmode: agent\ndescription: 在模块目录中创建详细的功能规范.*\n---\n/);
+      expect(prompt).toContain('node .rod/scripts/create-module-spec.js --json ${input:args}');
+      expect(await read('.cursor/commands/specify.md')).toMatch(/^---\ndescription: 在模块目录中创建详细的功能规范.*\n---\n/);
+    });
+  });
+
+  describe('MCP servers', () => {
+    const servers = {
+      docs: { command: 'npx', args: ['-y', 'docs-mcp'], env: { TOKEN: 'x' } },
+      search: { type: 'http', url: 'https://example.com/mcp' }
+    };
+
+    const generateMCP = async (aiAssistant: AIAssistant): Promise<string[]> => {
+      const filesCreated: string[] = [];
+      const config: TemplateGenerationConfig = {
+        aiAssistant,
+        scriptType: ScriptType.NODE,
+        projectPath: tmpDir,
+        projectName: 'processor-project'
+      };
+
+      await AIProcessorFactory.create(aiAssistant, templateBasePath).generateMCPConfig(config, servers, filesCreated);
+      return filesCreated.map(file => path.relative(tmpDir, file).split(path.sep).join('/'));
+    };
+
+    it('应该把 MCP 服务器写入各助手自己的配置位置', async () => {
+      expect(await generateMCP(AIAssistant.CURSOR)).toEqual(['.cursor/mcp.json']);
+      expect(JSON.parse(await read('.cursor/mcp.json'))).toEqual({ mcpServers: servers });
+
+      await generateMCP(AIAssistant.COPILOT);
+      expect(JSON.parse(await read('.vscode/mcp.json')).servers).toEqual({
+        docs: { ...servers.docs, type: 'stdio' },
+        search: servers.search
+      });
+
+      await generateMCP(AIAssistant.GEMINI);
+      expect(JSON.parse(await read('.gemini/settings.json')).mcpServers.search).toEqual({ httpUrl: 'https://example.com/mcp' });
+
+      await generateMCP(AIAssistant.OPENCODE);
+      expect(JSON.parse(await read('opencode.json')).mcp.docs).toEqual({
+        type: 'local', command: ['npx', '-y', 'docs-mcp'], environment: { TOKEN: 'x' }
+      });
+    });
+
+    it('应该合并到已有配置并保留用户定义的同名服务器', async () => {
+      const userSettings = { theme: 'dark', mcpServers: { docs: { command: 'my-docs' }, mine: { command: 'mine' } } };
+      await fs.mkdir(path.join(tmpDir, '.gemini'));
+      await fs.writeFile(path.join(tmpDir, '.gemini/settings.json'), JSON.stringify(userSettings));
+
+      await generateMCP(AIAssistant.GEMINI);
+      const settings = JSON.parse(await read('.gemini/settings.json'));
+
+      expect(settings.theme).toBe('dark');
+      expect(Object.keys(settings.mcpServers)).toEqual(['docs', 'mine', 'search']);
+      expect(settings.mcpServers.docs).toEqual({ command: 'my-docs' });
+    });
+
+    it('应该跳过只读取用户级 MCP 配置的助手', async () => {
+      expect(await generateMCP(AIAssistant.WINDSURF)).toEqual([]);
+    });
+  });
+
+  describe('ClaudeProcessor', () => {
+    it('应该生成 CLAUDE.md 和允许运行 ROD 脚本的 settings.json', async () => {
+      const files = await generate(AIAssistant.CLAUDE);
+      const settings = JSON.parse(await read('.claude/settings.json'));
+
+      expect(files).toEqual(expect.arrayContaining(['CLAUDE.md', '.claude/settings.json']));
+      expect(files).not.toContain('.claude-config.json');
+      expect(await read('CLAUDE.md')).toContain('.rod/memory/constitution.md');
+      expect(settings.permissions.allow).toEqual(['Bash(node .rod/scripts/:*)']);
+    });
+
+    it('应该合并已有的 CLAUDE.md 和 settings.json，并在移除时还原', async () => {
+      const userSettings = { model: 'opus', permissions: { allow: ['Bash(npm test)'] } };
+      await fs.mkdir(path.join(tmpDir, '.claude'));
+      await fs.writeFile(path.join(tmpDir, '.claude/settings.json'), JSON.stringify(userSettings));
+      await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), '# Team notes\n');
+
+      await generate(AIAssistant.CLAUDE);
+      await generate(AIAssistant.CLAUDE);
+      const processor = AIProcessorFactory.create(AIAssistant.CLAUDE, templateBasePath);
+      const settings = await read('.claude/settings.json');
+
+      expect(JSON.parse(settings)).toEqual({ model: 'opus', permissions: { allow: ['Bash(npm test)', 'Bash(node .rod/scripts/:*)'] } });
+      expect((await read('CLAUDE.md')).match(/<!-- rod:start -->/g)).toHaveLength(1);
+      expect(JSON.parse(processor.stripMergedContent(settings, path.join('.claude', 'settings.json'))!)).toEqual(userSettings);
+      expect(processor.stripMergedContent(await read('CLAUDE.md'), 'CLAUDE.md')).toBe('# Team notes\n');
+    });
+  });
+
+  describe('CopilotProcessor', () => {
+    it('应该原样保留命令中的方括号内容', async () => {
+      await generate(AIAssistant.COPILOT);
+      const prompt = await read('.github/prompts/tasks.prompt.md');
+
+      expect(prompt).toContain('标记[P]支持并行');
+      expect(prompt).not.toContain('ROD Development Assistant');
+    });
+
+    it('应该把 ROD 规则合并到已有的 copilot-instructions.md', async () => {
+      await fs.mkdir(path.join(tmpDir, '.github'));
+      await fs.writeFile(path.join(tmpDir, '.github/copilot-instructions.md'), '# Team rules\n\nUse pnpm.\n');
+
+      const files = await generate(AIAssistant.COPILOT);
+      await generate(AIAssistant.COPILOT);
+      const instructions = await read('.github/copilot-instructions.md');
+
+      expect(files).toContain('.github/copilot-instructions.md');
+      expect(instructions.startsWith('# Team rules\n\nUse pnpm.')).toBe(true);
+      expect(instructions).toContain('.rod/memory/constitution.md');
+      expect(instructions.match(/<!-- rod:start -->/g)).toHaveLength(1);
+    });
+  });
+
+  describe('CursorProcessor', () => {
+    it('应该生成始终生效的规则和按 specs/modules 匹配的规格规则', async () => {
+      const files = await generate(AIAssistant.CURSOR);
+      const outputFiles = await AIProcessorFactory.create(AIAssistant.CURSOR, templateBasePath).getOutputFiles();
+
+      expect(outputFiles.map(file => file.split(path.sep).join('/')).sort()).toEqual([...files].sort());
+      expect(await read('.cursor/rules/rod.mdc')).toMatch(/^---\ndescription: .+\nalwaysApply: true\n---\n[\s\S]*\.rod\/memory\/constitution\.md/);
+      expect(await read('.cursor/rules/rod-specs.mdc')).toMatch(/^---\ndescription: .+\nglobs: specs\/modules\/\*\*\nalwaysApply: false\n---\n/);
+    });
+
+    it('应该在项目名包含YAML特殊字符时为description加引号', async () => {
+      const processor = AIProcessorFactory.create(AIAssistant.CURSOR, templateBasePath);
+      await processor.generateConfig({
+        aiAssistant: AIAssistant.CURSOR,
+        scriptType: ScriptType.NODE,
+        projectPath: tmpDir,
+        projectName: 'api: v2 #1'
+      }, []);
+
+      expect(await read('.cursor/rules/rod.mdc'))
+        .toContain('description: "ROD (Rule-Oriented Development) rules for api: v2 #1"\nalwaysApply: true');
+    });
+  });
+
+  describe('WindsurfProcessor', () => {
+    it('应该生成带 description frontmatter 的工作流和规则文件', async () => {
+      const files = await generate(AIAssistant.WINDSURF);
+
+      expect(files).toEqual(expect.arrayContaining([
+        '.windsurf/workflows/module.md',
+        '.windsurf/workflows/specify.md',
+        '.windsurf/workflows/plan.md',
+        '.windsurf/workflows/tasks.md',
+        '.windsurf/workflows/progress.md',
+        '.windsurf/rules/rod.md'
+      ]));
+      expect(await read('.windsurf/workflows/plan.md')).toMatch(/^---\ndescription: 基于模块需求规范执行技术设计规划/);
+      expect(await read('.windsurf/rules/rod.md')).toContain('trigger: always_on');
+    });
+
+    it('应该列出全部生成文件以便移除', async () => {
+      const files = await generate(AIAssistant.WINDSURF);
+      const outputFiles = await AIProcessorFactory.create(AIAssistant.WINDSURF, templateBasePath).getOutputFiles();
+
+      expect(outputFiles.map(file => file.split(path.sep).join('/')).sort()).toEqual([...files].sort());
+    });
+  });
+
+  describe('CodexProcessor', () => {
+    it('应该生成包含命令脚本和项目宪法的 AGENTS.md', async () => {
+      await generate(AIAssistant.CODEX);
+      const agents = await read('AGENTS.md');
+
+      expect(agents).toContain('.rod/memory/constitution.md');
+      expect(agents).toContain('node .rod/scripts/setup-module-plan.js --json');
+      expect(agents.indexOf('### module')).toBeLessThan(agents.indexOf('### progress'));
+    });
+
+    it('应该保留已有的 AGENTS.md 内容且重复生成不会重复追加', async () => {
+      await fs.writeFile(path.join(tmpDir, 'AGENTS.md'), '# Team notes\n\nUse pnpm.\n');
+
+      await generate(AIAssistant.CODEX);
+      await generate(AIAssistant.CODEX);
+      const agents = await read('AGENTS.md');
+
+      expect(agents.startsWith('# Team notes\n\nUse pnpm.')).toBe(true);
+      expect(agents.match(/<!-- rod:start -->/g)).toHaveLength(1);
+    });
+  });
+
+  describe('GeminiProcessor', () => {
+    it('应该生成带顶层 description 和 prompt 的命令 TOML', async () => {
+      await generate(AIAssistant.GEMINI);
+      const toml = await read('.gemini/commands/plan.toml');
+      const command = parseToml(toml);
+
+      expect(toml).not.toMatch(/^\[/m);
+      expect(Object.keys(command).sort()).toEqual(['description', 'prompt']);
+      expect(command.description).toMatch(/^基于模块需求规范执行技术设计规划/);
+      expect(command.prompt).toContain('{{args}}');
+      expect(command.prompt).not.toContain('{ARGS}');
+    });
+
+    it('应该转义三引号和反斜杠以保证内容可以原样读回', async () => {
+      const templatePath = path.join(tmpDir, 'template');
+      const body = '# Quote\n\nSay """hi""" to C:\\rod and $ARGUMENTS "end"';
+      await fs.mkdir(path.join(templatePath, 'commands'), { recursive: true });
+      await fs.writeFile(path.join(templatePath, 'commands', 'quote.md'), `---\ndescription: Say "hi" \\ quote\n---\n\n${body}\n`);
+
+      const config: TemplateGenerationConfig = {
+        aiAssistant: AIAssistant.GEMINI,
+        scriptType: ScriptType.NODE,
+        projectPath: tmpDir,
+        projectName: 'processor-project'
+      };
+      await AIProcessorFactory.create(AIAssistant.GEMINI, templateBasePath).generateCommands(config, [], templatePath);
+      const command = parseToml(await read('.gemini/commands/quote.toml'));
+      const prompt = command.prompt as string;
+
+      expect(Object.keys(command).sort()).toEqual(['description', 'prompt']);
+      expect(command.description).toBe('Say "hi" \\ quote');
+      // The common instructions come first, the command body must come back unchanged
+      expect(prompt.slice(prompt.indexOf('# Quote'))).toBe('# Quote\n\nSay """hi""" to C:\\rod and {{args}} "end"\n');
+    });
+  });
+
+  describe('QwenProcessor', () => {
+    it('应该复用 Gemini 的 TOML 格式生成 .qwen/commands', async () => {
+      await generate(AIAssistant.QWEN);
+      await generate(AIAssistant.GEMINI);
+
+      expect(await read('.qwen/commands/plan.toml')).toBe(await read('.gemini/commands/plan.toml'));
+    });
+  });
+
+  describe('OpencodeProcessor', () => {
+    it('应该生成带 description frontmatter 的 .opencode/command 命令', async () => {
+      const files = await generate(AIAssistant.OPENCODE);
+
+      expect(files).toContain('.opencode/command/specify.md');
+      expect(await read('.opencode/command/specify.md')).toMatch(/^---\ndescription: 在模块目录中创建详细的功能规范/);
+    });
+  });
+
+  describe('ClineProcessor', () => {
+    it('应该为每个命令生成 .clinerules 规则文件', async () => {
+      const files = await generate(AIAssistant.CLINE);
+
+      expect(files).toEqual(expect.arrayContaining(['.clinerules/rod-specify.md', '.clinerules/rod.md']));
+      expect(await read('.clinerules/rod-plan.md')).toContain('您是一个专业的软件开发助手');
+    });
+  });
+
+  describe('RooProcessor', () => {
+    it('应该为每个 ROD 阶段生成模式并保留用户模式', async () => {
+      const userMode = { slug: 'mine', name: 'Mine', roleDefinition: 'mine', groups: ['read'] };
+      await fs.writeFile(path.join(tmpDir, '.roomodes'), JSON.stringify({ customModes: [userMode] }));
+
+      await generate(AIAssistant.ROO);
+      await generate(AIAssistant.ROO);
+      const modes = JSON.parse(await read('.roomodes')).customModes;
+
+      expect(modes.map((mode: { slug: string }) => mode.slug)).toEqual(['mine', 'rod-specify', 'rod-plan', 'rod-tasks', 'rod-progress']);
+      expect(modes[1].roleDefinition).toContain('您是一个专业的软件开发助手');
+      expect(modes[1].customInstructions).not.toContain('您是一个专业的软件开发助手');
+    });
+
+    it('应该在移除时只删除 ROD 模式', async () => {
+      await generate(AIAssistant.ROO);
+      const processor = AIProcessorFactory.create(AIAssistant.ROO, templateBasePath);
+
+      expect(processor.stripMergedContent(await read('.roomodes'))).toBe('');
+      expect(processor.stripMergedContent(JSON.stringify({ customModes: [] }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Assistant Manager Unit Tests
+ *
+ * Tests for `rod ai add` / `rod ai remove` on an existing project
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { AssistantManager } from '../../src/lib/assistant-manager';
+import { loadProjectConfig } from '../../src/lib/config-manager';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { NPMTemplateManager } from '../../src/lib/npm-template-manager';
+import { GenerationManifest } from '../../src/lib/template-generator/generation-manifest';
+import { AIAssistant, ScriptType } from '../../src/types/cli-config';
+
+describe('AssistantManager Unit Tests', () => {
+  let tmpDir: string;
+  let projectPath: string;
+  let manager: AssistantManager;
+
+  const exists = (relativePath: string) =>
+    fs.access(path.join(projectPath, relativePath)).then(() => true, () => false);
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-assistant-'));
+    projectPath = path.join(tmpDir, 'assistant-project');
+    manager = new AssistantManager();
+
+    await new LocalTemplateGenerator().generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'assistant-project'
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该只生成新增AI助手的文件', async () => {
+    const constitutionPath = path.join(projectPath, '.rod', 'memory', 'constitution.md');
+    await fs.appendFile(constitutionPath, '\nlocal rule\n');
+
+    const result = await manager.add({ projectPath, aiAssistant: AIAssistant.GEMINI });
+
+    expect(result.success).toBe(true);
+    expect(await exists('.gemini/commands/plan.toml')).toBe(true);
+    expect(await exists('.gemini-config.json')).toBe(true);
+    expect(await fs.readFile(constitutionPath, 'utf8')).toContain('local rule');
+    expect(result.operations.some(op => op.path.startsWith(path.join(projectPath, 'specs')))).toBe(false);
+    expect((await loadProjectConfig(projectPath))!.aiAssistants).toEqual([AIAssistant.CLAUDE, AIAssistant.GEMINI]);
+  });
+
+  it('应该删除AI助手生成的文件并保留用户文件', async () => {
+    await manager.add({ projectPath, aiAssistant: AIAssistant.GEMINI });
+    await fs.writeFile(path.join(projectPath, '.gemini', 'commands', 'mine.toml'), 'user command');
+
+    const result = await manager.remove({ projectPath, aiAssistant: AIAssistant.GEMINI });
+
+    expect(result.success).toBe(true);
+    expect(result.aiAssistants).toEqual([AIAssistant.CLAUDE]);
+    expect(await exists('.gemini/commands/plan.toml')).toBe(false);
+    expect(await exists('.gemini-config.json')).toBe(false);
+    expect(await exists('.gemini/commands/mine.toml')).toBe(true);
+
+    const manifest = (await GenerationManifest.load(projectPath))!.getData();
+    expect(manifest.aiAssistants).toEqual([AIAssistant.CLAUDE]);
+    expect(manifest.files['.gemini/commands/plan.toml']).toBeUndefined();
+  });
+
+  it('应该保留已修改的生成文件，除非使用 force', async () => {
+    const planPath = path.join(projectPath, '.claude', 'commands', 'plan.md');
+    await fs.appendFile(planPath, '\nmy notes\n');
+
+    const kept = await manager.remove({ projectPath, aiAssistant: AIAssistant.CLAUDE, dryRun: true });
+    expect(kept.keptFiles).toEqual([planPath]);
+
+    const removed = await manager.remove({ projectPath, aiAssistant: AIAssistant.CLAUDE, force: true });
+    expect(removed.keptFiles).toEqual([]);
+    expect(await exists('.claude')).toBe(false);
+    expect(await exists('CLAUDE.md')).toBe(false);
+  });
+
+  it('应该只从MCP配置中删除rod添加的服务器', async () => {
+    const templatePath = path.join(tmpDir, 'svc');
+    const mcpProjectPath = path.join(tmpDir, 'mcp-project');
+    await fs.mkdir(templatePath);
+    await fs.writeFile(path.join(templatePath, '.mcp.json'), JSON.stringify({
+      mcpServers: { docs: { command: 'npx', args: ['docs-mcp'] }, search: { url: 'https://example.com/mcp' } }
+    }));
+    await fs.mkdir(path.join(mcpProjectPath, '.cursor'), { recursive: true });
+    await fs.writeFile(path.join(mcpProjectPath, '.cursor', 'mcp.json'), JSON.stringify({ mcpServers: { mine: { command: 'mine' } } }));
+
+    jest.spyOn(NPMTemplateManager.prototype, 'getInstalledTemplates').mockResolvedValue(['svc']);
+    jest.spyOn(NPMTemplateManager.prototype, 'getTemplatePath').mockResolvedValue(templatePath);
+    jest.spyOn(NPMTemplateManager.prototype, 'getTemplateVersion').mockResolvedValue('1.0.0');
+
+    await new LocalTemplateGenerator().generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      aiAssistants: [AIAssistant.CLAUDE, AIAssistant.CURSOR],
+      scriptType: ScriptType.NODE,
+      projectPath: mcpProjectPath,
+      projectName: 'mcp-project',
+      templateName: 'svc'
+    });
+
+    // The user's edit of a server rod added keeps it
+    const cursorMCPPath = path.join(mcpProjectPath, '.cursor', 'mcp.json');
+    const cursorMCP = JSON.parse(await fs.readFile(cursorMCPPath, 'utf8'));
+    cursorMCP.mcpServers.search.url = 'https://example.com/v2';
+    await fs.writeFile(cursorMCPPath, JSON.stringify(cursorMCP));
+
+    await manager.remove({ projectPath: mcpProjectPath, aiAssistant: AIAssistant.CURSOR });
+    expect(JSON.parse(await fs.readFile(cursorMCPPath, 'utf8'))).toEqual({
+      mcpServers: { mine: { command: 'mine' }, search: { url: 'https://example.com/v2' } }
+    });
+
+    const result = await manager.remove({ projectPath: mcpProjectPath, aiAssistant: AIAssistant.CLAUDE });
+    expect(result.removedFiles).toContain(path.join(mcpProjectPath, '.mcp.json'));
+    await expect(fs.access(path.join(mcpProjectPath, '.mcp.json'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * FileWriter Unit Tests
+ *
+ * Tests for dry-run recording, conflict policies and rollback of file operations
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { FileWriter } from '../../src/lib/template-generator/file-writer';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { OperationType } from '../../src/types/results';
+import { AIAssistant, ConflictPolicy, ScriptType } from '../../src/types/cli-config';
+
+describe('FileWriter Unit Tests', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-writer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('dry-run mode', () => {
+    it('应该只记录操作而不写入磁盘', async () => {
+      const writer = new FileWriter({ dryRun: true });
+      const filesCreated: string[] = [];
+      const filePath = path.join(tmpDir, 'new.md');
+
+      await writer.writeFile(filePath, 'hello', filesCreated);
+
+      await expect(fs.access(filePath)).rejects.toThrow();
+      expect(filesCreated).toEqual([filePath]);
+      expect(writer.getOperations()).toEqual([
+        expect.objectContaining({ path: filePath, operation: OperationType.CREATE, size: 5 })
+      ]);
+    });
+
+    it('应该将已存在的文件标记为覆盖', async () => {
+      const filePath = path.join(tmpDir, 'existing.md');
+      await fs.writeFile(filePath, 'original', 'utf8');
+
+      const writer = new FileWriter({ dryRun: true });
+      await writer.writeFile(filePath, 'updated', []);
+
+      expect(writer.getOperations()[0].operation).toBe(OperationType.OVERWRITE);
+      expect(await fs.readFile(filePath, 'utf8')).toBe('original');
+    });
+
+    it('应该对同一路径只保留一条记录并采用显式操作类型', async () => {
+      const writer = new FileWriter({ dryRun: true });
+      const filePath = path.join(tmpDir, 'README.md');
+
+      await writer.writeFile(filePath, 'template', []);
+      await writer.writeFile(filePath, 'existing + template', [], OperationType.APPEND);
+
+      const operations = writer.getOperations();
+      expect(operations).toHaveLength(1);
+      expect(operations[0].operation).toBe(OperationType.APPEND);
+      expect(operations[0].size).toBe('existing + template'.length);
+    });
+  });
+
+  describe('conflict policy', () => {
+    let filePath: string;
+
+    beforeEach(async () => {
+      filePath = path.join(tmpDir, 'constitution.md');
+      await fs.writeFile(filePath, 'team constitution', 'utf8');
+    });
+
+    it('skip策略应该保留已存在的文件', async () => {
+      const writer = new FileWriter({ onConflict: ConflictPolicy.SKIP });
+      const filesCreated: string[] = [];
+
+      await writer.writeFile(filePath, 'generated', filesCreated);
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe('team constitution');
+      expect(filesCreated).toEqual([]);
+      expect(writer.getOperations()[0].operation).toBe(OperationType.SKIP);
+      expect(writer.getConflictResolutions()).toEqual([
+        expect.objectContaining({ path: filePath, action: 'skip' })
+      ]);
+    });
+
+    it('backup策略应该在覆盖前备份已存在的文件', async () => {
+      const writer = new FileWriter({ onConflict: ConflictPolicy.BACKUP });
+
+      await writer.writeFile(filePath, 'generated', []);
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe('generated');
+      expect(await fs.readFile(`${filePath}.bak`, 'utf8')).toBe('team constitution');
+      expect(writer.getConflictResolutions()).toEqual([
+        expect.objectContaining({ action: 'rename', newName: `${filePath}.bak` })
+      ]);
+    });
+
+    it('内容相同时不应视为冲突', async () => {
+      const writer = new FileWriter({ onConflict: ConflictPolicy.SKIP });
+
+      await writer.writeFile(filePath, 'team constitution', []);
+
+      expect(writer.getOperations()[0].operation).toBe(OperationType.OVERWRITE);
+      expect(writer.getConflictResolutions()).toEqual([]);
+    });
+  });
+
+  describe('rollback', () => {
+    it('应该恢复被覆盖的文件并删除新建的文件和目录', async () => {
+      const existingPath = path.join(tmpDir, 'constitution.md');
+      await fs.writeFile(existingPath, 'team constitution', 'utf8');
+
+      const writer = new FileWriter();
+      const newDir = path.join(tmpDir, '.rod', 'scripts');
+      await writer.ensureDirectory(newDir);
+      await writer.writeFile(path.join(newDir, 'common.js'), 'generated', []);
+      await writer.writeFile(existingPath, 'generated', []);
+
+      const rollbackOperations = await writer.rollback();
+
+      expect(await fs.readFile(existingPath, 'utf8')).toBe('team constitution');
+      await expect(fs.access(path.join(tmpDir, '.rod'))).rejects.toThrow();
+      expect(rollbackOperations.every(op => op.success)).toBe(true);
+    });
+
+    it('生成失败时应该将项目目录恢复到生成前的状态', async () => {
+      // A template without roadmap-template.md fails after most files were written
+      const templatePath = path.join(tmpDir, 'workflow');
+      await fs.cp(path.join(__dirname, '../../workflow'), templatePath, { recursive: true });
+      await fs.rm(path.join(templatePath, 'spec-templates', 'roadmap-template.md'));
+
+      const projectPath = path.join(tmpDir, 'existing-project');
+      await fs.mkdir(projectPath);
+      await fs.writeFile(path.join(projectPath, 'index.js'), 'console.log(1);\n');
+
+      const result = await new LocalTemplateGenerator(templatePath).generateTemplate({
+        aiAssistant: AIAssistant.CLAUDE,
+        scriptType: ScriptType.NODE,
+        projectPath,
+        projectName: 'existing-project'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rollbackOperations.length).toBeGreaterThan(0);
+      expect(await fs.readdir(projectPath)).toEqual(['index.js']);
+    });
+  });
+
+  describe('LocalTemplateGenerator dry run', () => {
+    it('应该列出计划生成的文件且不创建项目目录', async () => {
+      const projectPath = path.join(tmpDir, 'preview-project');
+      const generator = new LocalTemplateGenerator();
+
+      const result = await generator.generateTemplate({
+        aiAssistant: AIAssistant.CLAUDE,
+        scriptType: ScriptType.NODE,
+        projectPath,
+        projectName: 'preview-project',
+        dryRun: true
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.totalSize).toBeGreaterThan(0);
+      expect(result.operations.map(op => path.relative(projectPath, op.path))).toEqual(
+        expect.arrayContaining([
+          path.join('.claude', 'commands', 'specify.md'),
+          path.join('.rod', 'memory', 'constitution.md'),
+          path.join('specs', 'roadmap.md')
+        ])
+      );
+      await expect(fs.access(projectPath)).rejects.toThrow();
+    });
+
+    it('应该按替换变量后的内容计算计划生成的文件大小', async () => {
+      const templatePath = path.join(tmpDir, 'workflow');
+      await fs.cp(path.join(__dirname, '../../workflow'), templatePath, { recursive: true });
+      await fs.writeFile(path.join(templatePath, 'intro.md'), '# {{PROJECT_NAME}}\n');
+
+      const projectPath = path.join(tmpDir, 'preview-project');
+      const config = {
+        aiAssistant: AIAssistant.CLAUDE,
+        scriptType: ScriptType.NODE,
+        projectPath,
+        projectName: 'preview-project',
+        templateName: templatePath
+      };
+
+      const planned = await new LocalTemplateGenerator().generateTemplate({ ...config, dryRun: true });
+      await new LocalTemplateGenerator().generateTemplate(config);
+
+      const intro = planned.operations.find(op => op.path === path.join(projectPath, 'intro.md'));
+      expect(intro?.size).toBe(Buffer.byteLength('# preview-project\n'));
+      for (const op of planned.operations) {
+        expect({ path: op.path, size: op.size }).toEqual({ path: op.path, size: (await fs.stat(op.path)).size });
+      }
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Generation Manifest Unit Tests
+ *
+ * Tests for .rod/manifest.json written by init and checked by `rod manifest verify`
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { GenerationManifest } from '../../src/lib/template-generator/generation-manifest';
+import { AIAssistant, ScriptType } from '../../src/types/cli-config';
+
+describe('GenerationManifest Unit Tests', () => {
+  let tmpDir: string;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-manifest-'));
+    projectPath = path.join(tmpDir, 'manifest-project');
+
+    const generator = new LocalTemplateGenerator();
+    await generator.generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'manifest-project'
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该记录版本、模板、AI助手和文件哈希', async () => {
+    const manifest = await GenerationManifest.load(projectPath);
+    const data = manifest!.getData();
+
+    expect(data.rodVersion).toBe(require('../../package.json').version);
+    expect(data.template.name).toBe('default');
+    expect(data.aiAssistants).toEqual([AIAssistant.CLAUDE]);
+    expect(data.files['.rod/memory/constitution.md'].sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(data.files['.rod/manifest.json']).toBeUndefined();
+  });
+
+  it('应该区分未修改、已修改和缺失的文件', async () => {
+    await fs.appendFile(path.join(projectPath, '.rod', 'memory', 'constitution.md'), '\nlocal rule\n');
+    await fs.rm(path.join(projectPath, 'specs', 'roadmap.md'));
+
+    const verification = await (await GenerationManifest.load(projectPath))!.verify();
+
+    expect(verification.edited).toEqual(['.rod/memory/constitution.md']);
+    expect(verification.missing).toEqual(['specs/roadmap.md']);
+    expect(verification.pristine).toContain('.claude/commands/plan.md');
+  });
+});
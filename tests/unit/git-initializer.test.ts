@@ -0,0 +1,104 @@
+/**
+ * Git Initializer Unit Tests
+ *
+ * Tests for git setup performed by rod init
+ */
+
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { GitInitializer, INITIAL_COMMIT_MESSAGE } from '../../src/lib/git-initializer';
+
+describe('GitInitializer Unit Tests', () => {
+  let tmpDir: string;
+  const gitIdentity = {
+    GIT_AUTHOR_NAME: 'rod',
+    GIT_AUTHOR_EMAIL: 'rod@example.com',
+    GIT_COMMITTER_NAME: 'rod',
+    GIT_COMMITTER_EMAIL: 'rod@example.com'
+  };
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'rod-git-')));
+    Object.assign(process.env, gitIdentity);
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该初始化仓库、写入.gitignore并创建初始提交', async () => {
+    await fs.writeFile(path.join(tmpDir, 'README.md'), '# project\n');
+    const filesCreated = [path.join(tmpDir, 'README.md')];
+
+    const result = await new GitInitializer().initialize(tmpDir, filesCreated);
+
+    expect(result.success).toBe(true);
+    expect(result.initialCommit).toMatch(/^[0-9a-f]{40}$/);
+    expect(result.operations.map(op => op.command)).toEqual(
+      expect.arrayContaining(['git init', 'git add -- .gitignore README.md', `git commit -m ${INITIAL_COMMIT_MESSAGE}`])
+    );
+    expect(filesCreated).toEqual([path.join(tmpDir, 'README.md'), path.join(tmpDir, '.gitignore')]);
+
+    const committed = execFileSync('git', ['ls-files'], { cwd: tmpDir, encoding: 'utf8' });
+    expect(committed.split('\n')).toEqual(expect.arrayContaining(['.gitignore', 'README.md']));
+  });
+
+  it('应该只提交生成的文件并保留目录中原有的文件未跟踪', async () => {
+    await fs.writeFile(path.join(tmpDir, 'secrets.txt'), 'token\n');
+    await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), '# rules\n');
+    await fs.mkdir(path.join(tmpDir, '.claude'));
+    await fs.writeFile(path.join(tmpDir, '.claude', 'settings.bak'), '{}\n');
+    const filesCreated = [path.join(tmpDir, 'CLAUDE.md'), path.join(tmpDir, '.claude', 'settings.bak')];
+
+    const result = await new GitInitializer().initialize(tmpDir, filesCreated);
+
+    expect(result.success).toBe(true);
+    const committed = execFileSync('git', ['ls-files'], { cwd: tmpDir, encoding: 'utf8' }).trim().split('\n');
+    expect(committed.sort()).toEqual(['.gitignore', 'CLAUDE.md']);
+    const untracked = execFileSync('git', ['status', '--porcelain'], { cwd: tmpDir, encoding: 'utf8' });
+    expect(untracked).toBe('?? secrets.txt\n');
+  });
+
+  it('应该在已有git工作区内跳过初始化', async () => {
+    execFileSync('git', ['init'], { cwd: tmpDir });
+    const projectPath = path.join(tmpDir, 'nested');
+    await fs.mkdir(projectPath);
+
+    const result = await new GitInitializer().initialize(projectPath);
+
+    expect(result.success).toBe(true);
+    expect(result.skipped).toBe(true);
+    expect(result.repositoryPath).toBe(tmpDir);
+    await expect(fs.access(path.join(projectPath, '.git'))).rejects.toThrow();
+  });
+
+  it('应该在.gitignore排除了所有生成的文件时跳过初始提交', async () => {
+    await fs.writeFile(path.join(tmpDir, '.gitignore'), '*\n');
+    await fs.writeFile(path.join(tmpDir, 'README.md'), '# project\n');
+
+    const result = await new GitInitializer().initialize(tmpDir, [path.join(tmpDir, 'README.md')]);
+
+    expect(result.success).toBe(true);
+    expect(result.commitSkipped).toBe(true);
+    expect(result.error).toBeUndefined();
+    expect(result.initialCommit).toBe('');
+    expect(result.branchName).not.toBe('');
+    expect(result.operations.map(op => op.command)).not.toContain(`git commit -m ${INITIAL_COMMIT_MESSAGE}`);
+    await expect(fs.access(path.join(tmpDir, '.git'))).resolves.toBeUndefined();
+  });
+
+  it('应该只向已有的.gitignore追加缺失的条目', async () => {
+    await fs.writeFile(path.join(tmpDir, '.gitignore'), 'dist/\nnode_modules/\n');
+
+    await new GitInitializer().initialize(tmpDir);
+
+    const gitignore = await fs.readFile(path.join(tmpDir, '.gitignore'), 'utf8');
+    expect(gitignore.startsWith('dist/\nnode_modules/\n')).toBe(true);
+    expect(gitignore.match(/node_modules\//g)).toHaveLength(1);
+    expect(gitignore).toContain('*.bak');
+  });
+});
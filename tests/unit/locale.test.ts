@@ -0,0 +1,98 @@
+/**
+ * Locale Unit Tests
+ *
+ * Tests for generating a project in another language and for the languages a template provides
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { loadProjectConfig } from '../../src/lib/config-manager';
+import { getTemplateLocales } from '../../src/lib/template-generator/locale';
+import { AIAssistant, ConflictPolicy, Language, ScriptType } from '../../src/types/cli-config';
+
+describe('Locale Unit Tests', () => {
+  let tmpDir: string;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-locale-'));
+    projectPath = path.join(tmpDir, 'en-project');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该使用英文模板生成命令、规格模板和路线图', async () => {
+    const generator = new LocalTemplateGenerator();
+    const result = await generator.generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'en-project',
+      language: Language.EN
+    });
+
+    expect(result.success).toBe(true);
+
+    const command = await fs.readFile(path.join(projectPath, '.claude', 'commands', 'specify.md'), 'utf8');
+    expect(command).toContain('argument-hint: <feature-description>');
+    expect(command).toContain('You are a professional software development assistant');
+
+    const specTemplate = await fs.readFile(path.join(projectPath, '.rod', 'spec-templates', 'spec-template.md'), 'utf8');
+    expect(specTemplate).toContain('# Feature Specification');
+
+    const roadmap = await fs.readFile(path.join(projectPath, 'specs', 'roadmap.md'), 'utf8');
+    expect(roadmap).toContain('**Project Name**: en-project');
+
+    const memory = await fs.readFile(path.join(projectPath, 'CLAUDE.md'), 'utf8');
+    expect(memory).toContain('# ROD Workflow');
+
+    const script = await fs.readFile(path.join(projectPath, '.rod', 'scripts', 'create-module.js'), 'utf8');
+    expect(script).toContain("toLocaleString('en-US')");
+    expect(script).not.toMatch(/[\u4e00-\u9fff]/);
+
+    const config = await loadProjectConfig(projectPath);
+    expect(config!.language).toBe(Language.EN);
+  });
+
+  it('应该在添加AI助手时沿用项目的语言', async () => {
+    const generator = new LocalTemplateGenerator();
+    const baseConfig = { scriptType: ScriptType.NODE, projectPath, projectName: 'en-project' };
+    await generator.generateTemplate({ ...baseConfig, aiAssistant: AIAssistant.CLAUDE, language: Language.EN });
+
+    const result = await generator.generateAssistantFiles({
+      ...baseConfig,
+      aiAssistant: AIAssistant.CURSOR,
+      onConflict: ConflictPolicy.SKIP
+    });
+
+    expect(result.success).toBe(true);
+    const rules = await fs.readFile(path.join(projectPath, '.cursor', 'rules', 'rod.mdc'), 'utf8');
+    expect(rules).toContain('# ROD Development Rules');
+  });
+
+  it('应该从locales目录推断模板提供的语言', async () => {
+    await expect(getTemplateLocales(path.join(__dirname, '../../workflow'))).resolves.toEqual([Language.ZH, Language.EN]);
+  });
+
+  it('应该拒绝模板未提供的语言', async () => {
+    const templateRoot = path.join(tmpDir, 'zh-only');
+    await fs.mkdir(templateRoot, { recursive: true });
+    await fs.writeFile(path.join(templateRoot, 'package.json'), JSON.stringify({ rod: { locales: ['zh'] } }));
+
+    const generator = new LocalTemplateGenerator(templateRoot);
+    const result = await generator.generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'en-project',
+      language: Language.EN
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("does not provide the 'en' language (available: zh)");
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Merge Utils Unit Tests
+ *
+ * Tests for the three-way merge used by rod upgrade
+ */
+
+import { mergeThreeWay } from '../../src/lib/template-generator/merge-utils';
+
+describe('mergeThreeWay', () => {
+  const base = ['# Plan', 'step one', 'step two', 'step three'].join('\n');
+
+  it('应该在用户未修改时采用新版本', () => {
+    const incoming = base + '\nstep four';
+
+    expect(mergeThreeWay(base, base, incoming)).toEqual({ content: incoming, conflicts: 0 });
+  });
+
+  it('应该合并不重叠的用户修改和上游修改', () => {
+    const current = base.replace('step one', 'step one (edited)');
+    const incoming = base.replace('step three', 'step three (upstream)');
+
+    const result = mergeThreeWay(base, current, incoming);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(['# Plan', 'step one (edited)', 'step two', 'step three (upstream)'].join('\n'));
+  });
+
+  it('应该在同一处修改时写入冲突标记', () => {
+    const current = base.replace('step two', 'mine');
+    const incoming = base.replace('step two', 'theirs');
+
+    const result = mergeThreeWay(base, current, incoming, { current: 'current', incoming: 'rod upgrade' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      ['# Plan', 'step one', '<<<<<<< current', 'mine', '=======', 'theirs', '>>>>>>> rod upgrade', 'step three'].join('\n')
+    );
+  });
+});
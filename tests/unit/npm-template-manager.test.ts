@@ -7,7 +7,7 @@
 import { NPMTemplateManager } from '../../src/lib/npm-template-manager';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
 
 // Mock execSync and fs for unit tests
 jest.mock('child_process');
@@ -20,6 +20,7 @@ jest.mock('fs', () => ({
 }));
 
 const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
+const mockExecFileSync = execFileSync as jest.MockedFunction<typeof execFileSync>;
 const mockStat = fs.stat as jest.MockedFunction<typeof fs.stat>;
 const mockReaddir = fs.readdir as jest.MockedFunction<typeof fs.readdir>;
 const mockReadFile = fs.readFile as jest.MockedFunction<typeof fs.readFile>;
@@ -184,6 +185,34 @@ describe('NPMTemplateManager Unit Tests', () => {
     });
   });
 
+  describe('installPackage', () => {
+    it('应该把版本和镜像源作为独立参数传给npm', async () => {
+      jest.spyOn(manager, 'isTemplatePackageInstalled').mockResolvedValue(true);
+      jest.spyOn(manager, 'getTemplatePackagePath').mockResolvedValue('/usr/local/lib/node_modules/@tencent/rod-cli-templates');
+      mockReadFile.mockResolvedValue(JSON.stringify({ version: '1.2.0' }));
+
+      const result = await manager.installPackage({ version: '1.2.0', registry: 'https://npm.example.com/' });
+
+      expect(result.success).toBe(true);
+      expect(mockExecFileSync).toHaveBeenCalledWith(
+        'npm',
+        ['install', '-g', '@tencent/rod-cli-templates@1.2.0', '--registry=https://npm.example.com/', '--silent', '--no-audit', '--no-fund'],
+        expect.objectContaining({ timeout: 60000 })
+      );
+    });
+
+    it('应该拒绝无效的版本和镜像源', async () => {
+      const badVersion = await manager.installPackage({ version: '1.0.0; rm -rf ~' });
+      const badRegistry = await manager.installPackage({ registry: 'https://npm.example.com/$(id)' });
+      const notHttp = await manager.installPackage({ registry: 'file:///tmp/registry' });
+
+      expect(badVersion.errors).toEqual(["Invalid template package version '1.0.0; rm -rf ~'"]);
+      expect(badRegistry.errors).toEqual(["Invalid npm registry 'https://npm.example.com/$(id)': expected an http(s) URL"]);
+      expect(notHttp.success).toBe(false);
+      expect(mockExecFileSync).not.toHaveBeenCalled();
+    });
+  });
+
   describe('ensureTemplate', () => {
     it('应该使用已安装的模板包', async () => {
       // Mock package already installed
@@ -234,6 +263,56 @@ describe('NPMTemplateManager Unit Tests', () => {
     });
   });
 
+  describe('getPackageVersion', () => {
+    it('应该返回已安装模板包的版本', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({ version: '1.2.0' }));
+
+      await expect(manager.getPackageVersion()).resolves.toBe('1.2.0');
+      expect(mockReadFile).toHaveBeenCalledWith(
+        path.join(mockGlobalNodeModules, '@tencent/rod-cli-templates', 'package.json'),
+        'utf8'
+      );
+    });
+
+    it('应该在包未安装时返回null', async () => {
+      mockReadFile.mockRejectedValue(new Error('ENOENT'));
+
+      await expect(manager.getPackageVersion()).resolves.toBeNull();
+    });
+  });
+
+  describe('removeTemplatePackage', () => {
+    it('应该全局卸载模板包', async () => {
+      mockStat.mockResolvedValue({ isDirectory: () => true } as any);
+
+      const result = await manager.removeTemplatePackage();
+
+      expect(result.success).toBe(true);
+      expect(mockExecFileSync).toHaveBeenCalledWith(
+        'npm',
+        ['uninstall', '-g', '@tencent/rod-cli-templates', '--silent'],
+        expect.objectContaining({ stdio: 'inherit', timeout: 60000 })
+      );
+    });
+
+    it('应该在包未安装时返回错误', async () => {
+      mockStat.mockRejectedValue(new Error('ENOENT'));
+
+      const result = await manager.removeTemplatePackage();
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('is not installed');
+    });
+  });
+
+  describe('getTemplateVersion', () => {
+    it('应该以已安装模板包的版本作为npm模板的版本', async () => {
+      jest.spyOn(manager, 'getPackageVersion').mockResolvedValue('2.3.0');
+
+      await expect(manager.getTemplateVersion('pui')).resolves.toBe('2.3.0');
+    });
+  });
+
   describe('getInstalledTemplates', () => {
     it('应该返回已安装的模板列表', async () => {
       const getAvailableSpy = jest.spyOn(manager, 'getAvailableTemplates')
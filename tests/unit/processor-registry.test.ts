@@ -0,0 +1,173 @@
+/**
+ * Processor Registry Unit Tests
+ *
+ * Tests for registering AI processors from rod-processor-* packages and ~/.rod/config.json
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { AIProcessorFactory, ProcessorRegistry } from '../../src/lib/template-generator/ai-processors';
+import { AIAssistant, ScriptType, getSupportedAIAssistants, isSupportedAIAssistant } from '../../src/types/cli-config';
+import { ToolRegistry } from '../../src/types/system';
+
+const BASE_PROCESSOR_PATH = path.resolve(__dirname, '../../src/lib/template-generator/ai-processors/base-ai-processor');
+
+/**
+ * Source of a plugin whose commands go to <dir>/commands
+ */
+function pluginSource(id: string, dir: string, extra = '', methods = ''): string {
+  return `
+const path = require('path');
+const { BaseAIProcessor } = require(${JSON.stringify(BASE_PROCESSOR_PATH)});
+
+class PluginProcessor extends BaseAIProcessor {
+  getDirectoryName() {
+    return ${JSON.stringify(dir)};
+  }
+
+  async generateCommands(config, filesCreated, templatePath) {
+    const commandsDir = path.join(config.projectPath, this.getCommandsDirectory());
+    await this.ensureDirectory(commandsDir);
+    for (const commandFile of await this.getCommandFiles(templatePath)) {
+      const content = await this.generateCommandFile(path.basename(commandFile, '.md'), config, templatePath);
+      await this.writer.writeFile(path.join(commandsDir, commandFile), content, filesCreated);
+    }
+  }
+
+  async generateConfig() {}
+${methods}
+}
+
+module.exports = { id: ${JSON.stringify(id)}, displayName: 'Test Assistant', processor: PluginProcessor${extra} };
+`;
+}
+
+describe('Processor Registry Unit Tests', () => {
+  let tmpDir: string;
+  let nodeModules: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-processor-registry-'));
+    nodeModules = path.join(tmpDir, 'node_modules');
+    configPath = path.join(tmpDir, '.rod', 'config.json');
+    await fs.mkdir(nodeModules, { recursive: true });
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该列出内置的AI助手', () => {
+    expect(ProcessorRegistry.getIds()).toEqual(expect.arrayContaining(Object.values(AIAssistant)));
+    expect(ProcessorRegistry.get(AIAssistant.CLAUDE)?.displayName).toBe('Claude Code');
+  });
+
+  it('应该加载rod-processor-*插件包并用它生成命令', async () => {
+    const packageDir = path.join(nodeModules, 'rod-processor-aider');
+    await fs.mkdir(packageDir);
+    await fs.writeFile(path.join(packageDir, 'package.json'), JSON.stringify({ name: 'rod-processor-aider', main: 'index.js' }));
+    await fs.writeFile(
+      path.join(packageDir, 'index.js'),
+      pluginSource('aider', '.aider', ", tool: { name: 'aider', displayName: 'Aider', command: 'aider' }")
+    );
+
+    const result = ProcessorRegistry.loadPlugins({ configPath, searchPaths: [nodeModules] });
+
+    expect(result).toEqual({ loaded: ['aider'], warnings: [] });
+    expect(isSupportedAIAssistant('aider')).toBe(true);
+    expect(getSupportedAIAssistants()).toContain('aider');
+    expect(ToolRegistry.getToolsForAI('aider').map(tool => tool.name)).toContain('aider');
+    expect(AIProcessorFactory.create('aider', '/tmp').getDirectoryName()).toBe('.aider');
+
+    const projectPath = path.join(tmpDir, 'project');
+    const generation = await new LocalTemplateGenerator().generateTemplate({
+      aiAssistant: 'aider',
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'project'
+    });
+
+    expect(generation.success).toBe(true);
+    await expect(fs.stat(path.join(projectPath, '.aider', 'commands', 'plan.md'))).resolves.toBeDefined();
+  });
+
+  it('应该不扫描当前项目的node_modules', async () => {
+    const packageDir = path.join(nodeModules, 'rod-processor-cloned');
+    await fs.mkdir(packageDir);
+    await fs.writeFile(path.join(packageDir, 'index.js'), pluginSource('cloned', '.cloned'));
+    const cwd = process.cwd();
+    process.chdir(tmpDir);
+
+    try {
+      expect(ProcessorRegistry.loadPlugins({ configPath })).toEqual({ loaded: [], warnings: [] });
+    } finally {
+      process.chdir(cwd);
+    }
+    expect(isSupportedAIAssistant('cloned')).toBe(false);
+  });
+
+  it('应该加载~/.rod/config.json中列出的插件路径', async () => {
+    await fs.writeFile(path.join(tmpDir, '.rod', 'local-plugin.js'), pluginSource('local-bot', '.local-bot'));
+    await fs.writeFile(configPath, JSON.stringify({ processors: ['./local-plugin.js'] }));
+
+    const result = ProcessorRegistry.loadPlugins({ configPath, searchPaths: [nodeModules] });
+
+    expect(result.loaded).toEqual(['local-bot']);
+    expect(ProcessorRegistry.get('local-bot')?.displayName).toBe('Test Assistant');
+
+    // Loading again does not register the plugin twice
+    expect(ProcessorRegistry.loadPlugins({ configPath, searchPaths: [nodeModules] })).toEqual({ loaded: [], warnings: [] });
+  });
+
+  it('应该让插件决定命令的说明、参数占位符和格式', async () => {
+    const methods = `
+  getAssistantInstructions() {
+    return 'Run /architect first.';
+  }
+
+  getArgumentPlaceholder() {
+    return '{input}';
+  }
+
+  convertToAIFormat(content, template) {
+    return '# ' + template.description + '\\n\\n' + content;
+  }
+`;
+    await fs.writeFile(path.join(tmpDir, '.rod', 'styled-plugin.js'), pluginSource('styled-bot', '.styled-bot', '', methods));
+    await fs.writeFile(configPath, JSON.stringify({ processors: ['./styled-plugin.js'] }));
+    ProcessorRegistry.loadPlugins({ configPath, searchPaths: [nodeModules] });
+
+    const projectPath = path.join(tmpDir, 'project');
+    await new LocalTemplateGenerator().generateTemplate({
+      aiAssistant: 'styled-bot',
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'project'
+    });
+
+    const plan = await fs.readFile(path.join(projectPath, '.styled-bot', 'commands', 'plan.md'), 'utf8');
+    expect(plan.startsWith('# ')).toBe(true);
+    expect(plan).toContain('Run /architect first.');
+    expect(plan).toContain('{input}');
+    expect(plan).not.toContain('{ARGS}');
+  });
+
+  it('应该跳过无效插件并给出警告', async () => {
+    await fs.writeFile(path.join(tmpDir, '.rod', 'no-processor.js'), "module.exports = { id: 'broken', displayName: 'Broken' };");
+    await fs.writeFile(path.join(tmpDir, '.rod', 'duplicate.js'), pluginSource(AIAssistant.CLAUDE, '.claude'));
+    await fs.writeFile(configPath, JSON.stringify({ processors: ['./no-processor.js', './duplicate.js', './missing.js'] }));
+
+    const result = ProcessorRegistry.loadPlugins({ configPath, searchPaths: [nodeModules] });
+
+    expect(result.loaded).toEqual([]);
+    expect(result.warnings).toHaveLength(3);
+    expect(result.warnings[0]).toContain('must be a BaseAIProcessor subclass');
+    expect(result.warnings[1]).toContain("'claude' is already registered");
+    expect(isSupportedAIAssistant('broken')).toBe(false);
+    expect(() => AIProcessorFactory.create('broken', '/tmp')).toThrow('Unsupported AI assistant: broken');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Project Config Unit Tests
+ *
+ * Tests for generating several AI assistants into one project and recording them in .rod/config.json
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { loadProjectConfig } from '../../src/lib/config-manager';
+import { AIAssistant, ConflictPolicy, ScriptType, parseAIAssistantList } from '../../src/types/cli-config';
+
+describe('Project Config Unit Tests', () => {
+  let tmpDir: string;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-project-config-'));
+    projectPath = path.join(tmpDir, 'multi-project');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该解析逗号分隔的AI助手列表', () => {
+    expect(parseAIAssistantList('claude, Cursor,copilot,claude')).toEqual(['claude', 'cursor', 'copilot']);
+  });
+
+  it('应该为多个AI助手共享同一个.rod目录', async () => {
+    const generator = new LocalTemplateGenerator();
+    const result = await generator.generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      aiAssistants: [AIAssistant.CLAUDE, AIAssistant.CURSOR],
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'multi-project'
+    });
+
+    expect(result.success).toBe(true);
+    await expect(fs.stat(path.join(projectPath, '.claude', 'commands', 'plan.md'))).resolves.toBeDefined();
+    await expect(fs.stat(path.join(projectPath, '.cursor', 'commands', 'plan.md'))).resolves.toBeDefined();
+
+    const config = await loadProjectConfig(projectPath);
+    expect(config!.aiAssistants).toEqual([AIAssistant.CLAUDE, AIAssistant.CURSOR]);
+  });
+
+  it('应该在再次初始化时追加新的AI助手', async () => {
+    const generator = new LocalTemplateGenerator();
+    const baseConfig = { scriptType: ScriptType.NODE, projectPath, projectName: 'multi-project' };
+    await generator.generateTemplate({ ...baseConfig, aiAssistant: AIAssistant.CLAUDE });
+    await generator.generateTemplate({ ...baseConfig, aiAssistant: AIAssistant.GEMINI, onConflict: ConflictPolicy.SKIP });
+
+    const config = await loadProjectConfig(projectPath);
+    expect(config!.aiAssistants).toEqual([AIAssistant.CLAUDE, AIAssistant.GEMINI]);
+  });
+});
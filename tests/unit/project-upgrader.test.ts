@@ -0,0 +1,70 @@
+/**
+ * Project Upgrader Unit Tests
+ *
+ * Tests for `rod upgrade` regenerating and merging an existing project
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { ProjectUpgrader } from '../../src/lib/project-upgrader';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { GenerationRecord } from '../../src/lib/template-generator/generation-record';
+import { AIAssistant, ScriptType } from '../../src/types/cli-config';
+
+describe('ProjectUpgrader Unit Tests', () => {
+  let tmpDir: string;
+  let projectPath: string;
+  const planPath = () => path.join(projectPath, '.claude', 'commands', 'plan.md');
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-upgrade-test-'));
+    projectPath = path.join(tmpDir, 'upgrade-project');
+
+    await new LocalTemplateGenerator().generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      aiAssistants: [AIAssistant.CLAUDE, AIAssistant.CURSOR],
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'upgrade-project'
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该为所有AI助手只生成一次并沿用项目的脚本类型', async () => {
+    const generate = jest.spyOn(LocalTemplateGenerator.prototype, 'generateTemplate');
+
+    const result = await new ProjectUpgrader().upgrade({ projectPath });
+
+    expect(result.success).toBe(true);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(generate.mock.calls[0][0]).toMatchObject({
+      aiAssistants: [AIAssistant.CLAUDE, AIAssistant.CURSOR],
+      scriptType: ScriptType.NODE
+    });
+  });
+
+  it('应该在升级失败时回滚已写入的文件', async () => {
+    // Pretend the file is an unedited copy of an older version so the upgrade replaces it
+    jest.spyOn(GenerationRecord.prototype, 'get').mockReturnValue('old content');
+    await fs.writeFile(planPath(), 'old content');
+    const load = GenerationRecord.load;
+    jest.spyOn(GenerationRecord, 'load').mockImplementation(async recordPath => {
+      const record = await load.call(GenerationRecord, recordPath);
+      if (recordPath === projectPath) {
+        jest.spyOn(record, 'save').mockRejectedValue(new Error('disk full'));
+      }
+      return record;
+    });
+
+    const result = await new ProjectUpgrader().upgrade({ projectPath });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toBe('Upgrade failed: disk full');
+    await expect(fs.readFile(planPath(), 'utf8')).resolves.toBe('old content');
+  });
+});
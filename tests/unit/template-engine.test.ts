@@ -0,0 +1,142 @@
+/**
+ * Template Engine Unit Tests
+ *
+ * Tests for {{#if}} / {{#each}} blocks in generated files and their error reporting
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { NPMTemplateManager } from '../../src/lib/npm-template-manager';
+import { TemplateSyntaxError, renderTemplate } from '../../src/lib/template-generator/template-engine';
+import { AIAssistant, ScriptType } from '../../src/types/cli-config';
+
+describe('Template Engine Unit Tests', () => {
+  it('应该按条件渲染if/else块并去掉独占一行的标签', () => {
+    const template = [
+      '# Setup',
+      '{{#if ai == "claude"}}',
+      'Use CLAUDE.md',
+      '{{else}}',
+      'Use the rules file',
+      '{{/if}}',
+      'Done'
+    ].join('\n');
+
+    expect(renderTemplate(template, { AI_ASSISTANT: 'claude' })).toBe('# Setup\nUse CLAUDE.md\nDone');
+    expect(renderTemplate(template, { AI_ASSISTANT: 'cursor' })).toBe('# Setup\nUse the rules file\nDone');
+  });
+
+  it('应该支持!、&&、||、括号以及数字和布尔比较', () => {
+    const values = { PORT: 8080, USE_CACHE: true, DB: 'mysql', MODULES: [] };
+
+    expect(renderTemplate('{{#if PORT == 8080 && !(DB != "mysql")}}yes{{/if}}', values)).toBe('yes');
+    expect(renderTemplate('{{#if MODULES || USE_CACHE == false}}yes{{else}}no{{/if}}', values)).toBe('no');
+    expect(renderTemplate('{{#if MISSING}}yes{{else}}no{{/if}}', values)).toBe('no');
+  });
+
+  it('应该遍历列表并提供this和@index', () => {
+    const template = '{{#each MODULES}}\n- {{@index}}: {{this}} ({{PROJECT_NAME}})\n{{/each}}';
+
+    expect(renderTemplate(template, { MODULES: ['auth', 'billing'], PROJECT_NAME: 'demo' }))
+      .toBe('- 0: auth (demo)\n- 1: billing (demo)\n');
+  });
+
+  it('应该保留其他模板语言的标签', () => {
+    const template = '<p>{{ count + 1 }}</p>{{#items}}{{name}}{{/items}}';
+
+    expect(renderTemplate(template, {})).toBe(template);
+  });
+
+  it('应该报告带文件名和行号的语法错误', () => {
+    expect(() => renderTemplate('a\n{{#if ai ==}}\nb\n{{/if}}', {}, 'deploy.md'))
+      .toThrow("deploy.md:2: missing value in condition 'ai =='");
+    expect(() => renderTemplate('{{#each LIST}}\n{{#if A}}\n{{/each}}', {}, 'deploy.md'))
+      .toThrow('deploy.md:3: {{/each}} closes the {{#if}} opened on line 2');
+    expect(() => renderTemplate('\n\n{{#if A}}', {}, 'deploy.md'))
+      .toThrow('deploy.md:3: {{#if}} is never closed with {{/if}}');
+    expect(() => renderTemplate('{{else}}', {}, 'deploy.md')).toThrow(TemplateSyntaxError);
+    expect(() => renderTemplate('{{#each NAME}}{{/each}}', { NAME: 'demo' }, 'deploy.md'))
+      .toThrow('deploy.md:1: {{#each NAME}}: NAME is not a list');
+  });
+
+  describe('generation', () => {
+    let tmpDir: string;
+    let templatePath: string;
+    let projectPath: string;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-engine-'));
+      templatePath = path.join(tmpDir, 'svc');
+      projectPath = path.join(tmpDir, 'project');
+      await fs.mkdir(path.join(templatePath, 'commands'), { recursive: true });
+      await fs.writeFile(path.join(templatePath, 'rod-template.json'), JSON.stringify({
+        name: 'svc',
+        version: '1.0.0',
+        variables: { FEATURES: { type: 'list', default: ['auth'] } },
+        render: ['FEATURES.md', 'docs/']
+      }));
+
+      jest.spyOn(NPMTemplateManager.prototype, 'getInstalledTemplates').mockResolvedValue(['svc']);
+      jest.spyOn(NPMTemplateManager.prototype, 'getTemplatePath').mockResolvedValue(templatePath);
+      jest.spyOn(NPMTemplateManager.prototype, 'getTemplateVersion').mockResolvedValue('1.0.0');
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    const generate = () => new LocalTemplateGenerator().generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      aiAssistants: [AIAssistant.CLAUDE, AIAssistant.CURSOR],
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'project',
+      templateName: 'svc',
+      variables: { FEATURES: 'auth,billing' }
+    });
+
+    it('应该为每个AI助手渲染命令并在项目文件中展开列表', async () => {
+      await fs.writeFile(
+        path.join(templatePath, 'commands', 'deploy.md'),
+        '---\ndescription: Deploy\n---\n\n{{#if ai == "claude"}}\nClaude deploy\n{{else}}\nOther deploy\n{{/if}}\n'
+      );
+      await fs.writeFile(path.join(templatePath, 'FEATURES.md'), '{{#each FEATURES}}\n- {{this}}\n{{/each}}');
+
+      const result = await generate();
+
+      expect(result.success).toBe(true);
+      const claude = await fs.readFile(path.join(projectPath, '.claude', 'commands', 'deploy.md'), 'utf8');
+      expect(claude).toContain('Claude deploy');
+      expect(claude).not.toContain('Other deploy');
+      const cursor = await fs.readFile(path.join(projectPath, '.cursor', 'commands', 'deploy.md'), 'utf8');
+      expect(cursor).toContain('Other deploy');
+      await expect(fs.readFile(path.join(projectPath, 'FEATURES.md'), 'utf8')).resolves.toBe('- auth\n- billing\n');
+    });
+
+    it('应该只渲染清单render中列出的文件并原样保留其他模板语言的文件', async () => {
+      await fs.mkdir(path.join(templatePath, 'docs'), { recursive: true });
+      await fs.writeFile(path.join(templatePath, 'docs', 'ASSISTANTS.md'), '{{#each AI_ASSISTANTS}}\n- {{this}}\n{{/each}}');
+      const handlebars = '<h1>{{PROJECT_NAME}}</h1>\n{{#if user}}\n{{user.name}}\n{{else}}\nGuest\n{{/if}}\n';
+      await fs.writeFile(path.join(templatePath, 'card.hbs'), handlebars);
+
+      const result = await generate();
+
+      expect(result.success).toBe(true);
+      await expect(fs.readFile(path.join(projectPath, 'docs', 'ASSISTANTS.md'), 'utf8')).resolves.toBe('- claude\n- cursor\n');
+      await expect(fs.readFile(path.join(projectPath, 'card.hbs'), 'utf8'))
+        .resolves.toBe(handlebars.replace('{{PROJECT_NAME}}', 'project'));
+    });
+
+    it('应该在模板文件语法错误时生成失败并指出文件和行号', async () => {
+      await fs.writeFile(path.join(templatePath, 'FEATURES.md'), 'Features:\n{{#each FEATURES}}\n- {{this}}\n');
+
+      const result = await generate();
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('FEATURES.md:2: {{#each}} is never closed with {{/each}}');
+    });
+  });
+});
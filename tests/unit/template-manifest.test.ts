@@ -0,0 +1,172 @@
+/**
+ * Template Manifest Unit Tests
+ *
+ * Tests for loading and validating rod-template.json/yaml and applying it during generation
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { NPMTemplateManager } from '../../src/lib/npm-template-manager';
+import { loadTemplateManifest, validateTemplateManifest } from '../../src/lib/template-generator/template-manifest';
+import { parseYaml } from '../../src/lib/template-generator/yaml-parser';
+import { AIAssistant, Language, ScriptType } from '../../src/types/cli-config';
+
+describe('Template Manifest Unit Tests', () => {
+  let tmpDir: string;
+  let templatePath: string;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-manifest-'));
+    templatePath = path.join(tmpDir, 'demo');
+    projectPath = path.join(tmpDir, 'project');
+    await fs.mkdir(templatePath, { recursive: true });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const writeTemplateFile = async (relativePath: string, content: string): Promise<void> => {
+    await fs.mkdir(path.dirname(path.join(templatePath, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(templatePath, relativePath), content);
+  };
+
+  const generateFromTemplate = (aiAssistant = AIAssistant.CLAUDE) => {
+    jest.spyOn(NPMTemplateManager.prototype, 'getInstalledTemplates').mockResolvedValue(['demo']);
+    jest.spyOn(NPMTemplateManager.prototype, 'getTemplatePath').mockResolvedValue(templatePath);
+    jest.spyOn(NPMTemplateManager.prototype, 'getTemplateVersion').mockResolvedValue('1.0.0');
+
+    return new LocalTemplateGenerator().generateTemplate({
+      aiAssistant,
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'project',
+      templateName: 'demo'
+    });
+  };
+
+  it('应该解析YAML清单中的嵌套映射、列表和标量', () => {
+    const yaml = [
+      'name: demo  # comment',
+      'version: "1.0"',
+      'scenarios: [web, "admin, internal"]',
+      'requirements:',
+      '  aiAssistants:',
+      '    - claude',
+      '    - cursor',
+      'variables:',
+      '  port:',
+      '    type: number',
+      '    default: 3000',
+      '    required: false'
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      name: 'demo',
+      version: '1.0',
+      scenarios: ['web', 'admin, internal'],
+      requirements: { aiAssistants: ['claude', 'cursor'] },
+      variables: { port: { type: 'number', default: 3000, required: false } }
+    });
+  });
+
+  it('应该在YAML语法错误时报告行号', () => {
+    expect(() => parseYaml('name: demo\nitems:\n  - a: b')).toThrow('Line 3: mappings inside lists are not supported');
+  });
+
+  it('应该一次报告清单中的所有错误', () => {
+    const { errors } = validateTemplateManifest({
+      version: '1.0.0',
+      requirements: { rodVersion: 'latest', aiAssistants: ['claude', 'unknown-ai'], locales: ['fr'] },
+      variables: { port: { type: 'number', default: 'abc' }, name: { pattern: '[' } },
+      overrides: { commands: { deploy: '../outside.md' }, hooks: {} },
+      render: ['docs/', '../shared']
+    });
+
+    expect(errors).toEqual([
+      'name is required',
+      'requirements.rodVersion must be a version such as 1.2.0 or >=1.2.0',
+      'variables.port.default must be a number',
+      'variables.name.pattern is not a valid regular expression',
+      "overrides.commands.deploy: '../outside.md' must be a path inside the template",
+      'overrides.hooks: unknown section (valid: commands, specTemplates, scripts, memory)',
+      "render: '../shared' must be a path inside the template",
+      "requirements.aiAssistants: unknown AI assistant 'unknown-ai'",
+      "requirements.locales: unknown language 'fr' (valid: zh, en)"
+    ]);
+  });
+
+  it('应该拒绝会写到目标目录之外的覆盖名称', () => {
+    const { errors } = validateTemplateManifest({
+      name: 'demo',
+      version: '1.0.0',
+      overrides: { memory: { '..': 'memory.md', '.': 'memory.md', '...': 'memory.md', 'team.md': 'memory.md' } }
+    });
+
+    expect(errors).toEqual([
+      'overrides.memory...: invalid name',
+      'overrides.memory..: invalid name',
+      'overrides.memory....: invalid name'
+    ]);
+  });
+
+  it('应该加载YAML清单并检查覆盖文件是否存在', async () => {
+    await writeTemplateFile('rod-template.yaml', 'name: demo\nversion: 1.0.0\noverrides:\n  commands:\n    deploy: overrides/deploy.md\n');
+
+    await expect(loadTemplateManifest(templatePath)).rejects.toThrow(
+      "overrides.commands.deploy: file 'overrides/deploy.md' not found in the template"
+    );
+
+    await writeTemplateFile('overrides/deploy.md', '# Deploy');
+    const manifest = await loadTemplateManifest(templatePath);
+    expect(manifest!.metadata).toMatchObject({ name: 'demo', version: '1.0.0' });
+    expect(manifest!.overrides.commands).toEqual({ deploy: 'overrides/deploy.md' });
+  });
+
+  it('应该拒绝不兼容的rod-cli版本和AI助手', async () => {
+    await writeTemplateFile('rod-template.json', JSON.stringify({
+      name: 'demo',
+      version: '1.0.0',
+      requirements: { rodVersion: '>=99.0.0', aiAssistants: ['cursor'] }
+    }));
+
+    const result = await generateFromTemplate();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("Template 'demo' is not compatible: rod-cli >=99.0.0 or later required");
+    expect(result.errors[0]).toContain('Template does not support claude (supported: cursor)');
+  });
+
+  it('应该使用清单覆盖的命令和规格模板', async () => {
+    await writeTemplateFile('rod-template.json', JSON.stringify({
+      name: 'demo',
+      version: '1.0.0',
+      requirements: { locales: [Language.ZH] },
+      overrides: {
+        commands: { specify: 'overrides/specify.md', deploy: 'overrides/deploy.md' },
+        specTemplates: { 'spec-template.md': 'overrides/spec.md' }
+      }
+    }));
+    await writeTemplateFile('overrides/specify.md', '---\ndescription: Custom specify\n---\n\nCustom specify body');
+    await writeTemplateFile('overrides/deploy.md', '---\ndescription: Deploy\n---\n\nDeploy body');
+    await writeTemplateFile('overrides/spec.md', '# Custom spec');
+
+    const result = await generateFromTemplate();
+
+    expect(result.success).toBe(true);
+    const specify = await fs.readFile(path.join(projectPath, '.claude', 'commands', 'specify.md'), 'utf8');
+    expect(specify).toContain('Custom specify body');
+    const deploy = await fs.readFile(path.join(projectPath, '.claude', 'commands', 'deploy.md'), 'utf8');
+    expect(deploy).toContain('Deploy body');
+    const spec = await fs.readFile(path.join(projectPath, '.rod', 'spec-templates', 'spec-template.md'), 'utf8');
+    expect(spec).toBe('# Custom spec');
+
+    // The manifest and override sources are not copied into the project
+    await expect(fs.access(path.join(projectPath, 'rod-template.json'))).rejects.toThrow();
+    await expect(fs.access(path.join(projectPath, 'overrides'))).rejects.toThrow();
+  });
+});
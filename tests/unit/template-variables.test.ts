@@ -0,0 +1,131 @@
+/**
+ * Template Variables Unit Tests
+ *
+ * Tests for resolving template variables and replacing placeholders in generated files
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { LocalTemplateGenerator } from '../../src/lib/template-generator';
+import { NPMTemplateManager } from '../../src/lib/npm-template-manager';
+import { loadProjectConfig } from '../../src/lib/config-manager';
+import {
+  loadVariablesFile,
+  parseVariableAssignment,
+  replacePlaceholders,
+  resolveTemplateVariables
+} from '../../src/lib/template-generator/template-variables';
+import { AIAssistant, ScriptType } from '../../src/types/cli-config';
+import { TemplateVariable } from '../../src/types/project-template';
+
+describe('Template Variables Unit Tests', () => {
+  const declared: TemplateVariable[] = [
+    { name: 'SERVICE_PORT', type: 'number', default: 3000 },
+    { name: 'TEAM_NAME', type: 'string', required: true, description: 'Owning team' },
+    { name: 'DB_ENGINE', type: 'string', default: 'mysql', pattern: '^(mysql|postgres)$' },
+    { name: 'USE_CACHE', type: 'boolean', default: false }
+  ];
+
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rod-variables-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该替换变量和旧式占位符并保留未知占位符', () => {
+    const content = '# [项目名称]\nport={{SERVICE_PORT}} name={{ PROJECT_NAME }} ext={{SCRIPT_EXT}}';
+
+    expect(replacePlaceholders(content, { PROJECT_NAME: 'demo', SERVICE_PORT: 8080 }))
+      .toBe('# demo\nport=8080 name=demo ext={{SCRIPT_EXT}}');
+  });
+
+  it('应该按类型转换变量并使用默认值', async () => {
+    const result = await resolveTemplateVariables(declared, { TEAM_NAME: 'infra', SERVICE_PORT: '8080', USE_CACHE: 'yes' });
+
+    expect(result.values).toEqual({ SERVICE_PORT: 8080, TEAM_NAME: 'infra', DB_ENGINE: 'mysql', USE_CACHE: true });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('应该优先使用传入的值，其次是项目保存的值', async () => {
+    const result = await resolveTemplateVariables(declared, { SERVICE_PORT: 9000 }, {
+      previous: { SERVICE_PORT: 8080, TEAM_NAME: 'infra' }
+    });
+
+    expect(result.values).toMatchObject({ SERVICE_PORT: 9000, TEAM_NAME: 'infra' });
+  });
+
+  it('应该一次报告所有无效的变量', async () => {
+    await expect(resolveTemplateVariables(declared, { SERVICE_PORT: 'abc', DB_ENGINE: 'sqlite', USE_CACHE: 'maybe' }))
+      .rejects.toThrow([
+        'Invalid template variables:',
+        "  - SERVICE_PORT must be a number, got 'abc'",
+        '  - TEAM_NAME is required (Owning team)',
+        "  - DB_ENGINE must match ^(mysql|postgres)$, got 'sqlite'",
+        "  - USE_CACHE must be true or false, got 'maybe'"
+      ].join('\n'));
+  });
+
+  it('应该忽略模板未声明的变量并给出警告', async () => {
+    const result = await resolveTemplateVariables(declared, { TEAM_NAME: 'infra', TEAM: 'typo' });
+
+    expect(result.values).not.toHaveProperty('TEAM');
+    expect(result.warnings).toEqual([
+      "Ignoring variable 'TEAM': the template does not declare it (declared: SERVICE_PORT, TEAM_NAME, DB_ENGINE, USE_CACHE)"
+    ]);
+  });
+
+  it('应该解析--var赋值和--vars文件', async () => {
+    expect(parseVariableAssignment('URL=http://a?b=c')).toEqual(['URL', 'http://a?b=c']);
+    expect(() => parseVariableAssignment('PORT')).toThrow("Invalid variable 'PORT': expected key=value");
+
+    const varsFile = path.join(tmpDir, 'vars.json');
+    await fs.writeFile(varsFile, JSON.stringify({ SERVICE_PORT: 8080, TEAM_NAME: 'infra' }));
+    await expect(loadVariablesFile(varsFile)).resolves.toEqual({ SERVICE_PORT: 8080, TEAM_NAME: 'infra' });
+
+    await fs.writeFile(varsFile, JSON.stringify({ SERVICE_PORT: [8080] }));
+    await expect(loadVariablesFile(varsFile)).rejects.toThrow("'SERVICE_PORT' must be a string, number, boolean or list of strings");
+  });
+
+  it('应该在生成的模板文件和命令中替换变量并记录到项目配置', async () => {
+    const templatePath = path.join(tmpDir, 'svc');
+    const projectPath = path.join(tmpDir, 'project');
+    await fs.mkdir(path.join(templatePath, 'commands'), { recursive: true });
+    await fs.writeFile(path.join(templatePath, 'rod-template.json'), JSON.stringify({
+      name: 'svc',
+      version: '1.0.0',
+      variables: {
+        SERVICE_PORT: { type: 'number', default: 3000 },
+        TEAM_NAME: { type: 'string', required: true }
+      }
+    }));
+    await fs.writeFile(path.join(templatePath, 'service.yaml'), 'port: {{SERVICE_PORT}}\nteam: {{TEAM_NAME}}\n');
+    await fs.writeFile(path.join(templatePath, 'commands', 'deploy.md'), '---\ndescription: Deploy\n---\n\nDeploy {{PROJECT_NAME}} on port {{SERVICE_PORT}}');
+
+    jest.spyOn(NPMTemplateManager.prototype, 'getInstalledTemplates').mockResolvedValue(['svc']);
+    jest.spyOn(NPMTemplateManager.prototype, 'getTemplatePath').mockResolvedValue(templatePath);
+    jest.spyOn(NPMTemplateManager.prototype, 'getTemplateVersion').mockResolvedValue('1.0.0');
+
+    const result = await new LocalTemplateGenerator().generateTemplate({
+      aiAssistant: AIAssistant.CLAUDE,
+      scriptType: ScriptType.NODE,
+      projectPath,
+      projectName: 'project',
+      templateName: 'svc',
+      variables: { TEAM_NAME: 'infra' }
+    });
+
+    expect(result.success).toBe(true);
+    await expect(fs.readFile(path.join(projectPath, 'service.yaml'), 'utf8')).resolves.toBe('port: 3000\nteam: infra\n');
+    const command = await fs.readFile(path.join(projectPath, '.claude', 'commands', 'deploy.md'), 'utf8');
+    expect(command).toContain('Deploy project on port 3000');
+
+    const config = await loadProjectConfig(projectPath);
+    expect(config!.variables).toEqual({ SERVICE_PORT: 3000, TEAM_NAME: 'infra' });
+  });
+});
@@ -0,0 +1,253 @@
+#!/usr/bin/env node
+// Check and display module completion status and progress
+const fs = require('fs');
+const path = require('path');
+const { getRepoRoot } = require('./common');
+
+// Parse arguments
+const args = process.argv.slice(2);
+let jsonMode = false;
+
+for (const arg of args) {
+    if (arg === '--json') {
+        jsonMode = true;
+    } else if (arg === '--help' || arg === '-h') {
+        console.log('Usage: node check-module-status.js [--json]');
+        process.exit(0);
+    }
+}
+
+try {
+    const repoRoot = getRepoRoot();
+    const currentDir = process.cwd();
+
+    // Check if we're in a module directory
+    let modulePath = '';
+    const moduleMatch = currentDir.match(/.*\/specs\/modules\/([^\/]+)/);
+
+    if (!moduleMatch) {
+        // Not in a module directory
+        if (jsonMode) {
+            console.log(JSON.stringify({
+                ERROR: "Not in a module directory",
+                SUGGESTION: "Navigate to a module directory or use /module command"
+            }));
+        } else {
+            console.log("❌ Error: Not currently in a module directory");
+            console.log("💡 Suggestion: Navigate to a module directory or use '/module <module_name>' command");
+        }
+        process.exit(1);
+    }
+
+    modulePath = moduleMatch[1];
+    const featureDir = path.join(repoRoot, 'specs', 'modules', modulePath);
+
+    // File paths
+    const specFile = path.join(featureDir, 'spec.md');
+    const designFile = path.join(featureDir, 'plan.md');
+    const todoFile = path.join(featureDir, 'tasks.md');
+    const modulesDir = path.join(featureDir, 'modules');
+
+    // Check file existence and content
+    function checkFileStatus(filePath) {
+        if (!fs.existsSync(filePath)) {
+            return 'not_exists';
+        }
+
+        const stats = fs.statSync(filePath);
+        if (stats.size === 0) {
+            return 'empty';
+        }
+
+        const content = fs.readFileSync(filePath, 'utf8');
+        const lines = content.split('\n').length;
+        if (lines < 10) {
+            return 'minimal';
+        }
+
+        return 'complete';
+    }
+
+    // Calculate overall progress percentage
+    function calculateProgress() {
+        const totalStages = 4;
+        let completed = 0;
+
+        // Module structure (always complete if we're here)
+        completed++;
+
+        // Spec analysis
+        const specStatus = checkFileStatus(specFile);
+        if (specStatus === 'complete') {
+            completed++;
+        }
+
+        // Design
+        const designStatus = checkFileStatus(designFile);
+        if (designStatus === 'complete') {
+            completed++;
+        }
+
+        // Todo
+        const todoStatus = checkFileStatus(todoFile);
+        if (todoStatus === 'complete') {
+            completed++;
+        }
+
+        return Math.floor((completed * 100) / totalStages);
+    }
+
+    // Count tasks in tasks.md
+    function countTasks() {
+        if (!fs.existsSync(todoFile)) {
+            return { completed: 0, total: 0 };
+        }
+
+        const content = fs.readFileSync(todoFile, 'utf8');
+        const lines = content.split('\n');
+
+        let total = 0;
+        let completed = 0;
+
+        for (const line of lines) {
+            if (line.match(/^- \[ \]/)) {
+                total++;
+            } else if (line.match(/^- \[x\]/)) {
+                total++;
+                completed++;
+            }
+        }
+
+        return { completed, total };
+    }
+
+    // Check submodules
+    function checkSubmodules() {
+        if (!fs.existsSync(modulesDir)) {
+            return 0;
+        }
+
+        const entries = fs.readdirSync(modulesDir);
+        let count = 0;
+
+        for (const entry of entries) {
+            const entryPath = path.join(modulesDir, entry);
+            if (fs.statSync(entryPath).isDirectory()) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    // Generate status information
+    const specStatus = checkFileStatus(specFile);
+    const designStatus = checkFileStatus(designFile);
+    const todoStatus = checkFileStatus(todoFile);
+    const progress = calculateProgress();
+    const taskCounts = countTasks();
+    const submoduleCount = checkSubmodules();
+
+    // Generate next step suggestion
+    let nextStep = '';
+    if (specStatus !== 'complete') {
+        nextStep = "Execute '/spec <feature_description>' to start requirements analysis";
+    } else if (designStatus !== 'complete') {
+        nextStep = "Execute '/design' to create technical design document";
+    } else if (todoStatus !== 'complete') {
+        nextStep = "Execute '/todo' to create actionable task list";
+    } else if (taskCounts.completed < taskCounts.total) {
+        nextStep = "Continue implementing tasks from tasks.md or execute '/sync' to update progress";
+    } else {
+        nextStep = "Execute '/sync' to synchronize progress to project roadmap";
+    }
+
+    if (jsonMode) {
+        console.log(JSON.stringify({
+            MODULE_PATH: modulePath,
+            PROGRESS_PERCENTAGE: progress,
+            SPEC_STATUS: specStatus,
+            DESIGN_STATUS: designStatus,
+            TODO_STATUS: todoStatus,
+            TASK_COMPLETED: taskCounts.completed,
+            TASK_TOTAL: taskCounts.total,
+            SUBMODULE_COUNT: submoduleCount,
+            NEXT_STEP: nextStep
+        }, null, 2));
+    } else {
+        console.log(`## Module Status Report - ${modulePath}`);
+        console.log('');
+        console.log(`### 📊 Overall progress: ${progress}%`);
+        console.log('');
+        console.log('### 🔍 Stages:');
+        console.log('- ✅ Module creation: done');
+
+        switch (specStatus) {
+            case 'complete':
+                console.log('- ✅ Specification: done (spec.md created)');
+                break;
+            case 'minimal':
+                console.log('- 🔄 Specification: in progress (spec.md is short)');
+                break;
+            case 'empty':
+                console.log('- ⏳ Specification: not started (spec.md is empty)');
+                break;
+            default:
+                console.log('- ⏳ Specification: not started (spec.md does not exist)');
+        }
+
+        switch (designStatus) {
+            case 'complete':
+                console.log('- ✅ Technical design: done (plan.md created)');
+                break;
+            case 'minimal':
+                console.log('- 🔄 Technical design: in progress (plan.md is short)');
+                break;
+            case 'empty':
+                console.log('- ⏳ Technical design: not started (plan.md is empty)');
+                break;
+            default:
+                console.log('- ⏳ Technical design: not started (plan.md does not exist)');
+        }
+
+        switch (todoStatus) {
+            case 'complete':
+                console.log(`- ✅ Task planning: done (tasks.md has ${taskCounts.total} tasks)`);
+                break;
+            case 'minimal':
+                console.log('- 🔄 Task planning: in progress (tasks.md is short)');
+                break;
+            case 'empty':
+                console.log('- ⏳ Task planning: not started (tasks.md is empty)');
+                break;
+            default:
+                console.log('- ⏳ Task planning: not started (tasks.md does not exist)');
+        }
+
+        console.log('- 🔄 Progress sync: run whenever needed');
+        console.log('');
+
+        if (taskCounts.total > 0) {
+            console.log('### 📈 Tasks:');
+            console.log(`- Total: ${taskCounts.total}`);
+            console.log(`- Done: ${taskCounts.completed}`);
+            console.log(`- Remaining: ${taskCounts.total - taskCounts.completed}`);
+            console.log('');
+        }
+
+        if (submoduleCount > 0) {
+            console.log('### 📂 Submodules:');
+            console.log(`- Count: ${submoduleCount}`);
+            console.log('');
+        }
+
+        console.log('### 🔔 Next step:');
+        console.log(`- ${nextStep}`);
+        console.log('');
+        console.log('**✅ Status check complete!**');
+    }
+
+} catch (error) {
+    console.error('Error:', error.message);
+    process.exit(1);
+}
\ No newline at end of file